@@ -9,6 +9,9 @@ const tabs = [
   { id: "traits", name: "Traits" },
   { id: "artwork", name: "Artwork" },
   { id: "conflicts", name: "Conflicts" },
+  { id: "requirements", name: "Requirements" },
+  { id: "textLayers", name: "Text" },
+  { id: "oneOfOnes", name: "1/1s" },
   { id: "composites", name: "Composites" },
 ];
 
@@ -0,0 +1,229 @@
+import { Fragment, useRef } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { BeakerIcon } from "@heroicons/react/outline";
+import GenerationSimulationResult, {
+  GenerationSimulation,
+} from "../../models/generationSimulation";
+
+interface Props {
+  title: string;
+  simulationResult: GenerationSimulationResult | null;
+  actionButtonTitle?: string;
+  cancelButtonTitle?: string;
+  action: () => void;
+  cancelAction: () => void;
+  show?: boolean;
+}
+
+const LOW_CAPACITY_MULTIPLIER = 2;
+
+export const SimulationModal: React.FC<Props> = ({
+  title,
+  simulationResult,
+  actionButtonTitle = "Generate",
+  cancelButtonTitle = "Cancel",
+  action,
+  cancelAction,
+  show,
+}) => {
+  const cancelButtonRef = useRef(null);
+
+  const simulations = simulationResult?.simulations ?? [];
+  const totalNullItems = simulations.reduce(
+    (total, simulation) => total + simulation.nullItemIndexes.length,
+    0
+  );
+
+  // with fewer unique combinations than items, generation is guaranteed
+  // to run out of retries, so don't allow it to start at all. when there
+  // are barely enough, warn that it will spend a lot of time retrying
+  const capacities = simulationResult?.capacities ?? [];
+  const insufficientCapacities = capacities.filter(
+    (capacity) => !capacity.isEstimate && capacity.capacity < capacity.supply
+  );
+  const lowCapacities = capacities.filter(
+    (capacity) =>
+      !insufficientCapacities.includes(capacity) &&
+      capacity.capacity < capacity.supply * LOW_CAPACITY_MULTIPLIER
+  );
+  const isBlocked = insufficientCapacities.length > 0;
+
+  return (
+    <Transition.Root show={show} as={Fragment}>
+      <Dialog
+        as="div"
+        className="fixed z-10 inset-0 overflow-y-auto"
+        initialFocus={cancelButtonRef}
+        onClose={cancelAction}
+      >
+        <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+          <Transition.Child
+            as={Fragment}
+            enter="ease-out duration-200"
+            enterFrom="opacity-0"
+            enterTo="opacity-100"
+            leave="ease-in duration-100"
+            leaveFrom="opacity-100"
+            leaveTo="opacity-0"
+          >
+            <Dialog.Overlay className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+          </Transition.Child>
+
+          {/* This element is to trick the browser into centering the modal contents. */}
+          <span
+            className="hidden sm:inline-block sm:align-middle sm:h-screen"
+            aria-hidden="true"
+          >
+            &#8203;
+          </span>
+          <Transition.Child
+            as={Fragment}
+            enter="ease-out duration-200"
+            enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            enterTo="opacity-100 translate-y-0 sm:scale-100"
+            leave="ease-in duration-100"
+            leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+            leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+          >
+            <div className="inline-block align-bottom bg-white rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-3xl sm:w-full sm:p-6">
+              <div className="sm:flex sm:items-start">
+                <div className="mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-indigo-100 sm:mx-0 sm:h-10 sm:w-10">
+                  <BeakerIcon
+                    className="h-6 w-6 text-indigo-600"
+                    aria-hidden="true"
+                  />
+                </div>
+                <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left w-full">
+                  <Dialog.Title
+                    as="h3"
+                    className="text-lg leading-6 font-medium text-gray-900"
+                  >
+                    {title}
+                  </Dialog.Title>
+                  <div className="mt-2">
+                    <p className="text-sm text-gray-500">
+                      {totalNullItems == 0
+                        ? "Every item is expected to generate successfully."
+                        : totalNullItems +
+                          " items are expected to fail to generate."}
+                    </p>
+                  </div>
+                  {insufficientCapacities.map((capacity) => (
+                    <p
+                      key={capacity.traitSetId ?? "-1"}
+                      className="mt-2 text-sm text-red-700"
+                    >
+                      {capacity.traitSetName} only has {capacity.capacity}{" "}
+                      unique trait combinations for a supply of{" "}
+                      {capacity.supply}. Add more trait values or relax
+                      conflicts before generating.
+                    </p>
+                  ))}
+                  {lowCapacities.map((capacity) => (
+                    <p
+                      key={capacity.traitSetId ?? "-1"}
+                      className="mt-2 text-sm text-yellow-700"
+                    >
+                      {capacity.traitSetName} has{" "}
+                      {capacity.isEstimate ? "at least " : "only "}
+                      {capacity.capacity} unique trait combinations for a supply
+                      of {capacity.supply}, so some items may fail to find an
+                      unused combination.
+                    </p>
+                  ))}
+                  <div className="mt-4 max-h-96 overflow-y-auto">
+                    {simulations.map((simulation) => (
+                      <SimulationSummary
+                        key={simulation.traitSetId ?? "-1"}
+                        simulation={simulation}
+                      />
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
+                <button
+                  type="button"
+                  className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={() => action()}
+                  disabled={isBlocked}
+                >
+                  {actionButtonTitle}
+                </button>
+                <button
+                  type="button"
+                  className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:w-auto sm:text-sm"
+                  onClick={() => cancelAction()}
+                  ref={cancelButtonRef}
+                >
+                  {cancelButtonTitle}
+                </button>
+              </div>
+            </div>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+};
+
+const SimulationSummary: React.FC<{ simulation: GenerationSimulation }> = ({
+  simulation,
+}) => {
+  const itemCount = simulation.endIndex - simulation.startIndex;
+
+  return (
+    <div className="mb-6">
+      <h4 className="font-bold text-sm mb-1">
+        {simulation.traitSetName} ({simulation.startIndex}-
+        {simulation.endIndex - 1})
+      </h4>
+      <ul className="text-xs text-gray-500 mb-2">
+        <li>Duplicate retries: {simulation.duplicateRetries}</li>
+        <li>Duplicate failures: {simulation.duplicateFailures}</li>
+        <li>Unresolved conflicts: {simulation.conflictFailures}</li>
+        <li>
+          Failed items: {simulation.nullItemIndexes.length}
+          {simulation.nullItemIndexes.length > 0
+            ? " (" + simulation.nullItemIndexes.join(", ") + ")"
+            : ""}
+        </li>
+        {simulation.conflictResolutions.map((conflictResolution) => (
+          <li key={conflictResolution.conflictId}>
+            Conflict {conflictResolution.description} resolved{" "}
+            {conflictResolution.count} times
+          </li>
+        ))}
+      </ul>
+      <table className="min-w-full divide-y divide-gray-200 border-gray-100 border-2 text-xs">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">
+              Trait
+            </th>
+            <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">
+              Value
+            </th>
+            <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">
+              Projected Count
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {simulation.valueCounts.map((valueCount, idx) => (
+            <tr
+              key={valueCount.traitId + ":" + (valueCount.traitValueId ?? "-1")}
+              className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}
+            >
+              <td className="px-3 py-1">{valueCount.traitName}</td>
+              <td className="px-3 py-1">{valueCount.traitValueName}</td>
+              <td className="px-3 py-1">
+                {valueCount.count}/{itemCount}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,4 +1,12 @@
-import { Collection, Project, ImageComposite, User } from "./models";
+import {
+  Collection,
+  Project,
+  ImageComposite,
+  ImageCompositeRendition,
+  OutputFormat,
+  OutputFormats,
+  User,
+} from "./models";
 import { storage } from "../models/firebase";
 
 interface CandyMachineItem {
@@ -8,6 +16,7 @@ interface CandyMachineItem {
   seller_fee_basis_points: number;
   external_url: string;
   image: string;
+  animation_url?: string;
   attributes: TraitValuePair[];
   collection: CollectionItem;
   properties: PropertiesItem;
@@ -46,7 +55,8 @@ export namespace CandyMachine {
     creators: User[],
     collection: Collection,
     compositeGroupId: string,
-    imageComposite: ImageComposite | null
+    imageComposite: ImageComposite | null,
+    omitNoneAttributes: boolean = false
   ): Promise<Boolean> {
     return new Promise<Boolean>((resolve, reject) => {
       console.log("constructing item " + orderNumber);
@@ -56,7 +66,8 @@ export namespace CandyMachine {
         project,
         creators,
         collection,
-        imageComposite
+        imageComposite,
+        omitNoneAttributes
       );
 
       const itemJSON = JSON.stringify(item, null, 4);
@@ -90,18 +101,40 @@ export namespace CandyMachine {
     });
   }
 
+  export function renditionFilename(
+    orderNumber: number,
+    rendition: ImageCompositeRendition
+  ): string {
+    return (
+      orderNumber +
+      "-" +
+      rendition.name +
+      OutputFormats.extension(rendition.format)
+    );
+  }
+
+  export function animationFilenameForItem(orderNumber: number): string {
+    return (
+      orderNumber + "-animation" + OutputFormats.extension(OutputFormat.WebP)
+    );
+  }
+
   function constructCandyMachineItem(
     orderNumber: number,
     project: Project,
     creators: User[],
     collection: Collection,
-    imageComposite: ImageComposite | null
+    imageComposite: ImageComposite | null,
+    omitNoneAttributes: boolean
   ): CandyMachineItem {
     const attributes =
       imageComposite?.traits
         .filter((traitPair) => {
           return !traitPair.trait.isArtworkOnly;
         })
+        .filter((traitPair) => {
+          return !omitNoneAttributes || traitPair.traitValue != null;
+        })
         .map((elem) => {
           return {
             trait_type: elem.trait.name,
@@ -111,6 +144,35 @@ export namespace CandyMachine {
 
     const humanReadableOrderNumber = orderNumber + 1;
 
+    const imageFilename =
+      orderNumber + OutputFormats.extension(imageComposite?.format);
+
+    // renditions are stored alongside the main image
+    const files = [
+      {
+        uri: imageFilename,
+        type: OutputFormats.contentType(imageComposite?.format),
+      } as FileItem,
+      ...(imageComposite?.renditions ?? []).map((rendition) => {
+        return {
+          uri: renditionFilename(orderNumber, rendition),
+          type: OutputFormats.contentType(rendition.format),
+        } as FileItem;
+      }),
+    ];
+
+    // animations are always animated webp, which is still an image
+    // as far as the category goes (the same as an animated gif)
+    const animationFilename = imageComposite?.animationURL
+      ? animationFilenameForItem(orderNumber)
+      : undefined;
+    if (animationFilename) {
+      files.push({
+        uri: animationFilename,
+        type: OutputFormats.contentType(OutputFormat.WebP),
+      } as FileItem);
+    }
+
     return {
       name: collection.nftName + " #" + humanReadableOrderNumber, // shift for 0 index
       symbol: collection.symbol,
@@ -118,7 +180,8 @@ export namespace CandyMachine {
       seller_fee_basis_points: collection.sellerFeeBasisPoints,
       external_url:
         project.url,
-      image: orderNumber + ".png",
+      image: imageFilename,
+      animation_url: animationFilename,
       attributes: attributes,
       collection: {
         name: collection.name,
@@ -126,12 +189,7 @@ export namespace CandyMachine {
       } as CollectionItem,
       properties: {
         category: "image",
-        files: [
-          {
-            uri: orderNumber + ".png",
-            type: "image/png",
-          } as FileItem,
-        ],
+        files: files,
         creators: creators.map((creator) => {
           return {
             address: creator.address,
@@ -2,6 +2,21 @@ import { db } from "./firebase";
 
 // DEFINITIONS
 
+export enum BlendMode {
+  Normal = 0,
+  Multiply,
+  Screen,
+  Overlay,
+  Darken,
+  Lighten,
+  ColorDodge,
+  ColorBurn,
+  HardLight,
+  SoftLight,
+  Difference,
+  Exclusion,
+}
+
 export interface Collection {
   id: string;
   name: string;
@@ -12,8 +27,32 @@ export interface Collection {
   status: DropStatus;
   startDate: Date | null;
   userGroupId: string;
+  canvasWidth?: number | null;
+  canvasHeight?: number | null;
+  outputSettings?: OutputSettings;
+  renditions?: Rendition[];
+}
+
+
+// swaps one exact colour for another, for pixel art
+export interface ColorMapping {
+  source: string;
+  target: string;
+}
+
+// a recoloured copy of a base layer, given a trait value of its own
+export interface ColorVariant {
+  id: string;
+  name: string;
+  type: ColorVariantType;
+  hueShift: number;
+  colorMap: ColorMapping[];
 }
 
+export enum ColorVariantType {
+  HueShift = 0,
+  ColorMap,
+}
 
 export interface Conflict {
   id: string;
@@ -22,14 +61,26 @@ export interface Conflict {
   trait2Id: string;
   trait1ValueId: string | null;
   trait2ValueId: string | null;
+  conditions?: ConflictCondition[];
+  resolutionTraitId?: string | null;
+  resolutionTraitValueId?: string | null;
   resolutionType: ConflictResolutionType;
 }
 
+export interface ConflictCondition {
+  traitId: string;
+  traitValueId: string | null;
+}
+
 export enum ConflictResolutionType {
   Trait2None = 0,
   Trait1None,
   Trait2Random,
   Trait1Random,
+  TraitNone,
+  TraitRandom,
+  TraitValue,
+  AllRandom,
 }
 
 export enum DropStatus {
@@ -38,11 +89,80 @@ export enum DropStatus {
   Ended,
 }
 
+// a procedural background drawn instead of uploaded artwork.
+// gradients go from the first colour to the last
+export interface Fill {
+  type: FillType;
+  colors: string[];
+  angle: number | null;
+}
+
+export enum FillType {
+  Solid = 0,
+  LinearGradient,
+  RadialGradient,
+}
+
+export interface GenerationJob {
+  id: string;
+  compositeGroupId: string;
+  status: GenerationJobStatus;
+  supply: number;
+  batches: GenerationJobBatch[];
+  nextBatchIndex: number;
+  nextItemIndex: number;
+  traitSetCompositeCounts: { [traitSetId: string]: number };
+  failures: GenerationJobFailure[];
+  runningSince: number | null;
+}
+
+export interface GenerationJobBatch {
+  traitSetId: string;
+  traitSetName: string;
+  startIndex: number;
+  endIndex: number;
+  isFirstBatchInTraitSet: boolean;
+}
+
+export interface GenerationJobFailure {
+  startIndex: number;
+  endIndex: number;
+  message: string;
+  failedAt: number;
+}
+
+export enum GenerationJobStatus {
+  Pending = 0,
+  Running,
+  Complete,
+  Failed,
+  Cancelled,
+}
+
 export interface ImageComposite {
   id: string;
   externalURL: string | null;
   traits: TraitValuePair[];
   traitsHash: string;
+  traitSetId: string | null;
+  itemIndex: number;
+  format?: OutputFormat;
+  renditions?: ImageCompositeRendition[];
+  animationURL?: string | null;
+  oneOfOneId?: string | null;
+}
+
+export interface ImageCompositeRendition {
+  name: string;
+  format: OutputFormat;
+  externalURL: string | null;
+}
+
+export interface ImageCompositeGroup {
+  id: string;
+  seed: string | null;
+  rarityMode: RarityMode;
+  isPartial: boolean;
 }
 
 export interface ImageLayer {
@@ -56,6 +176,46 @@ export interface ImageLayer {
   traitValueId: string | null;
   companionLayerId: string | null;
   companionLayerZIndex: number | null;
+  blendMode?: BlendMode;
+  opacity?: number;
+  offsetX?: number;
+  offsetY?: number;
+  scale?: number;
+  anchor?: LayerAnchor;
+  colorVariants?: ColorVariant[];
+  baseLayerId?: string | null;
+  colorVariantId?: string | null;
+  tintTraitId?: string | null;
+}
+
+export enum LayerAnchor {
+  TopLeft = 0,
+  Top,
+  TopRight,
+  Left,
+  Center,
+  Right,
+  BottomLeft,
+  Bottom,
+  BottomRight,
+}
+
+// a finished, hand-made item reserved in every newly generated group
+export interface OneOfOne {
+  id: string;
+  name: string;
+  bucketFilename: string;
+  url: string;
+  traitSetId: string | null;
+  attributes: OneOfOneAttribute[];
+}
+
+// either an existing value of the trait, or a value only this item has.
+// traits without an attribute are none
+export interface OneOfOneAttribute {
+  traitId: string;
+  traitValueId: string | null;
+  customValueName: string | null;
 }
 
 export interface OrderedImageLayer {
@@ -63,6 +223,39 @@ export interface OrderedImageLayer {
   zIndex: number;
 }
 
+export enum OutputFormat {
+  Png = 0,
+  WebP,
+  Jpeg,
+  Svg,
+}
+
+export interface OutputSettings {
+  format: OutputFormat;
+  quality: number | null;
+  width: number | null;
+  height: number | null;
+}
+
+export enum RarityMode {
+  Weighted = 0,
+  ExactQuota,
+}
+
+// an extra, for ex. smaller, copy of every composite
+export interface Rendition extends OutputSettings {
+  name: string;
+}
+
+export interface Requirement {
+  id: string;
+  traitSetId: string | null;
+  traitId: string;
+  traitValueId: string | null;
+  requiredTraitId: string;
+  requiredTraitValueIds: (string | null)[];
+}
+
 export interface Project {
   id: string;
   name: string;
@@ -71,6 +264,25 @@ export interface Project {
   url: string;
 }
 
+/**
+ * text drawn into every item at its own zIndex, for ex. the item's
+ * number. placeholders in braces are filled in for each item
+ */
+export interface TextLayer {
+  id: string;
+  name: string;
+  traitSetId: string | null;
+  text: string;
+  fontBucketFilename: string | null;
+  fontName: string | null;
+  fontSize: number;
+  color: string;
+  zIndex: number;
+  anchor?: LayerAnchor;
+  offsetX?: number;
+  offsetY?: number;
+}
+
 export interface Trait {
   id: string;
   name: string;
@@ -80,6 +292,7 @@ export interface Trait {
   isArtworkOnly: boolean;
   isAlwaysUnique: boolean;
   excludeFromDuplicateDetection: boolean;
+  noneChance?: number | null;
 }
 
 export interface TraitSet {
@@ -92,6 +305,9 @@ export interface TraitValue {
   id: string;
   name: string;
   rarity: number;
+  traitSetRarities?: { [traitSetId: string]: number };
+  fill?: Fill | null;
+  tintColor?: string | null;
 }
 
 export interface TraitValuePair {
@@ -125,6 +341,21 @@ export namespace Collections {
     collection.id = collectionDoc.id;
     return collection;
   }
+
+  /**
+   * collections saved before output settings existed
+   * keep generating full size PNGs
+   */
+  export function outputSettings(collection: Collection): OutputSettings {
+    return (
+      collection.outputSettings ?? {
+        format: OutputFormat.Png,
+        quality: null,
+        width: null,
+        height: null,
+      }
+    );
+  }
 }
 
 export namespace Conflicts {
@@ -158,6 +389,297 @@ export namespace Conflicts {
 
     return conflicts;
   }
+
+  /**
+   * every trait (and value, or any value if null) that has to be
+   * picked together for the conflict to apply. conflicts saved before
+   * conditions existed only ever have the trait 1 / trait 2 pair
+   */
+  export function conditions(conflict: Conflict): ConflictCondition[] {
+    if (conflict.conditions && conflict.conditions.length > 0) {
+      return conflict.conditions;
+    }
+
+    return [
+      { traitId: conflict.trait1Id, traitValueId: conflict.trait1ValueId },
+      { traitId: conflict.trait2Id, traitValueId: conflict.trait2ValueId },
+    ];
+  }
+
+  /**
+   * @returns the id of the trait changed to resolve the conflict
+   */
+  export function resolutionTraitId(conflict: Conflict): string {
+    switch (conflict.resolutionType) {
+      case ConflictResolutionType.Trait1None:
+      case ConflictResolutionType.Trait1Random:
+        return conflict.trait1Id;
+      case ConflictResolutionType.Trait2None:
+      case ConflictResolutionType.Trait2Random:
+        return conflict.trait2Id;
+      default:
+        return conflict.resolutionTraitId ?? conflict.trait2Id;
+    }
+  }
+
+  export function resolvesToNone(conflict: Conflict): boolean {
+    return (
+      conflict.resolutionType == ConflictResolutionType.Trait1None ||
+      conflict.resolutionType == ConflictResolutionType.Trait2None ||
+      conflict.resolutionType == ConflictResolutionType.TraitNone
+    );
+  }
+}
+
+export namespace Fills {
+  // css gradients point down by default
+  export const DEFAULT_ANGLE: number = 180;
+
+  /**
+   * an svg of the fill covering the whole canvas. svg gradients run left
+   * to right where css ones run at an angle clockwise from the top, so
+   * they're rotated to match the preview in the trait value page
+   */
+  export function svg(fill: Fill, width: number, height: number): string {
+    const colors = fill.colors.map((color) =>
+      /^#[0-9a-fA-F]{3,8}$/.test(color) ? color : "#000000"
+    );
+    if (colors.length == 0) {
+      colors.push("#000000");
+    }
+
+    let paint = colors[0];
+    let defs = "";
+
+    if (fill.type != FillType.Solid) {
+      const stops = colors
+        .map(
+          (color, i) =>
+            '<stop offset="' +
+            (colors.length > 1 ? i / (colors.length - 1) : 0) +
+            '" stop-color="' +
+            color +
+            '"/>'
+        )
+        .join("");
+
+      defs =
+        fill.type == FillType.RadialGradient
+          ? '<radialGradient id="fill">' + stops + "</radialGradient>"
+          : '<linearGradient id="fill" gradientTransform="rotate(' +
+            ((fill.angle ?? DEFAULT_ANGLE) - 90) +
+            ', 0.5, 0.5)">' +
+            stops +
+            "</linearGradient>";
+      paint = "url(#fill)";
+    }
+
+    return (
+      '<svg xmlns="http://www.w3.org/2000/svg" width="' +
+      width +
+      '" height="' +
+      height +
+      '" viewBox="0 0 ' +
+      width +
+      " " +
+      height +
+      '"><defs>' +
+      defs +
+      '</defs><rect width="100%" height="100%" fill="' +
+      paint +
+      '"/></svg>'
+    );
+  }
+}
+
+export namespace GenerationJobs {
+  // a run is never allowed longer than the function timeout, so after
+  // this long a job still marked as running must have been interrupted
+  const RUNNING_TIMEOUT_MS = 540 * 1000;
+
+  export async function withId(
+    generationJobId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<GenerationJob> {
+    const generationJobDoc = await db
+      .doc(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/generationJobs/" +
+          generationJobId
+      )
+      .get();
+
+    const generationJob = generationJobDoc.data() as GenerationJob;
+    generationJob.id = generationJobDoc.id;
+    return generationJob;
+  }
+
+  export async function create(
+    generationJob: GenerationJob,
+    projectId: string,
+    collectionId: string
+  ): Promise<GenerationJob> {
+    const docRef = await db
+      .collection(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/generationJobs"
+      )
+      .add(generationJob);
+
+    return {
+      ...generationJob,
+      id: docRef.id,
+    } as GenerationJob;
+  }
+
+  export async function update(
+    updates: { [x: string]: any },
+    generationJobId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<void> {
+    await db
+      .doc(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/generationJobs/" +
+          generationJobId
+      )
+      .update(updates);
+  }
+
+  /**
+   * mark the job as running, so that only one request at a time
+   * can generate its next batch
+   *
+   * @returns the claimed job, or null if it's already running elsewhere
+   */
+  export async function claim(
+    generationJobId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<GenerationJob | null> {
+    const docRef = db.doc(
+      "/projects/" +
+        projectId +
+        "/collections/" +
+        collectionId +
+        "/generationJobs/" +
+        generationJobId
+    );
+
+    return db.runTransaction(async (transaction) => {
+      const generationJobDoc = await transaction.get(docRef);
+
+      const generationJob = generationJobDoc.data() as GenerationJob;
+      generationJob.id = generationJobDoc.id;
+
+      if (
+        generationJob.status == GenerationJobStatus.Complete ||
+        generationJob.status == GenerationJobStatus.Cancelled
+      ) {
+        return generationJob;
+      }
+
+      const now = Date.now();
+      if (
+        generationJob.status == GenerationJobStatus.Running &&
+        generationJob.runningSince !== null &&
+        now - generationJob.runningSince < RUNNING_TIMEOUT_MS
+      ) {
+        return null;
+      }
+
+      transaction.update(docRef, {
+        status: GenerationJobStatus.Running,
+        runningSince: now,
+      });
+
+      return {
+        ...generationJob,
+        status: GenerationJobStatus.Running,
+        runningSince: now,
+      } as GenerationJob;
+    });
+  }
+
+  /**
+   * save how a batch ended. a cancel can land after the batch last
+   * checked for one, so a cancelled job stays cancelled and only
+   * the rest of the updates are saved
+   *
+   * @returns the job's status once saved
+   */
+  export async function finishBatch(
+    updates: { [x: string]: any },
+    generationJobId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<GenerationJobStatus> {
+    const docRef = db.doc(
+      "/projects/" +
+        projectId +
+        "/collections/" +
+        collectionId +
+        "/generationJobs/" +
+        generationJobId
+    );
+
+    return db.runTransaction(async (transaction) => {
+      const generationJobDoc = await transaction.get(docRef);
+      const generationJob = generationJobDoc.data() as GenerationJob;
+
+      const status =
+        generationJob.status == GenerationJobStatus.Cancelled
+          ? GenerationJobStatus.Cancelled
+          : updates.status;
+
+      transaction.update(docRef, { ...updates, status: status });
+      return status;
+    });
+  }
+
+  /**
+   * mark the job as cancelled. a batch already running notices
+   * this between items and stops, anything else never starts
+   *
+   * @returns false if the job had already finished
+   */
+  export async function cancel(
+    generationJobId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<boolean> {
+    const docRef = db.doc(
+      "/projects/" +
+        projectId +
+        "/collections/" +
+        collectionId +
+        "/generationJobs/" +
+        generationJobId
+    );
+
+    return db.runTransaction(async (transaction) => {
+      const generationJobDoc = await transaction.get(docRef);
+      const generationJob = generationJobDoc.data() as GenerationJob;
+
+      if (generationJob.status == GenerationJobStatus.Complete) {
+        return false;
+      }
+
+      transaction.update(docRef, { status: GenerationJobStatus.Cancelled });
+      return true;
+    });
+  }
 }
 
 export namespace ImageComposites {
@@ -187,54 +709,172 @@ export namespace ImageComposites {
     return composites;
   }
 
+  /**
+   * create the composite along with an index document keyed by its
+   * traitsHash in a single transaction, so that concurrent batches
+   * can never both create a composite with the same traits
+   *
+   * @returns the created composite, or null if its traitsHash is already used
+   */
   export async function create(
     imageComposite: ImageComposite,
     projectId: string,
     collectionId: string,
     compositeGroupId: string
-  ): Promise<ImageComposite> {
+  ): Promise<ImageComposite | null> {
     imageComposite.traitsHash = traitsHash(imageComposite.traits);
 
-    const docQuery = db.collection(
+    const compositeGroupPath =
       "/projects/" +
-        projectId +
-        "/collections/" +
-        collectionId +
-        "/compositeGroups/" +
-        compositeGroupId +
-        "/composites"
+      projectId +
+      "/collections/" +
+      collectionId +
+      "/compositeGroups/" +
+      compositeGroupId;
+
+    const compositeDoc = db
+      .collection(compositeGroupPath + "/composites")
+      .doc();
+
+    // document ids can't be empty, which the hash is when
+    // every trait is excluded from duplicate detection
+    const hashDoc = db.doc(
+      compositeGroupPath + "/traitsHashes/" + (imageComposite.traitsHash || "-")
     );
 
-    await docQuery.add(imageComposite);
+    const isCreated = await db.runTransaction(async (transaction) => {
+      const existingHashDoc = await transaction.get(hashDoc);
+
+      if (existingHashDoc.exists) {
+        // the composite using this hash may have since been deleted,
+        // in which case its combination is free to be used again
+        const existingCompositeDoc = await transaction.get(
+          db.doc(
+            compositeGroupPath +
+              "/composites/" +
+              existingHashDoc.data()?.compositeId
+          )
+        );
+        if (existingCompositeDoc.exists) {
+          return false;
+        }
+      }
+
+      transaction.set(hashDoc, { compositeId: compositeDoc.id });
+      transaction.create(compositeDoc, imageComposite);
+      return true;
+    });
+
+    if (!isCreated) {
+      return null;
+    }
 
     return {
       ...imageComposite,
+      id: compositeDoc.id,
     } as ImageComposite;
   }
 
-  export async function isUniqueTraitsHash(
-    hash: string,
+  /**
+   * delete a composite along with its traits hash, so that
+   * its combination is free to be used again
+   */
+  export async function remove(
+    imageComposite: ImageComposite,
     projectId: string,
     collectionId: string,
     compositeGroupId: string
-  ): Promise<boolean> {
-    const compositesQuery = db
-      .collection(
-        "/projects/" +
-          projectId +
-          "/collections/" +
-          collectionId +
-          "/compositeGroups/" +
-          compositeGroupId +
-          "/composites"
+  ): Promise<void> {
+    const compositeGroupPath =
+      "/projects/" +
+      projectId +
+      "/collections/" +
+      collectionId +
+      "/compositeGroups/" +
+      compositeGroupId;
+
+    const batch = db.batch();
+    batch.delete(
+      db.doc(compositeGroupPath + "/composites/" + imageComposite.id)
+    );
+    batch.delete(
+      db.doc(
+        compositeGroupPath +
+          "/traitsHashes/" +
+          (imageComposite.traitsHash || "-")
       )
-      .where("traitsHash", "==", hash)
-      .limit(1);
+    );
+    await batch.commit();
+  }
+
+  /**
+   * claim the item index after the last one in the group, for an item
+   * added outside of a generation run. the index is reserved the same
+   * way a traits hash is, so two items added at once can't share it
+   * (and with it, the file their artwork is uploaded to). indexes a job
+   * has planned, or could plan for the collection's supply, are never
+   * taken, even when they haven't been generated yet
+   *
+   * @returns the reserved item index
+   */
+  export async function reserveItemIndex(
+    projectId: string,
+    collectionId: string,
+    compositeGroupId: string
+  ): Promise<number> {
+    const compositeGroupPath =
+      "/projects/" +
+      projectId +
+      "/collections/" +
+      collectionId +
+      "/compositeGroups/" +
+      compositeGroupId;
+
+    return db.runTransaction(async (transaction) => {
+      const collectionDoc = await transaction.get(
+        db.doc("/projects/" + projectId + "/collections/" + collectionId)
+      );
+      const generationJobsQuery = await transaction.get(
+        db
+          .collection(
+            "/projects/" +
+              projectId +
+              "/collections/" +
+              collectionId +
+              "/generationJobs"
+          )
+          .where("compositeGroupId", "==", compositeGroupId)
+      );
+      const lastCompositeQuery = await transaction.get(
+        db
+          .collection(compositeGroupPath + "/composites")
+          .orderBy("itemIndex", "desc")
+          .limit(1)
+      );
 
-    const querySnapshot = await compositesQuery.get();
-    const isUnique = querySnapshot.docs.length == 0;
+      let itemIndex = Math.max(
+        (collectionDoc.data() as Collection).supply,
+        ...generationJobsQuery.docs.map(
+          (generationJobDoc) =>
+            (generationJobDoc.data() as GenerationJob).supply
+        ),
+        lastCompositeQuery.empty
+          ? 0
+          : (lastCompositeQuery.docs[0].data() as ImageComposite).itemIndex + 1
+      );
+
+      // skip over indexes reserved for items that haven't been saved yet
+      let itemIndexDoc = db.doc(
+        compositeGroupPath + "/itemIndexes/" + itemIndex
+      );
+      while ((await transaction.get(itemIndexDoc)).exists) {
+        itemIndex++;
+        itemIndexDoc = db.doc(compositeGroupPath + "/itemIndexes/" + itemIndex);
+      }
 
-    return isUnique;
+      transaction.create(itemIndexDoc, { reservedAt: Date.now() });
+      return itemIndex;
+    });
   }
 
   export const traitsHash = (traitValuePairs: TraitValuePair[]): string => {
@@ -258,17 +898,61 @@ export namespace ImageComposites {
   };
 }
 
-export namespace ImageLayers {
-  export async function all(
+export namespace ImageCompositeGroups {
+  export async function withId(
+    compositeGroupId: string,
     projectId: string,
-    collectionId: string,
-    traitSetId: string | null
-  ): Promise<ImageLayer[]> {
-    const path =
-      "/projects/" +
-      projectId +
-      "/collections/" +
-      collectionId +
+    collectionId: string
+  ): Promise<ImageCompositeGroup> {
+    const compositeGroupDoc = await db
+      .doc(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/compositeGroups/" +
+          compositeGroupId
+      )
+      .get();
+
+    const compositeGroup = compositeGroupDoc.data() as ImageCompositeGroup;
+    compositeGroup.id = compositeGroupDoc.id;
+    return compositeGroup;
+  }
+
+  export async function update(
+    updates: { [x: string]: any },
+    compositeGroupId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<void> {
+    await db
+      .doc(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/compositeGroups/" +
+          compositeGroupId
+      )
+      .update(updates);
+  }
+}
+
+export namespace ImageLayers {
+  const FILL_LAYER_ID_PREFIX = "fill-";
+  const TINTED_LAYER_ID_PREFIX = "tint-";
+
+  export async function all(
+    projectId: string,
+    collectionId: string,
+    traitSetId: string | null
+  ): Promise<ImageLayer[]> {
+    const path =
+      "/projects/" +
+      projectId +
+      "/collections/" +
+      collectionId +
       "/imagelayers";
 
     let imageLayerQuery: FirebaseFirestore.QuerySnapshot<FirebaseFirestore.DocumentData>;
@@ -291,6 +975,353 @@ export namespace ImageLayers {
 
     return imageLayers;
   }
+
+  export async function withId(
+    imageLayerId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<ImageLayer | null> {
+    const imageLayerDoc = await db
+      .doc(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/imagelayers/" +
+          imageLayerId
+      )
+      .get();
+
+    if (!imageLayerDoc.exists) {
+      return null;
+    }
+
+    const imageLayer = imageLayerDoc.data() as ImageLayer;
+    imageLayer.id = imageLayerDoc.id;
+    return imageLayer;
+  }
+
+  /**
+   * the layers recoloured from a base layer's colour variants
+   */
+  export async function variants(
+    baseLayerId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<ImageLayer[]> {
+    const imageLayerQuery = await db
+      .collection(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/imagelayers"
+      )
+      .where("baseLayerId", "==", baseLayerId)
+      .get();
+
+    return imageLayerQuery.docs.map((imageLayerDoc) => {
+      const imageLayer = imageLayerDoc.data() as ImageLayer;
+      imageLayer.id = imageLayerDoc.id;
+      return imageLayer;
+    });
+  }
+
+  export async function create(
+    imageLayer: Omit<ImageLayer, "id">,
+    projectId: string,
+    collectionId: string
+  ): Promise<ImageLayer> {
+    const docRef = await db
+      .collection(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/imagelayers"
+      )
+      .add(imageLayer);
+
+    return {
+      ...imageLayer,
+      id: docRef.id,
+    } as ImageLayer;
+  }
+
+  export async function update(
+    updates: { [x: string]: any },
+    imageLayerId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<void> {
+    await db
+      .doc(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/imagelayers/" +
+          imageLayerId
+      )
+      .update(updates);
+  }
+
+  export async function remove(
+    imageLayerId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<void> {
+    await db
+      .doc(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/imagelayers/" +
+          imageLayerId
+      )
+      .delete();
+  }
+
+  /**
+   * an image layer standing in for a trait value's fill, which the
+   * generator draws into a file of its own rather than downloading
+   */
+  export function fillLayer(traitValue: TraitValue): ImageLayer {
+    return {
+      id: FILL_LAYER_ID_PREFIX + traitValue.id,
+      bucketFilename: FILL_LAYER_ID_PREFIX + traitValue.id + ".svg",
+      url: "",
+      name: traitValue.name,
+      bytes: 0,
+      traitSetId: null,
+      traitId: null,
+      traitValueId: traitValue.id,
+      companionLayerId: null,
+      companionLayerZIndex: null,
+    } as ImageLayer;
+  }
+
+  export function isFill(imageLayer: ImageLayer): boolean {
+    return imageLayer.id.startsWith(FILL_LAYER_ID_PREFIX);
+  }
+
+  /**
+   * a copy of a tintable layer recoloured with a trait value's tint, which
+   * the generator draws into a file of its own. tinting works on pixels,
+   * so tinted vectors are rasterized
+   */
+  export function tintedLayer(
+    imageLayer: ImageLayer,
+    traitValue: TraitValue
+  ): ImageLayer {
+    const id = TINTED_LAYER_ID_PREFIX + imageLayer.id + "-" + traitValue.id;
+    return {
+      ...imageLayer,
+      id: id,
+      bucketFilename: id + ".png",
+    } as ImageLayer;
+  }
+
+  /**
+   * the sharp blend to composite a layer with,
+   * layers saved before blend modes existed are normal
+   */
+  export function sharpBlend(imageLayer: ImageLayer): string {
+    switch (imageLayer.blendMode ?? BlendMode.Normal) {
+      case BlendMode.Multiply:
+        return "multiply";
+      case BlendMode.Screen:
+        return "screen";
+      case BlendMode.Overlay:
+        return "overlay";
+      case BlendMode.Darken:
+        return "darken";
+      case BlendMode.Lighten:
+        return "lighten";
+      case BlendMode.ColorDodge:
+        return "colour-dodge";
+      case BlendMode.ColorBurn:
+        return "colour-burn";
+      case BlendMode.HardLight:
+        return "hard-light";
+      case BlendMode.SoftLight:
+        return "soft-light";
+      case BlendMode.Difference:
+        return "difference";
+      case BlendMode.Exclusion:
+        return "exclusion";
+      default:
+        return "over";
+    }
+  }
+
+  /**
+   * the css (and svg) equivalent of the sharp blend
+   */
+  export function cssBlend(imageLayer: ImageLayer): string {
+    const blend = sharpBlend(imageLayer);
+    return blend == "over" ? "normal" : blend.replace("colour-", "color-");
+  }
+
+  export function isVector(imageLayer: ImageLayer): boolean {
+    return imageLayer.bucketFilename?.toLowerCase().endsWith(".svg") ?? false;
+  }
+
+  export function opacity(imageLayer: ImageLayer): number {
+    return Math.min(1, Math.max(0, imageLayer.opacity ?? 1));
+  }
+
+  export function scale(imageLayer: ImageLayer): number {
+    const scale = imageLayer.scale ?? 1;
+    return scale > 0 ? scale : 1;
+  }
+
+  /**
+   * where the top left corner of a (scaled) layer lands on the canvas.
+   * the anchor picks the point of both the canvas and the layer that are
+   * lined up, and the offset moves the layer from there in pixels of the
+   * bottom layer (scaled along with the canvas when rendering larger)
+   */
+  export function placement(
+    imageLayer: ImageLayer,
+    layerWidth: number,
+    layerHeight: number,
+    canvasWidth: number,
+    canvasHeight: number,
+    renderScale: number = 1
+  ): { left: number; top: number } {
+    const anchor = imageLayer.anchor ?? LayerAnchor.TopLeft;
+    const column = anchor % 3;
+    const row = Math.floor(anchor / 3);
+
+    return {
+      left:
+        Math.round(((canvasWidth - layerWidth) * column) / 2) +
+        Math.round((imageLayer.offsetX ?? 0) * renderScale),
+      top:
+        Math.round(((canvasHeight - layerHeight) * row) / 2) +
+        Math.round((imageLayer.offsetY ?? 0) * renderScale),
+    };
+  }
+}
+
+export namespace OneOfOnes {
+  export async function all(
+    projectId: string,
+    collectionId: string
+  ): Promise<OneOfOne[]> {
+    const oneOfOnesQuery = await db
+      .collection(
+        "/projects/" + projectId + "/collections/" + collectionId + "/oneofones"
+      )
+      .orderBy("name", "asc")
+      .get();
+
+    return oneOfOnesQuery.docs.map((oneOfOneDoc) => {
+      const oneOfOne = oneOfOneDoc.data() as OneOfOne;
+      oneOfOne.id = oneOfOneDoc.id;
+      return oneOfOne;
+    });
+  }
+
+  /**
+   * the traits of a one of one as they're stored on its composite.
+   * custom values get an id of their own, so that their traits hash
+   * can't match anything generated
+   */
+  export function traitValuePairs(
+    oneOfOne: OneOfOne,
+    traits: Trait[],
+    traitValues: { [traitValueId: string]: TraitValue }
+  ): TraitValuePair[] {
+    return traits.map((trait) => {
+      const attribute = oneOfOne.attributes.find(
+        (attribute) => attribute.traitId == trait.id
+      );
+
+      let traitValue: TraitValue | null = null;
+      if (attribute?.traitValueId) {
+        traitValue = traitValues[attribute.traitValueId] ?? null;
+      } else if (attribute?.customValueName) {
+        traitValue = {
+          id: "oneofone-" + oneOfOne.id + "-" + trait.id,
+          name: attribute.customValueName,
+          rarity: 0,
+        };
+      }
+
+      return { trait: trait, traitValue: traitValue, imageLayer: null };
+    });
+  }
+}
+
+export namespace OutputFormats {
+  export function fromExtension(extension: string): OutputFormat {
+    switch (extension.toLowerCase()) {
+      case ".webp":
+        return OutputFormat.WebP;
+      case ".jpg":
+      case ".jpeg":
+        return OutputFormat.Jpeg;
+      case ".svg":
+        return OutputFormat.Svg;
+      default:
+        return OutputFormat.Png;
+    }
+  }
+
+  export function extension(format: OutputFormat | undefined): string {
+    switch (format) {
+      case OutputFormat.WebP:
+        return ".webp";
+      case OutputFormat.Jpeg:
+        return ".jpg";
+      case OutputFormat.Svg:
+        return ".svg";
+      default:
+        return ".png";
+    }
+  }
+
+  export function contentType(format: OutputFormat | undefined): string {
+    switch (format) {
+      case OutputFormat.WebP:
+        return "image/webp";
+      case OutputFormat.Jpeg:
+        return "image/jpeg";
+      case OutputFormat.Svg:
+        return "image/svg+xml";
+      default:
+        return "image/png";
+    }
+  }
+
+  /**
+   * the edit form only saves whole numbers, with quality from 1 to 100,
+   * but settings saved before it checked them can still be anything
+   *
+   * @returns why sharp can't encode with the settings, or null if it can
+   */
+  export function settingsProblem(
+    outputSettings: OutputSettings
+  ): string | null {
+    const quality = outputSettings.quality;
+    if (
+      quality != null &&
+      (!Number.isInteger(quality) || quality < 1 || quality > 100)
+    ) {
+      return "quality " + quality + " isn't a whole number from 1 to 100";
+    }
+
+    for (const size of [outputSettings.width, outputSettings.height]) {
+      if (size != null && (!Number.isInteger(size) || size < 1)) {
+        return "size " + size + " isn't a whole number above 0";
+      }
+    }
+
+    return null;
+  }
 }
 
 export namespace Projects {
@@ -302,6 +1333,107 @@ export namespace Projects {
   }
 }
 
+export namespace Requirements {
+  export async function all(
+    projectId: string,
+    collectionId: string,
+    traitSetId: string | null
+  ): Promise<Requirement[]> {
+    const path =
+      "/projects/" +
+      projectId +
+      "/collections/" +
+      collectionId +
+      "/requirements";
+
+    let requirementsQuery;
+    if (traitSetId) {
+      requirementsQuery = await db
+        .collection(path)
+        .where("traitSetId", "==", traitSetId)
+        .orderBy("traitId", "asc")
+        .get();
+    } else {
+      requirementsQuery = await db
+        .collection(path)
+        .orderBy("traitId", "asc")
+        .get();
+    }
+
+    const requirements = requirementsQuery.docs.map((requirementDoc) => {
+      const requirement = requirementDoc.data() as Requirement;
+      requirement.id = requirementDoc.id;
+      return requirement;
+    });
+
+    return requirements;
+  }
+}
+
+export namespace TextLayers {
+  /**
+   * text layers for a trait set, including the ones used by every trait set
+   */
+  export async function all(
+    projectId: string,
+    collectionId: string,
+    traitSetId: string | null
+  ): Promise<TextLayer[]> {
+    const textLayersQuery = await db
+      .collection(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/textlayers"
+      )
+      .orderBy("zIndex", "asc")
+      .get();
+
+    const textLayers = textLayersQuery.docs.map((textLayerDoc) => {
+      const textLayer = textLayerDoc.data() as TextLayer;
+      textLayer.id = textLayerDoc.id;
+      return textLayer;
+    });
+
+    return textLayers.filter(
+      (textLayer) =>
+        textLayer.traitSetId == null || textLayer.traitSetId == traitSetId
+    );
+  }
+
+  /**
+   * fill in the placeholders for an item. {number} is the item's number
+   * in its group starting from 1, {number:4} pads it to 4 digits, and
+   * {Trait Name} is the name of the item's value for that trait
+   */
+  export function text(
+    textLayer: TextLayer,
+    itemIndex: number,
+    traitValuePairs: TraitValuePair[]
+  ): string {
+    return textLayer.text.replace(
+      /\{([^}]+)\}/g,
+      (placeholder: string, name: string) => {
+        const numberMatch = name.trim().match(/^number(?::(\d+))?$/i);
+        if (numberMatch) {
+          const digits = parseInt(numberMatch[1] ?? "0");
+          return (itemIndex + 1).toString().padStart(digits, "0");
+        }
+
+        const traitValuePair = traitValuePairs.find(
+          (pair) => pair.trait.name.toLowerCase() == name.trim().toLowerCase()
+        );
+        if (traitValuePair) {
+          return traitValuePair.traitValue?.name ?? "";
+        }
+
+        return placeholder;
+      }
+    );
+  }
+}
+
 export namespace Traits {
   export async function all(
     projectId: string,
@@ -331,23 +1463,91 @@ export namespace Traits {
 
     return traits;
   }
+
+  /**
+   * an explicit chance of none replaces the gap left by rarities that
+   * don't add up to 1, and the values are scaled to fill the rest
+   *
+   * @returns the chance of none, and what to multiply each value's rarity by
+   */
+  export function noneRarity(
+    trait: Trait,
+    values: TraitValue[]
+  ): { noneRarity: number; valueScale: number } {
+    const totalRarity = values.reduce((sum, value) => sum + value.rarity, 0);
+
+    if (trait.noneChance === undefined || trait.noneChance === null) {
+      return { noneRarity: Math.max(0, 1 - totalRarity), valueScale: 1 };
+    }
+
+    const noneChance = Math.min(1, Math.max(0, trait.noneChance));
+    return {
+      noneRarity: noneChance,
+      valueScale: totalRarity > 0 ? (1 - noneChance) / totalRarity : 0,
+    };
+  }
+}
+
+export namespace TraitSets {
+  export async function all(
+    projectId: string,
+    collectionId: string
+  ): Promise<TraitSet[]> {
+    const traitSetsQuery = await db
+      .collection(
+        "/projects/" + projectId + "/collections/" + collectionId + "/traitSets"
+      )
+      .orderBy("name", "asc")
+      .get();
+
+    const traitSets = traitSetsQuery.docs.map((traitSetDoc) => {
+      const traitSet = traitSetDoc.data() as TraitSet;
+      traitSet.id = traitSetDoc.id;
+      return traitSet;
+    });
+
+    return traitSets;
+  }
+
+  export async function withId(
+    traitSetId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<TraitSet> {
+    const traitSetDoc = await db
+      .doc(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/traitSets/" +
+          traitSetId
+      )
+      .get();
+
+    const traitSet = traitSetDoc.data() as TraitSet;
+    traitSet.id = traitSetDoc.id;
+    return traitSet;
+  }
 }
 
 export namespace TraitValues {
   /**
    * fetch all trait values for a given trait
    *
-   * @param traitId the id of the trait
-   * @param isAlwaysUnique whether the trait should be uniqued for every NFT
-   * @param validTraitValueIds trait value ids that are valid for the current traitSet (if they have images)
+   * @param trait the trait to fetch values for
+   * @param validTraitValueIds trait value ids that are valid for the current traitSet (if they have images), values with a fill or tint always are
+   * @param existingComposites composites already in the group, whose values can't be reused by always unique traits
+   * @param traitSetId the trait set being generated, whose rarity overrides replace each value's rarity
    * @returns an array of TraitValue for the given trait
    */
   export async function all(
     projectId: string,
     collectionId: string,
-    compositeGroupId: string,
     trait: Trait,
-    validTraitValueIds: string[]
+    validTraitValueIds: string[],
+    existingComposites: ImageComposite[],
+    traitSetId: string | null = null
   ): Promise<TraitValue[]> {
     const traitValuesQuery = await db
       .collection(
@@ -364,45 +1564,24 @@ export namespace TraitValues {
     const traitValues = traitValuesQuery.docs.map((traitValueDoc) => {
       const traitValue = traitValueDoc.data() as TraitValue;
       traitValue.id = traitValueDoc.id;
+
+      const traitSetRarity = traitSetId
+        ? traitValue.traitSetRarities?.[traitSetId]
+        : undefined;
+      if (traitSetRarity !== undefined) {
+        traitValue.rarity = traitSetRarity;
+      }
+
       return traitValue;
     });
 
     if (trait.isAlwaysUnique) {
-      console.log(
-        "loading metadata only: /projects/" +
-          projectId +
-          "/collections/" +
-          collectionId +
-          "/compositeGroups/" +
-          compositeGroupId +
-          "/composites"
-      );
-
-      const existingCompositesQuery = await db
-        .collection(
-          "/projects/" +
-            projectId +
-            "/collections/" +
-            collectionId +
-            "/compositeGroups/" +
-            compositeGroupId +
-            "/composites"
-        )
-        .get();
-
-      const existingComposites: ImageComposite[] =
-        existingCompositesQuery.docs.map((existingCompositeDoc) => {
-          const existingComposite =
-            existingCompositeDoc.data() as ImageComposite;
-          return existingComposite;
-        });
-
       const existingValueIds: string[] = existingComposites.reduce(function (
         result,
         composite
       ) {
         const traitPair = composite.traits.find((traitPair) => {
-          traitPair.trait.id == trait.id;
+          return traitPair.trait.id == trait.id;
         });
         const valueId = traitPair?.traitValue?.id;
         if (valueId) {
@@ -418,9 +1597,107 @@ export namespace TraitValues {
     }
 
     return traitValues.filter((traitValue: TraitValue) => {
-      return trait.isMetadataOnly || validTraitValueIds.includes(traitValue.id);
+      return (
+        trait.isMetadataOnly ||
+        validTraitValueIds.includes(traitValue.id) ||
+        traitValue.fill != null ||
+        traitValue.tintColor != null
+      );
     });
   }
+
+  export async function withId(
+    traitValueId: string,
+    traitId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<TraitValue | null> {
+    const traitValueDoc = await db
+      .doc(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/traits/" +
+          traitId +
+          "/traitValues/" +
+          traitValueId
+      )
+      .get();
+
+    if (!traitValueDoc.exists) {
+      return null;
+    }
+
+    const traitValue = traitValueDoc.data() as TraitValue;
+    traitValue.id = traitValueDoc.id;
+    return traitValue;
+  }
+
+  export async function create(
+    traitValue: Omit<TraitValue, "id">,
+    traitId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<TraitValue> {
+    const docRef = await db
+      .collection(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/traits/" +
+          traitId +
+          "/traitValues"
+      )
+      .add(traitValue);
+
+    return {
+      ...traitValue,
+      id: docRef.id,
+    } as TraitValue;
+  }
+
+  export async function update(
+    updates: { [x: string]: any },
+    traitValueId: string,
+    traitId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<void> {
+    await db
+      .doc(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/traits/" +
+          traitId +
+          "/traitValues/" +
+          traitValueId
+      )
+      .update(updates);
+  }
+
+  export async function remove(
+    traitValueId: string,
+    traitId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<void> {
+    await db
+      .doc(
+        "/projects/" +
+          projectId +
+          "/collections/" +
+          collectionId +
+          "/traits/" +
+          traitId +
+          "/traitValues/" +
+          traitValueId
+      )
+      .delete();
+  }
 }
 
 export namespace Users {
@@ -1,9 +1,11 @@
 import { logger } from "firebase-functions";
+import { v4 as uuidv4 } from "uuid";
 import { storage } from "../models/firebase";
 import {
   Collection,
   Collections,
   Conflicts,
+  ConflictResolutionType,
   Trait,
   Traits,
   TraitValue,
@@ -14,9 +16,29 @@ import {
   TraitValuePair,
   ImageComposite,
   ImageComposites,
+  ImageCompositeGroup,
+  ImageCompositeGroups,
+  ImageCompositeRendition,
   Conflict,
-  ConflictResolutionType,
+  Fill,
+  Fills,
+  GenerationJobs,
+  GenerationJobStatus,
+  OutputFormat,
+  OutputFormats,
+  OutputSettings,
+  RarityMode,
+  Requirement,
+  Requirements,
+  TextLayer,
+  TextLayers,
+  TraitSets,
 } from "../models/models";
+import { SeededRandom } from "./SeededRandom";
+import { RarityQuotas } from "./RarityQuotas";
+import { WorkerPool } from "./WorkerPool";
+import { animationTimeline, LayerAnimation } from "./LayerAnimation";
+import { TextRenderer } from "./TextRenderer";
 
 const path = require("path");
 const os = require("os");
@@ -25,6 +47,63 @@ const tempDir = os.tmpdir();
 
 const TRAITVALUES_RARITY_MAX_PRECISION: number = 4;
 
+// rerolls can keep running into new conflicts, so give up on an
+// item after checking every conflict this many times
+const MAX_CONFLICT_RESOLUTION_PASSES: number = 10;
+
+// an item that can't be picked or composited after this many attempts
+// is left out of the batch, which then reports it as missing
+const MAX_ITEM_ATTEMPTS: number = 5;
+
+// how many items are composited, uploaded and saved at once
+const DEFAULT_COMPOSITING_CONCURRENCY: number = 4;
+
+// how often to check whether the job running this batch was cancelled
+const CANCELLATION_CHECK_INTERVAL_MS: number = 5000;
+
+// the density sharp renders svgs at by default, so their size in pixels
+const VECTOR_DENSITY: number = 72;
+
+// every frame of an animated composite is held in memory while it's
+// encoded, so longer animations are cut off after this many frames
+const MAX_ANIMATION_FRAMES: number = 60;
+
+export interface GenerationInputs {
+  collection: Collection;
+  traits: Trait[];
+  traitValues: { [traitId: string]: TraitValue[] };
+  traitValueIdToImageLayers: { [traitValueId: string]: ImageLayer };
+  imageLayers: ImageLayer[];
+  conflicts: Conflict[];
+  existingComposites: ImageComposite[];
+  seed: string;
+  random: SeededRandom;
+}
+
+/**
+ * the values a trait can still be picked from once
+ * requirements on the traits picked before it are applied
+ */
+export interface AllowedTraitValues {
+  traitValueIds: Set<string>;
+  allowsNone: boolean;
+}
+
+export interface GenerationStats {
+  duplicateRetries: number;
+  duplicateFailures: number;
+  conflictFailures: number;
+  conflictResolutions: { [conflictId: string]: number };
+}
+
+/**
+ * a combination picked by hand, once saved, or why it couldn't be
+ */
+export interface HandPickedComposite {
+  composite: ImageComposite | null;
+  rejection: string | null;
+}
+
 export class ArtworkGenerator {
   projectId: string;
   collectionId: string;
@@ -34,6 +113,28 @@ export class ArtworkGenerator {
   endIndex: number;
   batchSize: number;
   isFirstBatchInTraitSet: boolean;
+  seed: string | null;
+  concurrency: number;
+  rarityQuotas: RarityQuotas | null = null;
+  usedTraitsHashes: Set<string> = new Set();
+  requirements: Requirement[] = [];
+  textLayers: TextLayer[] = [];
+  textRenderers: { [textLayerId: string]: TextRenderer } = {};
+  canvasSize: { width: number; height: number } | null = null;
+  generationJobId: string | null = null;
+  isCancelled: boolean = false;
+  existingItemCount: number = 0;
+  missingItemIndexes: number[] = [];
+  itemFailureMessages: { [itemIndex: number]: string } = {};
+  layerAnimations: { [imageLayerId: string]: Promise<LayerAnimation> } = {};
+  tintedLayers: { [tintedLayerId: string]: Promise<ImageLayer> } = {};
+  cancellationCheckedAt: number = 0;
+  stats: GenerationStats = {
+    duplicateRetries: 0,
+    duplicateFailures: 0,
+    conflictFailures: 0,
+    conflictResolutions: {},
+  };
 
   constructor(
     projectId: string,
@@ -43,7 +144,9 @@ export class ArtworkGenerator {
     startIndex: number,
     endIndex: number,
     batchSize: number,
-    isFirstBatchInTraitSet: boolean
+    isFirstBatchInTraitSet: boolean,
+    seed: string | null = null,
+    concurrency: number = DEFAULT_COMPOSITING_CONCURRENCY
   ) {
     this.projectId = projectId;
     this.collectionId = collectionId;
@@ -53,6 +156,8 @@ export class ArtworkGenerator {
     this.endIndex = endIndex;
     this.batchSize = batchSize;
     this.isFirstBatchInTraitSet = isFirstBatchInTraitSet;
+    this.seed = seed;
+    this.concurrency = concurrency;
   }
 
   async generate(): Promise<(ImageComposite | null)[]> {
@@ -63,87 +168,67 @@ export class ArtworkGenerator {
         this.collectionId
     );
 
-    // fetch the specified collection / trait
-    const result = await Promise.all([
-      Collections.withId(this.collectionId, this.projectId),
-      Traits.all(this.projectId, this.collectionId, this.traitSetId),
-      ImageLayers.all(this.projectId, this.collectionId, this.traitSetId),
-      Conflicts.all(this.projectId, this.collectionId, this.traitSetId),
-    ]);
-
-    const collection = result[0];
-    const traits = result[1];
-    const imageLayers = result[2];
-    const conflicts = result[3];
-
-    const traitValueIdToImageLayers: { [traitValueId: string]: ImageLayer } =
-      {};
-    imageLayers.forEach((imageLayer) => {
-      if (imageLayer.traitValueId) {
-        traitValueIdToImageLayers[imageLayer.traitValueId] = imageLayer;
-      }
-    });
-
-    const valuesWithImagesInTraitSet = Object.keys(traitValueIdToImageLayers);
+    const inputs = await this.loadInputs();
 
-    let traitValues: { [traitId: string]: TraitValue[] } = {};
+    const collection = inputs.collection;
+    const traits = inputs.traits;
+    const traitValueIdToImageLayers = inputs.traitValueIdToImageLayers;
+    const imageLayers = inputs.imageLayers;
+    const conflicts = inputs.conflicts;
+    const seed = inputs.seed;
+    const random = inputs.random;
 
-    // prefetch all trait values
-    for (let i = 0; i < traits.length; i++) {
-      const trait = traits[i];
-      traitValues[trait.id] = await TraitValues.all(
-        this.projectId,
-        this.collectionId,
-        this.compositeGroupId,
-        trait,
-        valuesWithImagesInTraitSet
-      );
-    }
+    let traitValues = inputs.traitValues;
 
     const projectDownloadPath = this.projectDownloadPath();
 
-    // setup only necessary at the beginning of a run,
-    // so only do this for batchNum = 0
-    if (this.startIndex == 0) {
-      // create download directory for all images
-      await fs.promises.mkdir(
-        projectDownloadPath,
-        { recursive: true },
-        (err: Error) => {
-          if (err) {
-            logger.error("error creating project directory");
-            logger.error(err);
-          }
+    // create download directory for all images. a resumed run can land
+    // on an instance that never ran its first batch, so always do this
+    await fs.promises.mkdir(
+      projectDownloadPath,
+      { recursive: true },
+      (err: Error) => {
+        if (err) {
+          logger.error("error creating project directory");
+          logger.error(err);
         }
-      );
+      }
+    );
 
-      const layerDownloadPath = this.layerDownloadPath();
+    const layerDownloadPath = this.layerDownloadPath();
 
-      // create download directory for all artwork
-      await fs.promises.mkdir(
-        layerDownloadPath,
-        { recursive: true },
-        (err: Error) => {
-          if (err) {
-            logger.error("error creating layers directory");
-            logger.error(err);
-          }
+    // create download directory for all artwork
+    await fs.promises.mkdir(
+      layerDownloadPath,
+      { recursive: true },
+      (err: Error) => {
+        if (err) {
+          logger.error("error creating layers directory");
+          logger.error(err);
         }
-      );
-    }
+      }
+    );
 
-    if (this.isFirstBatchInTraitSet) {
-      // predownload all uncomposited artwork
-      await Promise.all(
-        imageLayers.map((imageLayer) => this.downloadImageFile(imageLayer))
-      );
-    }
+    // predownload all uncomposited artwork, or for later batches
+    // whatever this instance doesn't have yet
+    const imageLayersToDownload = this.isFirstBatchInTraitSet
+      ? imageLayers
+      : imageLayers.filter(
+          (imageLayer) =>
+            !fs.existsSync(this.downloadPathForImageLayer(imageLayer))
+        );
+    await Promise.all(
+      imageLayersToDownload.map((imageLayer) =>
+        this.downloadImageFile(imageLayer)
+      )
+    );
 
     // generate artwork for each item in the collection supply
-    let composites: (ImageComposite | null)[] = [];
+    const composites: (ImageComposite | null)[] = [];
 
     logger.info("Generating: " + this.startIndex + " - " + this.endIndex);
     logger.info("Trait Set: " + this.traitSetId);
+    logger.info("Seed: " + seed);
     logger.info("Matching Traits: " + traits.length);
     logger.info("Matching Trait Values: " + Object.values(traitValues).length);
     logger.info("Matching Image Layers: " + imageLayers.length);
@@ -163,46 +248,99 @@ export class ArtworkGenerator {
       return [];
     }
 
-    let i = this.startIndex;
-    while (i < this.endIndex) {
-      const compositeData = await this.generateArtworkForItem(
-        i,
-        collection,
-        traits,
-        traitValues,
-        traitValueIdToImageLayers,
-        imageLayers,
-        conflicts,
-        projectDownloadPath
-      );
+    // fills and text are drawn at the collection's canvas size,
+    // or the size of the artwork when the collection doesn't have one
+    this.canvasSize = await this.loadCanvasSize(collection, imageLayers);
+    await this.drawFills(traitValues);
+    await this.loadTextRenderers();
+
+    // picking has to happen one item at a time since every pick depends
+    // on the ones before it, but compositing, uploading and saving
+    // the picked items can happen concurrently
+    const pool = new WorkerPool(this.concurrency);
+
+    let itemIndexes = this.itemIndexesToGenerate(inputs.existingComposites);
+    this.existingItemCount =
+      this.endIndex - this.startIndex - itemIndexes.length;
+
+    for (
+      let attempt = 0;
+      attempt < MAX_ITEM_ATTEMPTS && itemIndexes.length > 0;
+      attempt++
+    ) {
+      const failedItemIndexes: number[] = [];
+
+      for (const itemIndex of itemIndexes) {
+        if (await this.checkCancelled()) {
+          break;
+        }
+
+        const compositeData = await this.pickItem(
+          itemIndex,
+          traits,
+          traitValues,
+          traitValueIdToImageLayers,
+          conflicts,
+          random
+        );
+
+        if (!compositeData) {
+          this.missingItemIndexes.push(itemIndex);
+          continue;
+        }
+
+        traitValues = this.usePick(traits, traitValues, compositeData);
+
+        await pool.run(async () => {
+          const composite = await this.renderComposite(
+            itemIndex,
+            collection,
+            compositeData,
+            imageLayers,
+            projectDownloadPath
+          );
+
+          if (composite) {
+            composites[itemIndex - this.startIndex] = composite;
+            return;
+          }
 
-      if (!compositeData) {
-        console.log("no composite data");
-        continue;
+          // hand the picked values back and generate this item again
+          this.rarityQuotas?.release(compositeData);
+          traitValues = this.restoreAlwaysUniqueTraitValues(
+            traits,
+            traitValues,
+            compositeData
+          );
+          failedItemIndexes.push(itemIndex);
+        });
       }
 
-      const composite = await ImageComposites.create(
-        compositeData,
-        this.projectId,
-        this.collectionId,
-        this.compositeGroupId
-      );
+      // let items already being composited finish saving,
+      // so that a cancelled batch stops cleanly
+      await pool.drain();
 
-      composites.push(composite);
+      itemIndexes = this.isCancelled
+        ? []
+        : failedItemIndexes.sort((a, b) => a - b);
+    }
 
-      // remove any possible values for always unique traits
-      // so that they can only be used once
-      traitValues = this.removeUsedAlwaysUniqueTraitValues(
-        traits,
-        traitValues,
-        composite
-      );
+    if (itemIndexes.length > 0) {
+      logger.warn("unable to composite items " + itemIndexes.join(", "));
+      this.missingItemIndexes.push(...itemIndexes);
+    }
 
-      i++;
+    if (this.isCancelled) {
+      logger.info(
+        "Generation cancelled after: " +
+          composites.filter((composite) => composite).length +
+          " items"
+      );
     }
 
-    // only do cleanup if we just finished the last batch of the run
-    if (this.endIndex == collection.supply) {
+    // only do cleanup if we just finished the last batch of the run,
+    // or if the run was cancelled and there won't be any more batches
+    if (this.endIndex == collection.supply || this.isCancelled) {
       // delete all downloaded images and composites
       await fs.promises.rmdir(
         projectDownloadPath,
@@ -219,285 +357,1046 @@ export class ArtworkGenerator {
     return composites;
   }
 
-  async generateArtworkForItem(
-    itemIndex: number,
-    collection: Collection,
-    traits: Trait[],
-    traitValues: { [traitId: string]: TraitValue[] },
-    traitValueIdToImageLayers: { [traitValueId: string]: ImageLayer },
-    imageLayers: ImageLayer[],
-    conflicts: Conflict[],
-    projectDownloadPath: string
-  ): Promise<ImageComposite | null> {
-    let traitValuePairs: TraitValuePair[] = [];
-
-    let hasUnusedTraitValuePair = false;
+  /**
+   * composite a combination picked by hand the same way generated items
+   * are, and add it after every item the group has or is planned to have.
+   * the picked values are looked up again instead of trusting what was
+   * sent, and there's nothing to resolve a conflict with, so a combination
+   * matching one is turned down, as is one breaking a requirement or
+   * already in the group
+   *
+   * @returns the saved composite, or why the combination was turned down
+   */
+  async saveHandPicked(
+    pickedTraitValuePairs: TraitValuePair[]
+  ): Promise<HandPickedComposite> {
+    // without a trait set, every set's artwork would be mixed together
+    if (
+      !this.traitSetId &&
+      (await TraitSets.all(this.projectId, this.collectionId)).length > 0
+    ) {
+      return { composite: null, rejection: "Pick a trait set for the item" };
+    }
 
-    const numRetries = 20;
-    let retriesRemaining = numRetries;
-    let failedToFindUnusedTraitPair = false;
+    const inputs = await this.loadInputs();
 
-    while (!hasUnusedTraitValuePair) {
-      // generate a pair mapping trait to a random trait value
-      traitValuePairs = await this.randomTraitValues(traits, traitValues);
+    const traitValuePairs: TraitValuePair[] = [];
+    for (const trait of inputs.traits) {
+      const pickedValueId =
+        pickedTraitValuePairs.find((pair) => pair.trait.id == trait.id)
+          ?.traitValue?.id ?? null;
 
-      const hash = ImageComposites.traitsHash(traitValuePairs);
-      hasUnusedTraitValuePair = await ImageComposites.isUniqueTraitsHash(
-        hash,
-        this.projectId,
-        this.collectionId,
-        this.compositeGroupId
-      );
+      // values missing here have no artwork in the trait set,
+      // or are always unique and already used
+      const traitValue = pickedValueId
+        ? (inputs.traitValues[trait.id] ?? []).find(
+            (value) => value.id == pickedValueId
+          ) ?? null
+        : null;
+      if (pickedValueId && !traitValue) {
+        return {
+          composite: null,
+          rejection: "The value picked for " + trait.name + " can't be used",
+        };
+      }
 
-      retriesRemaining--;
+      traitValuePairs.push({
+        trait: trait,
+        traitValue: traitValue,
+        imageLayer: null,
+      });
+    }
 
-      if (retriesRemaining == 0) {
-        failedToFindUnusedTraitPair = true;
-        console.log(
-          "Unable to find unused trait pair after " + numRetries + " retries."
-        );
-        console.log("generated trait value pairs: " + traitValuePairs);
-        break;
+    for (const pair of traitValuePairs) {
+      const allowed = this.allowedTraitValues(
+        pair.trait,
+        inputs.traitValues[pair.trait.id] ?? [],
+        traitValuePairs.filter((otherPair) => otherPair !== pair)
+      );
+      const isAllowed =
+        !allowed ||
+        (pair.traitValue
+          ? allowed.traitValueIds.has(pair.traitValue.id)
+          : allowed.allowsNone);
+      if (!isAllowed) {
+        return {
+          composite: null,
+          rejection:
+            "The value picked for " +
+            pair.trait.name +
+            " breaks a requirement of another trait",
+        };
       }
     }
 
-    if (failedToFindUnusedTraitPair) {
-      return null;
+    for (const conflict of inputs.conflicts) {
+      const description = this.matchConflict(conflict, traitValuePairs);
+      if (description !== null) {
+        return {
+          composite: null,
+          rejection: "The combination conflicts on " + description,
+        };
+      }
     }
 
-    // deal with any pairs that conflict / we dont want to happen
-    traitValuePairs = await this.resolveConflicts(
-      traitValuePairs,
-      conflicts,
-      traitValues
+    const sortedTraitValueImagePairs = this.sortTraitValuePairs(
+      this.attachImageLayers(traitValuePairs, inputs.traitValueIdToImageLayers)
     );
+    const compositeData = {
+      traits: sortedTraitValueImagePairs,
+      traitsHash: ImageComposites.traitsHash(sortedTraitValueImagePairs),
+      traitSetId: this.traitSetId,
+    } as ImageComposite;
+
+    if (!(await this.isUniqueTraitsHash(compositeData.traitsHash))) {
+      return {
+        composite: null,
+        rejection: "An item with the same traits is already in the group",
+      };
+    }
 
-    // for all trait value pairs, fetch the artwork representing random value
-    const traitValueImagePairs = traitValuePairs.map((traitValuePair) => {
-      const traitValueId = traitValuePair.traitValue?.id;
-      const imageLayer = traitValueId
-        ? // needs to be null not undefined for firestore
-          traitValueIdToImageLayers[traitValueId] ?? null
-        : null;
-      traitValuePair.imageLayer = imageLayer;
-      return traitValuePair;
-    });
-
-    // composite all of the images representing trait values together into one image
-    const sortedTraitValueImagePairs =
-      this.sortTraitValuePairs(traitValueImagePairs);
-
-    // for any image layers with companions, inject them at the right layer level
-    const sortedImageLayers = this.sortedImageLayersInjectingCompanions(
-      sortedTraitValueImagePairs,
-      imageLayers
+    // only the picked artwork (and its companions) is needed, and it's
+    // always downloaded again in case a layer's file has been replaced
+    const pickedImageLayers = sortedTraitValueImagePairs
+      .map((pair) => pair.imageLayer)
+      .filter(
+        (imageLayer): imageLayer is ImageLayer =>
+          imageLayer != null && !ImageLayers.isFill(imageLayer)
+      );
+    const companionImageLayers = inputs.imageLayers.filter((imageLayer) =>
+      pickedImageLayers.some(
+        (pickedImageLayer) => pickedImageLayer.companionLayerId == imageLayer.id
+      )
     );
+    const imageLayersToDownload = [
+      ...pickedImageLayers,
+      ...companionImageLayers,
+    ];
+
+    if (imageLayersToDownload.length == 0) {
+      return {
+        composite: null,
+        rejection: "None of the picked values have any artwork",
+      };
+    }
 
-    const inputFilePaths = sortedImageLayers.map((imageLayer) => {
-      return imageLayer ? this.downloadPathForImageLayer(imageLayer) : null;
-    });
-
-    const outputFilePath: string = path.join(
-      projectDownloadPath,
-      itemIndex + ".png"
+    const projectDownloadPath = this.projectDownloadPath();
+    await fs.promises.mkdir(this.layerDownloadPath(), { recursive: true });
+    await Promise.all(
+      imageLayersToDownload.map((imageLayer) =>
+        this.downloadImageFile(imageLayer)
+      )
     );
 
-    const succeeded = await this.compositeImages(
-      inputFilePaths,
-      outputFilePath
+    this.canvasSize = await this.loadCanvasSize(
+      inputs.collection,
+      imageLayersToDownload
     );
+    await this.drawFills(inputs.traitValues);
+    await this.loadTextRenderers();
 
-    if (succeeded) {
-      // upload the composite back to the bucket
-      const bucket = storage.bucket();
-      const uploadFilePath =
-        this.projectId +
-        "/" +
-        collection.id +
-        "/generated/" +
-        this.compositeGroupId +
-        "/" +
-        itemIndex +
-        ".png";
-
-      const uploadFile = bucket.file(uploadFilePath);
-
-      const downloadURL = await bucket
-        .upload(outputFilePath, {
-          destination: uploadFilePath,
-          metadata: {
-            contentType: "image/png",
-          },
-        })
-        .then(() => {
-          return uploadFile.publicUrl();
-        })
-        .catch((err: Error) => {
-          logger.error("error uploading file to bucket");
-          logger.error(err);
-        });
+    const itemIndex = await ImageComposites.reserveItemIndex(
+      this.projectId,
+      this.collectionId,
+      this.compositeGroupId
+    );
 
-      const imageComposite = {
-        externalURL: downloadURL,
-        traits: sortedTraitValueImagePairs,
-        traitsHash: ImageComposites.traitsHash(sortedTraitValueImagePairs),
-      } as ImageComposite;
+    this.usedTraitsHashes.add(compositeData.traitsHash);
+    const composite = await this.renderComposite(
+      itemIndex,
+      inputs.collection,
+      compositeData,
+      inputs.imageLayers,
+      projectDownloadPath
+    );
 
-      return imageComposite;
-    } else {
-      return null;
+    if (composite) {
+      return { composite: composite, rejection: null };
     }
-  }
 
-  async randomTraitValues(
-    traits: Trait[],
-    traitValues: { [traitId: string]: TraitValue[] }
-  ): Promise<TraitValuePair[]> {
-    // for each trait fetch a randomly chosen value
-    // based upon the distribution of rarity
-    const traitValueTasks = traits.map(async (trait) => {
-      return await this.randomValue(
-        traitValues[trait.id],
-        trait.isAlwaysUnique
-      ).then(
-        (value) => ({ trait: trait, traitValue: value } as TraitValuePair)
+    // the hash is only handed back when compositing failed, otherwise
+    // someone else saved the same traits while this was being drawn
+    if (!this.usedTraitsHashes.has(compositeData.traitsHash)) {
+      throw new Error(
+        this.itemFailureMessages[itemIndex] ??
+          "failed to composite item " + itemIndex
       );
-    });
-    return await Promise.all(traitValueTasks);
+    }
+    return {
+      composite: null,
+      rejection: "An item with the same traits is already in the group",
+    };
   }
 
-  async resolveConflicts(
-    traitValuePairs: TraitValuePair[],
-    conflicts: Conflict[],
-    traitValuesDict: { [traitId: string]: TraitValue[] }
-  ): Promise<TraitValuePair[]> {
-    for (let i = 0; i < conflicts.length; i++) {
-      const conflict = conflicts[i];
+  /**
+   * fetch everything needed to pick trait values for this batch
+   */
+  async loadInputs(): Promise<GenerationInputs> {
+    // fetch the specified collection / trait
+    const result = await Promise.all([
+      Collections.withId(this.collectionId, this.projectId),
+      Traits.all(this.projectId, this.collectionId, this.traitSetId),
+      ImageLayers.all(this.projectId, this.collectionId, this.traitSetId),
+      Conflicts.all(this.projectId, this.collectionId, this.traitSetId),
+      this.loadCompositeGroup(),
+      this.loadExistingComposites(),
+      Requirements.all(this.projectId, this.collectionId, this.traitSetId),
+      TextLayers.all(this.projectId, this.collectionId, this.traitSetId),
+    ]);
 
-      const trait1Index = traitValuePairs.findIndex(
-        (pair) => pair.trait.id == conflict.trait1Id
-      );
-      if (trait1Index == -1) {
-        continue;
-      }
+    const collection = result[0];
+    const traits = result[1];
+    const imageLayers = result[2];
+    const conflicts = result[3];
+    const compositeGroup = result[4];
+    const existingComposites = result[5];
 
-      const trait2Index = traitValuePairs.findIndex(
-        (pair) => pair.trait.id == conflict.trait2Id
-      );
-      if (trait2Index == -1) {
-        continue;
-      }
+    // requirements narrow down the values each trait can be picked from
+    this.requirements = result[6];
+    this.textLayers = result[7];
 
-      let trait1ValueIndex = -1;
-      if (conflict.trait1ValueId !== null) {
-        trait1ValueIndex = traitValuePairs.findIndex(
-          (pair) =>
-            pair.trait.id == conflict.trait1Id &&
-            pair.traitValue?.id == conflict.trait1ValueId
-        );
-        if (trait1ValueIndex == -1) {
-          continue;
-        }
-      }
+    // check for duplicates against the hashes used when the batch started
+    // (and any created since), instead of querying for every attempt
+    this.usedTraitsHashes = new Set(
+      existingComposites.map((composite) => composite.traitsHash)
+    );
 
-      let trait2ValueIndex = -1;
-      if (conflict.trait2ValueId !== null) {
-        trait2ValueIndex = traitValuePairs.findIndex(
-          (pair) =>
-            pair.trait.id == conflict.trait2Id &&
-            pair.traitValue?.id == conflict.trait2ValueId
-        );
-        if (trait2ValueIndex == -1) {
-          continue;
-        }
-      }
+    // every batch draws from its own stream derived from the run's seed,
+    // so a batch is reproducible without replaying the batches before it
+    const seed = await this.resolveSeed(compositeGroup);
+    const random = new SeededRandom(seed).derive(this.startIndex);
 
-      const trait1Name = traitValuePairs[trait1Index].trait.name;
-      const trait2Name = traitValuePairs[trait2Index].trait.name;
-      const trait1ValueName =
-        trait1ValueIndex == -1
-          ? "Any"
-          : traitValuePairs[trait1ValueIndex].traitValue?.name ?? "Any";
-      const trait2ValueName =
-        trait2ValueIndex == -1
-          ? "Any"
-          : traitValuePairs[trait2ValueIndex].traitValue?.name ?? "Any";
-
-      let resolution: string;
-
-      // all matches means we have a conflict - time to handle resolution:
-      switch (conflict.resolutionType) {
-        case ConflictResolutionType.Trait1None:
-          traitValuePairs[trait1Index].traitValue = null;
-          resolution = "dropped " + trait1Name;
-          break;
-        case ConflictResolutionType.Trait2None:
-          traitValuePairs[trait2Index].traitValue = null;
-          resolution = "dropped " + trait2Name;
-          break;
-        case ConflictResolutionType.Trait1Random:
-          const pair1 = traitValuePairs[trait1Index];
-          const newRandomValue1 = await this.randomValue(
-            traitValuesDict[pair1.trait.id],
-            pair1.trait.isAlwaysUnique,
-            pair1.traitValue?.id
-          );
-          traitValuePairs[trait1Index].traitValue = newRandomValue1;
-          resolution = "updated " + trait1Name + " to ";
-          break;
-        case ConflictResolutionType.Trait2Random:
-          const pair2 = traitValuePairs[trait2Index];
-          const newRandomValue2 = await this.randomValue(
-            traitValuesDict[pair2.trait.id],
-            pair2.trait.isAlwaysUnique,
-            pair2.traitValue?.id
-          );
-          traitValuePairs[trait2Index].traitValue = newRandomValue2;
-          resolution = "updated " + trait2Name + " to ";
-          break;
+    const traitValueIdToImageLayers: { [traitValueId: string]: ImageLayer } =
+      {};
+    imageLayers.forEach((imageLayer) => {
+      if (imageLayer.traitValueId) {
+        traitValueIdToImageLayers[imageLayer.traitValueId] = imageLayer;
       }
+    });
 
-      console.log(
-        "resolved conflict for " +
-          trait1Name +
-          ":" +
-          trait1ValueName +
-          " and " +
-          trait2Name +
-          ":" +
-          trait2ValueName +
-          " " +
-          resolution
-      );
-    }
+    const valuesWithImagesInTraitSet = Object.keys(traitValueIdToImageLayers);
 
-    return traitValuePairs;
-  }
+    let traitValues: { [traitId: string]: TraitValue[] } = {};
 
-  removeUsedAlwaysUniqueTraitValues(
-    traits: Trait[],
-    traitValues: { [traitId: string]: TraitValue[] },
-    composite: ImageComposite
-  ): { [traitId: string]: TraitValue[] } {
+    // prefetch all trait values
     for (let i = 0; i < traits.length; i++) {
       const trait = traits[i];
-      if (trait.isAlwaysUnique) {
-        let values = traitValues[trait.id];
-        const compositeTraitPair = composite.traits.find((traitPair) => {
-          return traitPair.trait.id == trait.id;
-        });
-        const compositeValue = compositeTraitPair?.traitValue;
-        const matchingValueIndex = values.findIndex((value) => {
-          return value.id == compositeValue?.id;
-        });
-        if (matchingValueIndex > -1) {
-          values.splice(matchingValueIndex, 1);
-          traitValues[trait.id] = values;
-        }
-      }
+      traitValues[trait.id] = await TraitValues.all(
+        this.projectId,
+        this.collectionId,
+        trait,
+        valuesWithImagesInTraitSet,
+        existingComposites,
+        this.traitSetId
+      );
     }
 
-    return traitValues;
+    // values with a procedural fill (and no artwork of their own)
+    // are drawn by the generator instead
+    Object.values(traitValues).forEach((values) => {
+      values.forEach((traitValue) => {
+        if (traitValue.fill && !traitValueIdToImageLayers[traitValue.id]) {
+          traitValueIdToImageLayers[traitValue.id] =
+            ImageLayers.fillLayer(traitValue);
+        }
+      });
+    });
+
+    if (compositeGroup.rarityMode == RarityMode.ExactQuota) {
+      this.rarityQuotas = await this.loadRarityQuotas(
+        collection,
+        traits,
+        traitValues,
+        existingComposites
+      );
+    }
+
+    return {
+      collection: collection,
+      traits: traits,
+      traitValues: traitValues,
+      traitValueIdToImageLayers: traitValueIdToImageLayers,
+      imageLayers: imageLayers,
+      conflicts: conflicts,
+      existingComposites: existingComposites,
+      seed: seed,
+      random: random,
+    } as GenerationInputs;
+  }
+
+  async loadCompositeGroup(): Promise<ImageCompositeGroup> {
+    return ImageCompositeGroups.withId(
+      this.compositeGroupId,
+      this.projectId,
+      this.collectionId
+    );
+  }
+
+  async loadExistingComposites(): Promise<ImageComposite[]> {
+    return ImageComposites.all(
+      this.projectId,
+      this.collectionId,
+      this.compositeGroupId
+    );
+  }
+
+  async isUniqueTraitsHash(hash: string): Promise<boolean> {
+    return !this.usedTraitsHashes.has(hash);
+  }
+
+  /**
+   * @returns whether the job running this batch has been cancelled
+   */
+  async checkCancelled(): Promise<boolean> {
+    if (this.isCancelled || !this.generationJobId) {
+      return this.isCancelled;
+    }
+
+    const now = Date.now();
+    if (now - this.cancellationCheckedAt < CANCELLATION_CHECK_INTERVAL_MS) {
+      return false;
+    }
+    this.cancellationCheckedAt = now;
+
+    const generationJob = await GenerationJobs.withId(
+      this.generationJobId,
+      this.projectId,
+      this.collectionId
+    );
+    this.isCancelled = generationJob.status == GenerationJobStatus.Cancelled;
+
+    return this.isCancelled;
+  }
+
+  /**
+   * when resuming a batch that was interrupted part way through, only
+   * the items that weren't saved the first time are generated, and
+   * items reserved for one of ones are never generated at all
+   *
+   * @returns the indexes of the batch's items that still need generating
+   */
+  itemIndexesToGenerate(existingComposites: ImageComposite[]): number[] {
+    const existingItemIndexes = new Set(
+      existingComposites.map((composite) => composite.itemIndex)
+    );
+
+    const itemIndexes: number[] = [];
+    for (let i = this.startIndex; i < this.endIndex; i++) {
+      if (!existingItemIndexes.has(i)) {
+        itemIndexes.push(i);
+      }
+    }
+    return itemIndexes;
+  }
+
+  /**
+   * pick the next item, trying again a few times when no unused
+   * combination is found. an item that still can't be picked is left
+   * out rather than retried until the batch times out, so that it's
+   * reported as missing from the batch
+   *
+   * @returns the composite to render, or null if the item is left out
+   */
+  async pickItem(
+    itemIndex: number,
+    traits: Trait[],
+    traitValues: { [traitId: string]: TraitValue[] },
+    traitValueIdToImageLayers: { [traitValueId: string]: ImageLayer },
+    conflicts: Conflict[],
+    random: SeededRandom
+  ): Promise<ImageComposite | null> {
+    for (let attempt = 0; attempt < MAX_ITEM_ATTEMPTS; attempt++) {
+      const compositeData = await this.pickComposite(
+        traits,
+        traitValues,
+        traitValueIdToImageLayers,
+        conflicts,
+        random
+      );
+
+      if (compositeData) {
+        return compositeData;
+      }
+      console.log("no composite data");
+    }
+
+    logger.warn("unable to pick traits for item " + itemIndex);
+    return null;
+  }
+
+  /**
+   * reserve a picked item's values before picking the next item
+   *
+   * @returns the values left to pick from
+   */
+  usePick(
+    traits: Trait[],
+    traitValues: { [traitId: string]: TraitValue[] },
+    compositeData: ImageComposite
+  ): { [traitId: string]: TraitValue[] } {
+    this.usedTraitsHashes.add(compositeData.traitsHash);
+    this.rarityQuotas?.consume(compositeData);
+
+    // remove any possible values for always unique traits
+    // so that they can only be used once
+    return this.removeUsedAlwaysUniqueTraitValues(
+      traits,
+      traitValues,
+      compositeData
+    );
+  }
+
+  /**
+   * pick the trait values (and their artwork) for the next item
+   *
+   * @returns the composite to render, or null if no unused combination was found
+   */
+  async pickComposite(
+    traits: Trait[],
+    traitValues: { [traitId: string]: TraitValue[] },
+    traitValueIdToImageLayers: { [traitValueId: string]: ImageLayer },
+    conflicts: Conflict[],
+    random: SeededRandom
+  ): Promise<ImageComposite | null> {
+    const pickedTraitValuePairs = await this.pickTraitValues(
+      traits,
+      traitValues,
+      conflicts,
+      random
+    );
+
+    if (!pickedTraitValuePairs) {
+      return null;
+    }
+
+    // for all trait value pairs, fetch the artwork representing random value
+    const traitValueImagePairs = this.attachImageLayers(
+      pickedTraitValuePairs,
+      traitValueIdToImageLayers
+    );
+
+    const sortedTraitValueImagePairs =
+      this.sortTraitValuePairs(traitValueImagePairs);
+
+    return {
+      traits: sortedTraitValueImagePairs,
+      traitsHash: ImageComposites.traitsHash(sortedTraitValueImagePairs),
+      traitSetId: this.traitSetId,
+    } as ImageComposite;
+  }
+
+  /**
+   * composite, upload and save the artwork for a picked item. a layer that
+   * can't be drawn fails just this item, and the reason is kept in case
+   * the item ends up missing from the batch
+   *
+   * @returns the saved composite, or null if the item has to be generated again
+   */
+  async renderComposite(
+    itemIndex: number,
+    collection: Collection,
+    compositeData: ImageComposite,
+    imageLayers: ImageLayer[],
+    projectDownloadPath: string
+  ): Promise<ImageComposite | null> {
+    delete this.itemFailureMessages[itemIndex];
+
+    try {
+      return await this.renderAndSaveComposite(
+        itemIndex,
+        collection,
+        compositeData,
+        imageLayers,
+        projectDownloadPath
+      );
+    } catch (err) {
+      logger.error("error rendering item " + itemIndex);
+      logger.error(err);
+      this.itemFailureMessages[itemIndex] =
+        err instanceof Error ? err.message : String(err);
+
+      // nothing was saved, so the combination is still free to use
+      this.usedTraitsHashes.delete(compositeData.traitsHash);
+      return null;
+    }
+  }
+
+  async renderAndSaveComposite(
+    itemIndex: number,
+    collection: Collection,
+    compositeData: ImageComposite,
+    imageLayers: ImageLayer[],
+    projectDownloadPath: string
+  ): Promise<ImageComposite | null> {
+    // settings sharp can't encode with would only fail after compositing
+    const outputSettings = Collections.outputSettings(collection);
+    const settingsProblems = [
+      OutputFormats.settingsProblem(outputSettings),
+      ...(collection.renditions ?? []).map((rendition) => {
+        const problem = OutputFormats.settingsProblem(rendition);
+        return problem
+          ? "the " + rendition.name + " rendition's " + problem
+          : null;
+      }),
+    ].filter((problem) => problem);
+    if (settingsProblems.length > 0) {
+      throw new Error(
+        "can't render item " + itemIndex + ", " + settingsProblems.join(", ")
+      );
+    }
+
+    // for any image layers with companions, inject them at the right layer
+    // level, along with the text drawn for this item, then tint the layers
+    // that take their colour from another trait
+    const sortedImageLayers = await this.tintImageLayers(
+      this.sortedImageLayersInjectingCompanions(
+        compositeData.traits,
+        imageLayers,
+        await this.drawTextLayers(itemIndex, compositeData.traits)
+      ),
+      compositeData.traits
+    );
+
+    const compositeFilePath: string = path.join(
+      projectDownloadPath,
+      "composite-" + itemIndex + ".png"
+    );
+
+    // composite all of the images representing trait values together into one image
+    const succeeded = await this.compositeImages(
+      sortedImageLayers,
+      compositeFilePath
+    );
+
+    if (succeeded) {
+      // encode the composite in the collection's output format
+      // (and any extra renditions), then upload it back to the bucket
+      const output = await this.renderOutput(
+        sortedImageLayers,
+        compositeFilePath,
+        itemIndex.toString(),
+        outputSettings
+      );
+
+      const renditions: ImageCompositeRendition[] = [];
+      for (const rendition of collection.renditions ?? []) {
+        const renditionOutput = await this.renderOutput(
+          sortedImageLayers,
+          compositeFilePath,
+          itemIndex + "-" + rendition.name,
+          rendition
+        );
+        renditions.push({
+          name: rendition.name,
+          format: renditionOutput.format,
+          externalURL: renditionOutput.externalURL,
+        });
+      }
+
+      // animated layers also make an animated copy of the composite,
+      // which is always webp since it's the only animated format written
+      let animationURL: string | null = null;
+      const animationFilePath: string = path.join(
+        projectDownloadPath,
+        "animation-" + itemIndex + ".webp"
+      );
+      const isAnimated = await this.compositeAnimation(
+        sortedImageLayers,
+        animationFilePath,
+        outputSettings
+      );
+      if (isAnimated) {
+        animationURL = await this.uploadFile(
+          animationFilePath,
+          itemIndex + "-animation" + OutputFormats.extension(OutputFormat.WebP),
+          OutputFormats.contentType(OutputFormat.WebP)
+        );
+      }
+
+      const imageComposite = await ImageComposites.create(
+        {
+          ...compositeData,
+          externalURL: output.externalURL,
+          itemIndex: itemIndex,
+          format: output.format,
+          renditions: renditions,
+          animationURL: animationURL,
+        } as ImageComposite,
+        this.projectId,
+        this.collectionId,
+        this.compositeGroupId
+      );
+
+      if (!imageComposite) {
+        // another batch used these traits since this one started,
+        // so keep avoiding them when generating this item again
+        console.log("traits already used by another batch");
+      }
+
+      return imageComposite;
+    } else {
+      // nothing was saved, so the combination is still free to use
+      this.usedTraitsHashes.delete(compositeData.traitsHash);
+      return null;
+    }
+  }
+
+  /**
+   * pick a random value for every trait, retrying until the combination
+   * hasn't been used in the group yet, then resolve any conflicts
+   *
+   * @returns the picked pairs, or null if no unused combination was found
+   */
+  async pickTraitValues(
+    traits: Trait[],
+    traitValues: { [traitId: string]: TraitValue[] },
+    conflicts: Conflict[],
+    random: SeededRandom
+  ): Promise<TraitValuePair[] | null> {
+    let traitValuePairs: TraitValuePair[] = [];
+
+    let hasUnusedTraitValuePair = false;
+
+    const numRetries = 20;
+    let retriesRemaining = numRetries;
+    let failedToFindUnusedTraitPair = false;
+
+    while (!hasUnusedTraitValuePair) {
+      // generate a pair mapping trait to a random trait value
+      traitValuePairs = await this.randomTraitValues(
+        traits,
+        traitValues,
+        random
+      );
+
+      const hash = ImageComposites.traitsHash(traitValuePairs);
+      hasUnusedTraitValuePair = await this.isUniqueTraitsHash(hash);
+
+      if (!hasUnusedTraitValuePair) {
+        this.stats.duplicateRetries++;
+      }
+
+      retriesRemaining--;
+
+      if (retriesRemaining == 0) {
+        failedToFindUnusedTraitPair = true;
+        this.stats.duplicateFailures++;
+        console.log(
+          "Unable to find unused trait pair after " + numRetries + " retries."
+        );
+        console.log("generated trait value pairs: " + traitValuePairs);
+        break;
+      }
+    }
+
+    if (failedToFindUnusedTraitPair) {
+      return null;
+    }
+
+    // deal with any pairs that conflict / we dont want to happen
+    return await this.resolveConflicts(
+      traitValuePairs,
+      conflicts,
+      traitValues,
+      random
+    );
+  }
+
+  attachImageLayers(
+    traitValuePairs: TraitValuePair[],
+    traitValueIdToImageLayers: { [traitValueId: string]: ImageLayer }
+  ): TraitValuePair[] {
+    return traitValuePairs.map((traitValuePair) => {
+      const traitValueId = traitValuePair.traitValue?.id;
+      const imageLayer = traitValueId
+        ? // needs to be null not undefined for firestore
+          traitValueIdToImageLayers[traitValueId] ?? null
+        : null;
+      traitValuePair.imageLayer = imageLayer;
+      return traitValuePair;
+    });
+  }
+
+  async randomTraitValues(
+    traits: Trait[],
+    traitValues: { [traitId: string]: TraitValue[] },
+    random: SeededRandom
+  ): Promise<TraitValuePair[]> {
+    // for each trait fetch a randomly chosen value
+    // based upon the distribution of rarity.
+    // picks are made one trait at a time so that the
+    // seeded random stream is always consumed in the same order
+    let traitValuePairs: TraitValuePair[] = [];
+    for (let i = 0; i < traits.length; i++) {
+      const trait = traits[i];
+      const value = await this.randomValue(
+        trait,
+        traitValues[trait.id],
+        random,
+        null,
+        this.allowedTraitValues(trait, traitValues[trait.id], traitValuePairs)
+      );
+      traitValuePairs.push({
+        trait: trait,
+        traitValue: value,
+      } as TraitValuePair);
+    }
+    return traitValuePairs;
+  }
+
+  /**
+   * resolving one conflict can introduce another (or bring back one
+   * already resolved), so every conflict is checked again after each
+   * pass that changed something, until a pass finds none left
+   *
+   * @returns the resolved pairs, or null if conflicts kept coming back
+   */
+  async resolveConflicts(
+    traitValuePairs: TraitValuePair[],
+    conflicts: Conflict[],
+    traitValuesDict: { [traitId: string]: TraitValue[] },
+    random: SeededRandom
+  ): Promise<TraitValuePair[] | null> {
+    for (let pass = 0; pass < MAX_CONFLICT_RESOLUTION_PASSES; pass++) {
+      let hasResolvedConflict = false;
+
+      for (let i = 0; i < conflicts.length; i++) {
+        const conflict = conflicts[i];
+
+        const description = this.matchConflict(conflict, traitValuePairs);
+        if (description === null) {
+          continue;
+        }
+
+        // all matches means we have a conflict - time to handle resolution:
+        const resolution = await this.resolveConflict(
+          conflict,
+          traitValuePairs,
+          traitValuesDict,
+          random
+        );
+        if (resolution === null) {
+          continue;
+        }
+
+        hasResolvedConflict = true;
+
+        this.stats.conflictResolutions[conflict.id] =
+          (this.stats.conflictResolutions[conflict.id] ?? 0) + 1;
+
+        console.log("resolved conflict for " + description + " " + resolution);
+      }
+
+      if (!hasResolvedConflict) {
+        return traitValuePairs;
+      }
+    }
+
+    this.stats.conflictFailures++;
+    console.log(
+      "Unable to resolve conflicts after " +
+        MAX_CONFLICT_RESOLUTION_PASSES +
+        " passes."
+    );
+
+    return null;
+  }
+
+  /**
+   * a condition on "any" value only matches a trait that has one,
+   * so a trait dropped to none no longer matches it
+   *
+   * @returns a description of the matching traits, or null if
+   * the picked traits don't meet every condition of the conflict
+   */
+  matchConflict(
+    conflict: Conflict,
+    traitValuePairs: TraitValuePair[]
+  ): string | null {
+    const conditions = Conflicts.conditions(conflict);
+    const matchingPairs = conditions.map((condition) =>
+      traitValuePairs.find(
+        (pair) =>
+          pair.trait.id == condition.traitId &&
+          (condition.traitValueId === null
+            ? pair.traitValue != null
+            : pair.traitValue?.id == condition.traitValueId)
+      )
+    );
+    if (matchingPairs.some((pair) => pair === undefined)) {
+      return null;
+    }
+
+    return conditions
+      .map((condition, index) => {
+        const pair = matchingPairs[index];
+        const traitValueName =
+          condition.traitValueId === null
+            ? "Any"
+            : pair?.traitValue?.name ?? "Any";
+        return pair?.trait.name + ":" + traitValueName;
+      })
+      .join(" and ");
+  }
+
+  /**
+   * change the picked traits the way the conflict says to
+   *
+   * @returns a description of the change, or null if nothing changed
+   */
+  async resolveConflict(
+    conflict: Conflict,
+    traitValuePairs: TraitValuePair[],
+    traitValuesDict: { [traitId: string]: TraitValue[] },
+    random: SeededRandom
+  ): Promise<string | null> {
+    if (conflict.resolutionType == ConflictResolutionType.AllRandom) {
+      const conditionTraitIds = Conflicts.conditions(conflict).map(
+        (condition) => condition.traitId
+      );
+      const pairs = traitValuePairs.filter((pair) =>
+        conditionTraitIds.includes(pair.trait.id)
+      );
+      const previousValueIds = pairs.map((pair) => pair.traitValue?.id ?? null);
+
+      for (let i = 0; i < pairs.length; i++) {
+        await this.rerollTraitValue(
+          pairs[i],
+          traitValuePairs,
+          traitValuesDict,
+          random
+        );
+      }
+
+      if (
+        pairs.every(
+          (pair, i) => (pair.traitValue?.id ?? null) == previousValueIds[i]
+        )
+      ) {
+        return null;
+      }
+
+      return (
+        "updated " +
+        pairs
+          .map(
+            (pair) =>
+              pair.trait.name + " to " + (pair.traitValue?.name ?? "None")
+          )
+          .join(", ")
+      );
+    }
+
+    const resolutionTraitId = Conflicts.resolutionTraitId(conflict);
+    const resolutionPair = traitValuePairs.find(
+      (pair) => pair.trait.id == resolutionTraitId
+    );
+    if (!resolutionPair) {
+      return null;
+    }
+
+    const previousValueId = resolutionPair.traitValue?.id ?? null;
+
+    if (Conflicts.resolvesToNone(conflict)) {
+      if (previousValueId === null) {
+        return null;
+      }
+      resolutionPair.traitValue = null;
+      return "dropped " + resolutionPair.trait.name;
+    }
+
+    if (conflict.resolutionType == ConflictResolutionType.TraitValue) {
+      if (!conflict.resolutionTraitValueId) {
+        logger.warn(
+          "conflict " +
+            conflict.id +
+            " has no value to set " +
+            resolutionPair.trait.name +
+            " to, so it's set to None"
+        );
+      }
+
+      // the value may not be available, e.g. without artwork in this trait set
+      resolutionPair.traitValue =
+        (traitValuesDict[resolutionTraitId] ?? []).find(
+          (traitValue) => traitValue.id == conflict.resolutionTraitValueId
+        ) ?? null;
+    } else {
+      await this.rerollTraitValue(
+        resolutionPair,
+        traitValuePairs,
+        traitValuesDict,
+        random
+      );
+    }
+
+    if ((resolutionPair.traitValue?.id ?? null) == previousValueId) {
+      return null;
+    }
+
+    return (
+      "updated " +
+      resolutionPair.trait.name +
+      " to " +
+      (resolutionPair.traitValue?.name ?? "None")
+    );
+  }
+
+  async rerollTraitValue(
+    traitValuePair: TraitValuePair,
+    traitValuePairs: TraitValuePair[],
+    traitValuesDict: { [traitId: string]: TraitValue[] },
+    random: SeededRandom
+  ) {
+    traitValuePair.traitValue = await this.randomValue(
+      traitValuePair.trait,
+      traitValuesDict[traitValuePair.trait.id],
+      random,
+      traitValuePair.traitValue?.id,
+      this.allowedTraitValues(
+        traitValuePair.trait,
+        traitValuesDict[traitValuePair.trait.id],
+        traitValuePairs.filter((pair) => pair !== traitValuePair)
+      )
+    );
+  }
+
+  removeUsedAlwaysUniqueTraitValues(
+    traits: Trait[],
+    traitValues: { [traitId: string]: TraitValue[] },
+    composite: ImageComposite
+  ): { [traitId: string]: TraitValue[] } {
+    for (let i = 0; i < traits.length; i++) {
+      const trait = traits[i];
+      if (trait.isAlwaysUnique) {
+        let values = traitValues[trait.id];
+        const compositeTraitPair = composite.traits.find((traitPair) => {
+          return traitPair.trait.id == trait.id;
+        });
+        const compositeValue = compositeTraitPair?.traitValue;
+        const matchingValueIndex = values.findIndex((value) => {
+          return value.id == compositeValue?.id;
+        });
+        if (matchingValueIndex > -1) {
+          values.splice(matchingValueIndex, 1);
+          traitValues[trait.id] = values;
+        }
+      }
+    }
+
+    return traitValues;
+  }
+
+  /**
+   * put the values of always unique traits used by a composite that
+   * failed to generate back, so that they can still be used
+   */
+  restoreAlwaysUniqueTraitValues(
+    traits: Trait[],
+    traitValues: { [traitId: string]: TraitValue[] },
+    composite: ImageComposite
+  ): { [traitId: string]: TraitValue[] } {
+    for (let i = 0; i < traits.length; i++) {
+      const trait = traits[i];
+      if (trait.isAlwaysUnique) {
+        const compositeTraitPair = composite.traits.find((traitPair) => {
+          return traitPair.trait.id == trait.id;
+        });
+        const compositeValue = compositeTraitPair?.traitValue;
+        if (compositeValue) {
+          traitValues[trait.id].push(compositeValue);
+        }
+      }
+    }
+
+    return traitValues;
+  }
+
+  /**
+   * apply every requirement between a trait and the traits already
+   * picked, in both directions: a picked value can require this trait
+   * to be one of a few values, and this trait's values can require
+   * something of a picked trait that it doesn't have
+   *
+   * @param trait the trait about to be picked
+   * @param values the values it would otherwise be picked from
+   * @param pickedTraitValuePairs the traits picked so far for this item
+   * @returns the values still allowed, or null if no requirement applies
+   */
+  allowedTraitValues(
+    trait: Trait,
+    values: TraitValue[],
+    pickedTraitValuePairs: TraitValuePair[]
+  ): AllowedTraitValues | null {
+    let allowed: AllowedTraitValues | null = null;
+
+    const narrow = () => {
+      allowed = allowed ?? {
+        traitValueIds: new Set(values.map((value) => value.id)),
+        allowsNone: true,
+      };
+      return allowed;
+    };
+
+    this.requirements.forEach((requirement) => {
+      if (requirement.requiredTraitId == trait.id) {
+        const conditionPair = pickedTraitValuePairs.find(
+          (pair) => pair.trait.id == requirement.traitId
+        );
+        if (
+          conditionPair &&
+          this.meetsRequirementCondition(requirement, conditionPair)
+        ) {
+          const narrowed = narrow();
+          narrowed.traitValueIds.forEach((traitValueId) => {
+            if (!requirement.requiredTraitValueIds.includes(traitValueId)) {
+              narrowed.traitValueIds.delete(traitValueId);
+            }
+          });
+          narrowed.allowsNone =
+            narrowed.allowsNone &&
+            requirement.requiredTraitValueIds.includes(null);
+        }
+      }
+
+      if (requirement.traitId == trait.id) {
+        const requiredPair = pickedTraitValuePairs.find(
+          (pair) => pair.trait.id == requirement.requiredTraitId
+        );
+        if (
+          requiredPair &&
+          !requirement.requiredTraitValueIds.includes(
+            requiredPair.traitValue?.id ?? null
+          )
+        ) {
+          // a requirement on any value leaves no value at all as the only option
+          const narrowed = narrow();
+          if (requirement.traitValueId === null) {
+            narrowed.traitValueIds.clear();
+          } else {
+            narrowed.traitValueIds.delete(requirement.traitValueId);
+          }
+        }
+      }
+    });
+
+    return allowed;
+  }
+
+  /**
+   * a requirement on "any" value applies whenever the trait has a value
+   */
+  meetsRequirementCondition(
+    requirement: Requirement,
+    traitValuePair: TraitValuePair
+  ): boolean {
+    if (!traitValuePair.traitValue) {
+      return false;
+    }
+    return (
+      requirement.traitValueId === null ||
+      requirement.traitValueId == traitValuePair.traitValue.id
+    );
   }
 
   /**
@@ -507,24 +1406,86 @@ export class ArtworkGenerator {
    * 
    * we walk through the segments until our random number
    * between 0 and 1 lands within one of the segments
+   *
+   * when generating with exact rarity quotas, the segments are
+   * instead sized by the number of items each value has left
+   *
+   * when requirements rule some values out, only the segments
+   * left are walked, scaled up to cover the same bar
+   *
+   * a trait with an explicit chance of none has its segments scaled
+   * to fill the bar up to that chance, leaving exactly it for none
 
+   * @param trait the trait to pick a value for
    * @param values array of possible trait values each with specified % rarity
-   * @returns a secure pseudorandom value from the array factoring in rarity
+   * @param random the seeded random stream to draw from
+   * @param allowed the values left after applying requirements, if any apply
+   * @returns a seeded pseudorandom value from the array factoring in rarity
    */
   async randomValue(
+    trait: Trait,
     values: TraitValue[],
-    isTraitAlwaysUnique: boolean,
-    excludeTraitValueId: string | null = null
+    random: SeededRandom,
+    excludeTraitValueId: string | null = null,
+    allowed: AllowedTraitValues | null = null
   ): Promise<TraitValue | null> {
-    if (isTraitAlwaysUnique) {
-      const randomIndex = Math.floor(Math.random() * values.length);
-      const randomValue = values[randomIndex];
+    const allowedValues = allowed
+      ? values.filter((value) => allowed.traitValueIds.has(value.id))
+      : values;
+
+    if (trait.isAlwaysUnique) {
+      if (allowedValues.length == 0) {
+        return null;
+      }
+
+      const randomIndex = random.nextInt(allowedValues.length);
+      const randomValue = allowedValues[randomIndex];
 
       return randomValue;
     }
 
+    if (this.rarityQuotas?.isTracking(trait.id)) {
+      const candidates = this.rarityQuotas
+        .candidates(trait.id, allowedValues, excludeTraitValueId)
+        .filter(
+          (candidate) => candidate.traitValue || !allowed || allowed.allowsNone
+        );
+      const totalRemaining = candidates.reduce(
+        (sum, candidate) => sum + candidate.remaining,
+        0
+      );
+
+      let remainingRangeMax = random.next() * totalRemaining;
+      for (let i = 0; i < candidates.length; i++) {
+        remainingRangeMax -= candidates[i].remaining;
+        if (remainingRangeMax < 0) {
+          return candidates[i].traitValue;
+        }
+      }
+
+      // every quota has been dealt out (for ex. after conflicts
+      // dropped values), so fall back to picking by rarity
+    }
+
     const precision = TRAITVALUES_RARITY_MAX_PRECISION;
 
+    const { noneRarity, valueScale } = Traits.noneRarity(trait, values);
+    const allowsNone = noneRarity > 0 && (!allowed || allowed.allowsNone);
+
+    // the whole bar, unless requirements have ruled part of it out
+    let rarityRangeMax = 1;
+    if (allowed) {
+      rarityRangeMax =
+        allowedValues.reduce(
+          (sum, value) => sum + value.rarity * valueScale,
+          0
+        ) + (allowsNone ? noneRarity : 0);
+    }
+
+    if (rarityRangeMax <= 0) {
+      return null;
+    }
+
     let value: TraitValue | null;
 
     const maxAttempts = 10;
@@ -535,22 +1496,31 @@ export class ArtworkGenerator {
         return null;
       }
 
-      value = await this.randomNumber(precision).then((randomNumber) => {
-        let totalRarityRangeMax = 0;
-        let segment = 0;
+      value = await this.randomNumber(precision, random).then(
+        (randomNumber) => {
+          const scaledRandomNumber = randomNumber * rarityRangeMax;
 
-        while (segment < values.length) {
-          const value = values[segment];
-          totalRarityRangeMax += value.rarity;
+          let totalRarityRangeMax = 0;
+          let segment = 0;
 
-          if (randomNumber <= totalRarityRangeMax) {
-            return value;
+          while (segment < allowedValues.length) {
+            const value = allowedValues[segment];
+            totalRarityRangeMax += value.rarity * valueScale;
+
+            if (scaledRandomNumber <= totalRarityRangeMax) {
+              return value;
+            }
+            segment++;
           }
-          segment++;
-        }
 
-        return null;
-      });
+          // rounding can leave the very end of the bar uncovered
+          if (!allowsNone && allowedValues.length > 0) {
+            return allowedValues[allowedValues.length - 1];
+          }
+
+          return null;
+        }
+      );
 
       attempts++;
     } while (excludeTraitValueId != null && value?.id === excludeTraitValueId);
@@ -559,20 +1529,87 @@ export class ArtworkGenerator {
   }
 
   /**
-   * generate a secure random number from 0.0 -> 1.0
-   * with specified digits of precision using the
-   * random-number-csprng library
+   * generate a seeded random number from 0.0 -> 1.0
+   * with specified digits of precision
    *
    * @param digitsPrecision number of decimal places of precision
-   * @returns a secure pseudorandom number
+   * @param random the seeded random stream to draw from
+   * @returns a seeded pseudorandom number
    */
-  async randomNumber(digitsPrecision: number): Promise<number> {
-    const rand = require("random-number-csprng");
+  async randomNumber(
+    digitsPrecision: number,
+    random: SeededRandom
+  ): Promise<number> {
     const max = Math.pow(10, digitsPrecision);
-    const result: Promise<number> = rand(0, max).then((random: number) => {
-      return random / max;
-    });
-    return result;
+    return random.nextInt(max + 1) / max;
+  }
+
+  /**
+   * the seed for a run is recorded on its composite group so that
+   * every batch (and any later rerun) uses the same one. a seed passed
+   * in explicitly is recorded if the group has none, and has to match
+   * the group's otherwise, or the group's items couldn't be reproduced
+   * from the seed it records
+   *
+   * @returns the seed to use for this batch
+   */
+  async resolveSeed(compositeGroup: ImageCompositeGroup): Promise<string> {
+    if (compositeGroup.seed) {
+      if (this.seed && this.seed != compositeGroup.seed) {
+        throw new Error(
+          "seed " +
+            this.seed +
+            " doesn't match the seed " +
+            compositeGroup.seed +
+            " the composite group was generated with"
+        );
+      }
+      return compositeGroup.seed;
+    }
+
+    const seed = this.seed ?? uuidv4();
+
+    await ImageCompositeGroups.update(
+      { seed: seed },
+      this.compositeGroupId,
+      this.projectId,
+      this.collectionId
+    );
+
+    return seed;
+  }
+
+  /**
+   * compute the exact number of items each trait value should
+   * appear on for this trait set, less those already generated
+   * by earlier batches
+   */
+  async loadRarityQuotas(
+    collection: Collection,
+    traits: Trait[],
+    traitValues: { [traitId: string]: TraitValue[] },
+    existingComposites: ImageComposite[]
+  ): Promise<RarityQuotas> {
+    const supply = this.traitSetId
+      ? (
+          await TraitSets.withId(
+            this.traitSetId,
+            this.projectId,
+            this.collectionId
+          )
+        ).supply
+      : collection.supply;
+
+    const existingTraitSetComposites = existingComposites.filter(
+      (composite) => composite.traitSetId == this.traitSetId
+    );
+
+    return new RarityQuotas(
+      traits,
+      traitValues,
+      supply,
+      existingTraitSetComposites
+    );
   }
 
   downloadPathForImageLayer(imageLayer: ImageLayer): string {
@@ -600,6 +1637,151 @@ export class ArtworkGenerator {
       });
   }
 
+  async loadCanvasSize(
+    collection: Collection,
+    imageLayers: ImageLayer[]
+  ): Promise<{ width: number; height: number }> {
+    if (collection.canvasWidth && collection.canvasHeight) {
+      return { width: collection.canvasWidth, height: collection.canvasHeight };
+    }
+
+    const sharp = require("sharp");
+    const { width, height } = await sharp(
+      this.downloadPathForImageLayer(imageLayers[0])
+    ).metadata();
+    return { width: width, height: height };
+  }
+
+  /**
+   * draw every procedural fill into a file of its own
+   */
+  async drawFills(traitValues: {
+    [traitId: string]: TraitValue[];
+  }): Promise<void> {
+    const canvasSize = this.canvasSize;
+    if (!canvasSize) {
+      return;
+    }
+
+    const fillValues = Object.values(traitValues)
+      .reduce((result, values) => result.concat(values), [])
+      .filter((traitValue) => traitValue.fill);
+
+    await Promise.all(
+      fillValues.map((traitValue) =>
+        fs.promises.writeFile(
+          this.downloadPathForImageLayer(ImageLayers.fillLayer(traitValue)),
+          Fills.svg(
+            traitValue.fill as Fill,
+            canvasSize.width,
+            canvasSize.height
+          )
+        )
+      )
+    );
+  }
+
+  /**
+   * download the font of every text layer and make it known to fontconfig,
+   * which sharp renders svg text with. fontconfig only reads its config the
+   * first time text is rendered, so fonts are kept in one directory for
+   * every project, and ones added later are picked up when it rescans
+   */
+  async loadTextRenderers(): Promise<void> {
+    if (this.textLayers.length == 0) {
+      return;
+    }
+
+    const fontDownloadPath = this.fontDownloadPath();
+    await fs.promises.mkdir(fontDownloadPath, { recursive: true });
+
+    const fontConfigPath = path.join(fontDownloadPath, "fonts.conf");
+    if (!fs.existsSync(fontConfigPath)) {
+      await fs.promises.writeFile(
+        fontConfigPath,
+        '<?xml version="1.0"?><!DOCTYPE fontconfig SYSTEM "fonts.dtd">' +
+          "<fontconfig>" +
+          '<include ignore_missing="yes">/etc/fonts/fonts.conf</include>' +
+          "<dir>" +
+          fontDownloadPath +
+          "</dir>" +
+          "</fontconfig>"
+      );
+    }
+    process.env.FONTCONFIG_FILE = process.env.FONTCONFIG_FILE ?? fontConfigPath;
+
+    for (const textLayer of this.textLayers) {
+      const fontFilePath: string | null = textLayer.fontBucketFilename
+        ? path.join(
+            fontDownloadPath,
+            path.basename(textLayer.fontBucketFilename)
+          )
+        : null;
+
+      if (fontFilePath && !fs.existsSync(fontFilePath)) {
+        await storage
+          .bucket()
+          .file(
+            this.projectId +
+              "/" +
+              this.collectionId +
+              "/" +
+              textLayer.fontBucketFilename
+          )
+          .download({ destination: fontFilePath, validation: false })
+          .catch(() => {
+            logger.error("failed to download font " + textLayer.fontName);
+          });
+      }
+
+      this.textRenderers[textLayer.id] = await TextRenderer.load(fontFilePath);
+    }
+  }
+
+  /**
+   * draw the text layers for an item into files of their own
+   *
+   * @returns layers for the text, to composite at the text layers' zIndex
+   */
+  async drawTextLayers(
+    itemIndex: number,
+    traitValuePairs: TraitValuePair[]
+  ): Promise<OrderedImageLayer[]> {
+    const canvasSize = this.canvasSize;
+    if (!canvasSize) {
+      return [];
+    }
+
+    return Promise.all(
+      this.textLayers.map(async (textLayer) => {
+        const imageLayer = {
+          id: "text-" + textLayer.id + "-" + itemIndex,
+          bucketFilename: "text-" + textLayer.id + ".svg",
+          url: "",
+          name: textLayer.name,
+          bytes: 0,
+          traitSetId: textLayer.traitSetId,
+          traitId: null,
+          traitValueId: null,
+          companionLayerId: null,
+          companionLayerZIndex: null,
+        } as ImageLayer;
+
+        await fs.promises.writeFile(
+          this.downloadPathForImageLayer(imageLayer),
+          this.textRenderers[textLayer.id].svg(
+            textLayer,
+            TextLayers.text(textLayer, itemIndex, traitValuePairs),
+            canvasSize.width,
+            canvasSize.height
+          )
+        );
+
+        return { imageLayer: imageLayer, zIndex: textLayer.zIndex };
+      })
+    );
+  }
+
   sortTraitValuePairs(traitValuePairs: TraitValuePair[]): TraitValuePair[] {
     return traitValuePairs.sort((a, b) => {
       const zIndexA = a.trait.zIndex;
@@ -611,15 +1793,19 @@ export class ArtworkGenerator {
 
   sortedImageLayersInjectingCompanions(
     sortedTraitValueImagePairs: TraitValuePair[],
-    imageLayers: ImageLayer[]
+    imageLayers: ImageLayer[],
+    otherImageLayers: OrderedImageLayer[] = []
   ): ImageLayer[] {
-    const imageLayerPairs: OrderedImageLayer[] = [];
+    const imageLayerPairs: OrderedImageLayer[] = [...otherImageLayers];
 
     sortedTraitValueImagePairs.forEach((pair) => {
+      // fills are backgrounds, so they're always the bottom layer
       if (pair.imageLayer) {
         imageLayerPairs.push({
           imageLayer: pair.imageLayer,
-          zIndex: pair.trait.zIndex,
+          zIndex: ImageLayers.isFill(pair.imageLayer)
+            ? -Infinity
+            : pair.trait.zIndex,
         } as OrderedImageLayer);
       }
 
@@ -654,27 +1840,213 @@ export class ArtworkGenerator {
     return orderedImageLayers;
   }
 
-  compositeImages(
-    optInputFilePaths: (string | null)[],
-    outputFilePath: string
-  ): Promise<Boolean> {
-    const inputFilePaths = optInputFilePaths.filter((f) => f);
-    if (inputFilePaths.length == 0) {
-      return Promise.resolve(false);
+  /**
+   * produce and upload one output of a composite. items made only of
+   * vector layers can be written out as svg, anything else is raster.
+   * vector layers are rasterized again at every output size so they
+   * stay sharp, rather than resizing the full size composite
+   *
+   * @returns the format that was actually written, and its public url
+   */
+  async renderOutput(
+    optImageLayers: (ImageLayer | null)[],
+    compositeFilePath: string,
+    name: string,
+    outputSettings: OutputSettings
+  ): Promise<{ format: OutputFormat; externalURL: string | null }> {
+    const imageLayers = optImageLayers.filter(
+      (imageLayer): imageLayer is ImageLayer => imageLayer != null
+    );
+    const vectorLayers = imageLayers.filter((imageLayer) =>
+      ImageLayers.isVector(imageLayer)
+    );
+
+    if (outputSettings.format == OutputFormat.Svg) {
+      if (vectorLayers.length == imageLayers.length) {
+        const filename = name + OutputFormats.extension(OutputFormat.Svg);
+        const outputFilePath = path.join(this.projectDownloadPath(), filename);
+        await this.compositeVector(imageLayers, outputFilePath, outputSettings);
+        return {
+          format: OutputFormat.Svg,
+          externalURL: await this.uploadFile(
+            outputFilePath,
+            filename,
+            OutputFormats.contentType(OutputFormat.Svg)
+          ),
+        };
+      }
+
+      outputSettings = { ...outputSettings, format: OutputFormat.Png };
     }
 
-    const sharp = require("sharp");
-    const firstPath = inputFilePaths.shift();
+    let sourceFilePath = compositeFilePath;
+    if (
+      vectorLayers.length > 0 &&
+      (outputSettings.width || outputSettings.height)
+    ) {
+      sourceFilePath = path.join(
+        this.projectDownloadPath(),
+        "composite-" + name + ".png"
+      );
+      const succeeded = await this.compositeImages(
+        imageLayers,
+        sourceFilePath,
+        outputSettings
+      );
+      if (!succeeded) {
+        return { format: outputSettings.format, externalURL: null };
+      }
+    }
+
+    return {
+      format: outputSettings.format,
+      externalURL: await this.uploadOutput(
+        sourceFilePath,
+        name + OutputFormats.extension(outputSettings.format),
+        outputSettings
+      ),
+    };
+  }
 
-    if (inputFilePaths.length == 0) {
-      return sharp(firstPath).png().toFile(outputFilePath);
+  /**
+   * encode a composite with the given output settings and upload it.
+   * encoding that fails throws, failing the item being rendered
+   *
+   * @returns the public url of the upload, or null if it failed
+   */
+  async uploadOutput(
+    compositeFilePath: string,
+    filename: string,
+    outputSettings: OutputSettings
+  ): Promise<string | null> {
+    let outputFilePath = compositeFilePath;
+
+    // a full size png is exactly what was composited
+    if (
+      outputSettings.format != OutputFormat.Png ||
+      outputSettings.width ||
+      outputSettings.height
+    ) {
+      outputFilePath = path.join(this.projectDownloadPath(), filename);
+
+      const sharp = require("sharp");
+      let image = sharp(compositeFilePath);
+
+      if (outputSettings.width || outputSettings.height) {
+        image = image.resize(
+          outputSettings.width ?? null,
+          outputSettings.height ?? null
+        );
+      }
+
+      const quality = outputSettings.quality ?? undefined;
+      switch (outputSettings.format) {
+        case OutputFormat.WebP:
+          image = image.webp({ quality: quality });
+          break;
+        case OutputFormat.Jpeg:
+          // jpeg has no transparency
+          image = image
+            .flatten({ background: "#ffffff" })
+            .jpeg({ quality: quality });
+          break;
+        default:
+          image = image.png();
+      }
+
+      await image.toFile(outputFilePath).catch((err: Error) => {
+        throw new Error("couldn't encode " + filename + ": " + err.message);
+      });
     }
 
-    const inputs = inputFilePaths.map((inputFilePath) => {
-      return { input: inputFilePath };
-    });
+    return this.uploadFile(
+      outputFilePath,
+      filename,
+      OutputFormats.contentType(outputSettings.format)
+    );
+  }
+
+  /**
+   * upload a file next to the rest of the composite group's items
+   *
+   * @returns the public url of the upload, or null if it failed
+   */
+  async uploadFile(
+    filePath: string,
+    filename: string,
+    contentType: string
+  ): Promise<string | null> {
+    const bucket = storage.bucket();
+    const uploadFilePath =
+      this.projectId +
+      "/" +
+      this.collectionId +
+      "/generated/" +
+      this.compositeGroupId +
+      "/" +
+      filename;
+
+    const uploadFile = bucket.file(uploadFilePath);
+
+    return bucket
+      .upload(filePath, {
+        destination: uploadFilePath,
+        metadata: {
+          contentType: contentType,
+        },
+      })
+      .then(() => {
+        return uploadFile.publicUrl();
+      })
+      .catch((err: Error) => {
+        logger.error("error uploading file to bucket");
+        logger.error(err);
+        return null;
+      });
+  }
+
+  /**
+   * stack the layers bottom to top onto a transparent canvas the size of
+   * the first layer (or scaled up or down to a given size), placing each
+   * layer and applying its blend mode and opacity. a layer placed outside
+   * of the canvas throws
+   */
+  async compositeImages(
+    optImageLayers: (ImageLayer | null)[],
+    outputFilePath: string,
+    size: Pick<OutputSettings, "width" | "height"> | null = null
+  ): Promise<Boolean> {
+    const imageLayers = optImageLayers.filter(
+      (imageLayer): imageLayer is ImageLayer => imageLayer != null
+    );
+    if (imageLayers.length == 0) {
+      return false;
+    }
+
+    const sharp = require("sharp");
+    const canvasSize = await this.compositeCanvasSize(imageLayers);
+    const renderScale = this.renderScale(
+      canvasSize.width,
+      canvasSize.height,
+      size
+    );
+    const width = Math.round(canvasSize.width * renderScale);
+    const height = Math.round(canvasSize.height * renderScale);
+
+    const inputs = await Promise.all(
+      imageLayers.map((imageLayer) =>
+        this.compositeInput(imageLayer, width, height, null, renderScale)
+      )
+    );
 
-    return sharp(firstPath)
+    return sharp({
+      create: {
+        width: width,
+        height: height,
+        channels: 4,
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      },
+    })
       .composite(inputs)
       .png()
       .toFile(outputFilePath)
@@ -683,13 +2055,413 @@ export class ArtworkGenerator {
       })
       .catch((err: Error) => {
         logger.error("error compositing");
-        logger.error("first path: " + firstPath);
-        logger.error(inputs);
+        logger.error(imageLayers.map((imageLayer) => imageLayer.id));
+        logger.error(err);
+        return false;
+      });
+  }
+
+  /**
+   * combine vector layers into a single svg, keeping every layer
+   * as its own embedded image so their ids can't clash
+   */
+  async compositeVector(
+    imageLayers: ImageLayer[],
+    outputFilePath: string,
+    size: Pick<OutputSettings, "width" | "height">
+  ): Promise<void> {
+    const sharp = require("sharp");
+    const { width, height } = await this.compositeCanvasSize(imageLayers);
+    const renderScale = this.renderScale(width, height, size);
+
+    const images = await Promise.all(
+      imageLayers.map(async (imageLayer) => {
+        const data: Buffer = await fs.promises.readFile(
+          this.downloadPathForImageLayer(imageLayer)
+        );
+        const metadata = await sharp(data).metadata();
+        const scale = ImageLayers.scale(imageLayer);
+        const layerWidth = metadata.width * scale;
+        const layerHeight = metadata.height * scale;
+
+        const { left, top } = ImageLayers.placement(
+          imageLayer,
+          layerWidth,
+          layerHeight,
+          width,
+          height
+        );
+        this.checkPlacement(
+          imageLayer,
+          left,
+          top,
+          layerWidth,
+          layerHeight,
+          width,
+          height
+        );
+
+        return (
+          '<image x="' +
+          left +
+          '" y="' +
+          top +
+          '" width="' +
+          layerWidth +
+          '" height="' +
+          layerHeight +
+          '" opacity="' +
+          ImageLayers.opacity(imageLayer) +
+          '" style="mix-blend-mode: ' +
+          ImageLayers.cssBlend(imageLayer) +
+          '" xlink:href="data:image/svg+xml;base64,' +
+          data.toString("base64") +
+          '"/>'
+        );
+      })
+    );
+
+    const svg =
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="' +
+      Math.round(width * renderScale) +
+      '" height="' +
+      Math.round(height * renderScale) +
+      '" viewBox="0 0 ' +
+      width +
+      " " +
+      height +
+      '">' +
+      images.join("") +
+      "</svg>";
+
+    await fs.promises.writeFile(outputFilePath, svg);
+  }
+
+  /**
+   * layers are placed on the collection's canvas, which loadCanvasSize
+   * resolves for the batch, since the bottom layer may be cropped or
+   * missing. the bottom layer's size is only a fallback for an item
+   * composited without a batch loading the canvas first
+   */
+  async compositeCanvasSize(
+    imageLayers: ImageLayer[]
+  ): Promise<{ width: number; height: number }> {
+    if (this.canvasSize) {
+      return this.canvasSize;
+    }
+
+    const sharp = require("sharp");
+    const { width, height } = await sharp(
+      this.downloadPathForImageLayer(imageLayers[0])
+    ).metadata();
+    return { width: width, height: height };
+  }
+
+  /**
+   * how much larger (or smaller) than the canvas to render so
+   * that the composite comes out at the given size
+   */
+  renderScale(
+    width: number,
+    height: number,
+    size: Pick<OutputSettings, "width" | "height"> | null
+  ): number {
+    if (size?.width) {
+      return size.width / width;
+    }
+    if (size?.height) {
+      return size.height / height;
+    }
+    return 1;
+  }
+
+  /**
+   * composite every frame of the layers, lining up the frames of all the
+   * animated layers, and write them out as one animated webp
+   *
+   * @returns false if none of the layers are animated, or encoding failed
+   */
+  async compositeAnimation(
+    optImageLayers: (ImageLayer | null)[],
+    outputFilePath: string,
+    outputSettings: OutputSettings
+  ): Promise<Boolean> {
+    const imageLayers = optImageLayers.filter(
+      (imageLayer): imageLayer is ImageLayer => imageLayer != null
+    );
+
+    const animations = await Promise.all(
+      imageLayers.map((imageLayer) => this.layerAnimation(imageLayer))
+    );
+    if (!animations.some((animation) => animation.isAnimated)) {
+      return false;
+    }
+
+    const sharp = require("sharp");
+    const { width, height } = await this.compositeCanvasSize(imageLayers);
+
+    const timeline = animationTimeline(animations, MAX_ANIMATION_FRAMES);
+
+    const frames: Buffer[] = [];
+    let frameWidth = width;
+    let frameHeight = height;
+    for (const animationFrame of timeline) {
+      const inputs = await Promise.all(
+        imageLayers.map((imageLayer, i) =>
+          this.compositeInput(
+            imageLayer,
+            width,
+            height,
+            animations[i].frames[animationFrame.frameIndexes[i]].input
+          )
+        )
+      );
+
+      // resizing has to happen after compositing, which sharp
+      // always does last, so it takes a second pass per frame
+      const composited = await sharp({
+        create: {
+          width: width,
+          height: height,
+          channels: 4,
+          background: { r: 0, g: 0, b: 0, alpha: 0 },
+        },
+      })
+        .composite(inputs)
+        .raw()
+        .toBuffer();
+
+      let frame = sharp(composited, {
+        raw: { width: width, height: height, channels: 4 },
+      });
+      if (outputSettings.width || outputSettings.height) {
+        frame = frame.resize(
+          outputSettings.width ?? null,
+          outputSettings.height ?? null
+        );
+      }
+
+      const { data, info } = await frame
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      frames.push(data);
+      frameWidth = info.width;
+      frameHeight = info.height;
+    }
+
+    // animated output is a single image with the frames stacked on top of each other
+    return sharp(Buffer.concat(frames), {
+      raw: {
+        width: frameWidth,
+        height: frameHeight * frames.length,
+        channels: 4,
+      },
+    })
+      .webp({
+        quality:
+          outputSettings.format == OutputFormat.WebP
+            ? outputSettings.quality ?? undefined
+            : undefined,
+        pageHeight: frameHeight,
+        loop: 0,
+        delay: timeline.map((animationFrame) => animationFrame.delay),
+      })
+      .toFile(outputFilePath)
+      .then((_: any) => {
+        return true;
+      })
+      .catch((err: Error) => {
+        logger.error("error encoding animation");
+        logger.error(imageLayers.map((imageLayer) => imageLayer.id));
         logger.error(err);
         return false;
       });
   }
 
+  /**
+   * the frames of a layer, loaded once per batch
+   */
+  layerAnimation(imageLayer: ImageLayer): Promise<LayerAnimation> {
+    if (!this.layerAnimations[imageLayer.id]) {
+      this.layerAnimations[imageLayer.id] = LayerAnimation.load(
+        this.downloadPathForImageLayer(imageLayer)
+      );
+    }
+    return this.layerAnimations[imageLayer.id];
+  }
+
+  /**
+   * swap every tintable layer for a copy tinted with the colour of the
+   * value picked for its tint trait. layers whose tint trait has no
+   * value, or a value without a tint, are left as they are
+   */
+  tintImageLayers(
+    imageLayers: ImageLayer[],
+    traitValuePairs: TraitValuePair[]
+  ): Promise<ImageLayer[]> {
+    return Promise.all(
+      imageLayers.map((imageLayer) => {
+        const traitValue = imageLayer.tintTraitId
+          ? traitValuePairs.find(
+              (pair) => pair.trait.id == imageLayer.tintTraitId
+            )?.traitValue
+          : null;
+
+        return traitValue?.tintColor
+          ? this.tintedLayer(imageLayer, traitValue)
+          : imageLayer;
+      })
+    );
+  }
+
+  /**
+   * tint a layer into a file of its own, once per batch for each value.
+   * tinting keeps the layer's luminance, so shading drawn in greys
+   * carries over to every colour. animated gifs and webps keep their frames
+   */
+  tintedLayer(
+    imageLayer: ImageLayer,
+    traitValue: TraitValue
+  ): Promise<ImageLayer> {
+    const tintedLayer = ImageLayers.tintedLayer(imageLayer, traitValue);
+
+    if (!this.tintedLayers[tintedLayer.id]) {
+      const sharp = require("sharp");
+      const inputFilePath = this.downloadPathForImageLayer(imageLayer);
+
+      this.tintedLayers[tintedLayer.id] = sharp(inputFilePath)
+        .metadata()
+        .then((metadata: { pages?: number }) => {
+          const image =
+            (metadata.pages ?? 1) > 1
+              ? sharp(inputFilePath, { pages: -1 })
+                  .tint(traitValue.tintColor)
+                  .webp({ lossless: true })
+              : sharp(inputFilePath).tint(traitValue.tintColor).png();
+
+          return image.toFile(this.downloadPathForImageLayer(tintedLayer));
+        })
+        .then(() => tintedLayer);
+    }
+
+    return this.tintedLayers[tintedLayer.id];
+  }
+
+  /**
+   * the sharp composite entry for a layer (or one frame of an animated
+   * layer). sharp has no opacity option, so a partially transparent
+   * layer has its alpha scaled down first
+   */
+  async compositeInput(
+    imageLayer: ImageLayer,
+    canvasWidth: number,
+    canvasHeight: number,
+    frameInput: string | Buffer | null = null,
+    renderScale: number = 1
+  ): Promise<{
+    input: string | Buffer;
+    blend: string;
+    left: number;
+    top: number;
+  }> {
+    const sharp = require("sharp");
+    const inputFilePath =
+      frameInput ?? this.downloadPathForImageLayer(imageLayer);
+    const blend = ImageLayers.sharpBlend(imageLayer);
+    const opacity = ImageLayers.opacity(imageLayer);
+    const scale = ImageLayers.scale(imageLayer) * renderScale;
+
+    const metadata = await sharp(inputFilePath).metadata();
+    const width = Math.max(1, Math.round(metadata.width * scale));
+    const height = Math.max(1, Math.round(metadata.height * scale));
+
+    const { left, top } = ImageLayers.placement(
+      imageLayer,
+      width,
+      height,
+      canvasWidth,
+      canvasHeight,
+      renderScale
+    );
+    this.checkPlacement(
+      imageLayer,
+      left,
+      top,
+      width,
+      height,
+      canvasWidth,
+      canvasHeight
+    );
+
+    if (scale == 1 && opacity >= 1) {
+      return { input: inputFilePath, blend: blend, left: left, top: top };
+    }
+
+    // render vectors at the size they're needed rather than scaling pixels
+    let image = ImageLayers.isVector(imageLayer)
+      ? sharp(inputFilePath, { density: VECTOR_DENSITY * scale }).ensureAlpha()
+      : sharp(inputFilePath).ensureAlpha();
+
+    if (scale != 1) {
+      image = image.resize(width, height, { fit: "fill" });
+    }
+
+    if (opacity < 1) {
+      image = image.composite([
+        {
+          input: Buffer.from([255, 255, 255, Math.round(opacity * 255)]),
+          raw: { width: 1, height: 1, channels: 4 },
+          tile: true,
+          blend: "dest-in",
+        },
+      ]);
+    }
+
+    const input = await image.png().toBuffer();
+
+    return { input: input, blend: blend, left: left, top: top };
+  }
+
+  /**
+   * a layer placed outside of the canvas is a mistake in its settings
+   * rather than something retrying can fix, so this throws, failing
+   * the item being rendered
+   */
+  checkPlacement(
+    imageLayer: ImageLayer,
+    left: number,
+    top: number,
+    width: number,
+    height: number,
+    canvasWidth: number,
+    canvasHeight: number
+  ) {
+    if (
+      left < 0 ||
+      top < 0 ||
+      left + width > canvasWidth ||
+      top + height > canvasHeight
+    ) {
+      throw new Error(
+        "image layer " +
+          imageLayer.name +
+          " (" +
+          width +
+          "x" +
+          height +
+          " at " +
+          left +
+          ", " +
+          top +
+          ") falls outside of the " +
+          canvasWidth +
+          "x" +
+          canvasHeight +
+          " canvas"
+      );
+    }
+  }
+
   projectDownloadPath(): string {
     return path.join(tempDir, "treattoolbox", this.projectId);
   }
@@ -697,4 +2469,8 @@ export class ArtworkGenerator {
   layerDownloadPath(): string {
     return path.join(this.projectDownloadPath(), "layered-images");
   }
+
+  fontDownloadPath(): string {
+    return path.join(tempDir, "treattoolbox", "fonts");
+  }
 }
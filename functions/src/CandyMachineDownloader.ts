@@ -4,17 +4,22 @@ import {
   Collections,
   ImageComposite,
   ImageComposites,
+  ImageCompositeGroups,
+  OutputFormats,
   Projects,
   Users
 } from "../models/models";
 import { storage } from "../models/firebase";
 import { CandyMachine } from "../models/candymachine";
+import { SeededRandom } from "./SeededRandom";
 
 export class CandyMachineDownloader {
   projectId: string;
   collectionId: string;
   compositeGroupId: string;
   userGroupId: string;
+  seed: string | null;
+  omitNoneAttributes: boolean;
 
   archiver = require("archiver");
 
@@ -22,15 +27,29 @@ export class CandyMachineDownloader {
     projectId: string,
     collectionId: string,
     compositeGroupId: string,
-    userGroupId: string
+    userGroupId: string,
+    seed: string | null = null,
+    omitNoneAttributes: boolean = false
   ) {
     this.projectId = projectId;
     this.collectionId = collectionId;
     this.compositeGroupId = compositeGroupId;
     this.userGroupId = userGroupId;
+    this.seed = seed;
+    this.omitNoneAttributes = omitNoneAttributes;
   }
 
   async download(): Promise<string> {
+    const compositeGroup = await ImageCompositeGroups.withId(
+      this.compositeGroupId,
+      this.projectId,
+      this.collectionId
+    );
+
+    if (compositeGroup.isPartial) {
+      throw new Error("composite group was only partially generated");
+    }
+
     logger.info("beginning downloads for archive");
     const bucket = storage.bucket();
 
@@ -67,9 +86,22 @@ export class CandyMachineDownloader {
       this.compositeGroupId
     );
 
+    // put composites back in generation order so that
+    // the shuffle below only depends on the seed
+    composites.sort((a, b) => {
+      const itemIndexA = this.itemIndexForComposite(a);
+      const itemIndexB = this.itemIndexForComposite(b);
+      if (itemIndexA == itemIndexB) return 0;
+      return itemIndexA < itemIndexB ? -1 : 1;
+    });
+
+    const seed = this.seed ?? compositeGroup.seed ?? uuidv4();
+    const random = new SeededRandom(seed).derive("shuffle");
+    logger.info("shuffling with seed: " + seed);
+
     // shuffle the order of the array
     const shuffledIndexes = [...composites.keys()]
-      .map((value) => ({ value, sort: Math.random() }))
+      .map((value) => ({ value, sort: random.next() }))
       .sort((a, b) => a.sort - b.sort)
       .map(({ value }) => value);
 
@@ -84,7 +116,8 @@ export class CandyMachineDownloader {
       const composite = composites[randomCompositeNumber];
 
       const compositeDownloadPath = this.pathForComposite(composite);
-      const compositeFilename = orderNumber + ".png";
+      const compositeFilename =
+        orderNumber + OutputFormats.extension(composite.format);
 
       // create metadata json file
       const isSuccessful = await CandyMachine.exportItem(
@@ -93,7 +126,8 @@ export class CandyMachineDownloader {
         creators,
         collection,
         this.compositeGroupId,
-        composite
+        composite,
+        this.omitNoneAttributes
       );
 
       if (!isSuccessful) {
@@ -109,6 +143,36 @@ export class CandyMachineDownloader {
         name: archiveDir + "/" + compositeFilename,
       });
 
+      if (composite.animationURL) {
+        const animationFile = await bucket
+          .file(this.pathForURL(composite.animationURL))
+          .download({ validation: false });
+
+        archive.append(animationFile[0], {
+          name:
+            archiveDir +
+            "/" +
+            CandyMachine.animationFilenameForItem(orderNumber),
+        });
+      }
+
+      for (const rendition of composite.renditions ?? []) {
+        if (!rendition.externalURL) {
+          continue;
+        }
+
+        const renditionFile = await bucket
+          .file(this.pathForURL(rendition.externalURL))
+          .download({ validation: false });
+
+        archive.append(renditionFile[0], {
+          name:
+            archiveDir +
+            "/" +
+            CandyMachine.renditionFilename(orderNumber, rendition),
+        });
+      }
+
       const metadataPath = this.pathForCandyMachineMetadata(orderNumber);
       const metadataFilename = orderNumber + ".json";
 
@@ -143,8 +207,22 @@ export class CandyMachineDownloader {
     return promise;
   }
 
-  pathForComposite(composite: ImageComposite): string {
+  itemIndexForComposite(composite: ImageComposite): number {
+    // composites generated before the index was stored only have it in their filename
+    if (composite.itemIndex !== undefined) {
+      return composite.itemIndex;
+    }
+
     const generatedFilename = composite.externalURL?.split("/").pop();
+    return parseInt(generatedFilename?.split(".").shift() ?? "-1");
+  }
+
+  pathForComposite(composite: ImageComposite): string {
+    return this.pathForURL(composite.externalURL);
+  }
+
+  pathForURL(externalURL: string | null): string {
+    const generatedFilename = externalURL?.split("/").pop();
 
     const compositeFilePath =
       this.projectId +
@@ -0,0 +1,351 @@
+import {
+  Conflict,
+  ConflictResolutionType,
+  Conflicts,
+  ImageLayers,
+  Requirement,
+  Requirements,
+  Trait,
+  Traits,
+  TraitSet,
+  TraitValue,
+  TraitValues,
+} from "../models/models";
+
+// key used for a trait that ends up with no value
+const NONE_KEY = "-1";
+
+// above this many conflicts between duplicate detected traits the exact
+// count gets too expensive, so fall back to a conservative estimate
+const MAX_EXACT_CONFLICTS = 16;
+
+export interface TraitSetCapacity {
+  traitSetId: string | null;
+  traitSetName: string;
+  supply: number;
+  capacity: number;
+  isEstimate: boolean;
+}
+
+// the values every trait has to have for a combination to match
+interface ConflictConstraint {
+  values: { [traitId: string]: Set<string> };
+}
+
+/**
+ * calculates how many distinct trait combinations (by traitsHash) a trait
+ * set can actually produce, so that we know ahead of time whether
+ * generation will run out of unique combinations before reaching its supply
+ */
+export class CapacityCalculator {
+  projectId: string;
+  collectionId: string;
+
+  constructor(projectId: string, collectionId: string) {
+    this.projectId = projectId;
+    this.collectionId = collectionId;
+  }
+
+  async capacityForTraitSet(
+    traitSet: TraitSet,
+    supply: number
+  ): Promise<TraitSetCapacity> {
+    const traitSetId = traitSet.id == "-1" ? null : traitSet.id;
+
+    const result = await Promise.all([
+      Traits.all(this.projectId, this.collectionId, traitSetId),
+      ImageLayers.all(this.projectId, this.collectionId, traitSetId),
+      Conflicts.all(this.projectId, this.collectionId, traitSetId),
+      Requirements.all(this.projectId, this.collectionId, traitSetId),
+    ]);
+
+    const traits = result[0];
+    const imageLayers = result[1];
+    const conflicts = result[2];
+    const requirements = result[3];
+
+    // values without artwork in this trait set are never picked
+    const valuesWithImagesInTraitSet = imageLayers
+      .map((imageLayer) => imageLayer.traitValueId)
+      .filter((traitValueId): traitValueId is string => traitValueId != null);
+
+    const traitValues: { [traitId: string]: TraitValue[] } = {};
+    for (let i = 0; i < traits.length; i++) {
+      const trait = traits[i];
+      traitValues[trait.id] = await TraitValues.all(
+        this.projectId,
+        this.collectionId,
+        trait,
+        valuesWithImagesInTraitSet,
+        [],
+        traitSetId
+      );
+    }
+
+    const capacity = this.capacity(
+      traits,
+      traitValues,
+      conflicts,
+      requirements
+    );
+
+    return {
+      traitSetId: traitSetId,
+      traitSetName: traitSet.name,
+      supply: supply,
+      capacity: capacity.capacity,
+      isEstimate: capacity.isEstimate,
+    } as TraitSetCapacity;
+  }
+
+  capacity(
+    traits: Trait[],
+    traitValues: { [traitId: string]: TraitValue[] },
+    conflicts: Conflict[],
+    requirements: Requirement[] = []
+  ): { capacity: number; isEstimate: boolean } {
+    // only these traits contribute to the traitsHash
+    const hashedTraits = traits.filter(
+      (trait) => !trait.isAlwaysUnique && !trait.excludeFromDuplicateDetection
+    );
+    const isHashed = (traitId: string) =>
+      hashedTraits.find((trait) => trait.id == traitId) !== undefined;
+
+    const options: { [traitId: string]: Set<string> } = {};
+    hashedTraits.forEach((trait) => {
+      const values = traitValues[trait.id] ?? [];
+      const { noneRarity, valueScale } = Traits.noneRarity(trait, values);
+      options[trait.id] = new Set(
+        values
+          .filter((value) => value.rarity * valueScale > 0)
+          .map((value) => value.id)
+      );
+
+      // rarities not adding up to 1 (or an explicit chance of none)
+      // leave room for no value at all
+      if (noneRarity > Number.EPSILON) {
+        options[trait.id].add(NONE_KEY);
+      }
+    });
+
+    // conflicts resolved by dropping a value allow for no value at all,
+    // and some conflicts rule a value out of every combination
+    conflicts.forEach((conflict) => {
+      const conditions = Conflicts.conditions(conflict);
+      const resolvedTraitId = Conflicts.resolutionTraitId(conflict);
+      const resolvedCondition = conditions.find(
+        (condition) => condition.traitId == resolvedTraitId
+      );
+
+      if (!resolvedCondition || !isHashed(resolvedTraitId)) {
+        return;
+      }
+
+      const resolvedValueId = resolvedCondition.traitValueId;
+
+      if (Conflicts.resolvesToNone(conflict)) {
+        options[resolvedTraitId].add(NONE_KEY);
+      }
+
+      // even a value too rare to be picked can be set by a conflict
+      const resolutionValue = (traitValues[resolvedTraitId] ?? []).find(
+        (value) => value.id == conflict.resolutionTraitValueId
+      );
+      if (
+        conflict.resolutionType == ConflictResolutionType.TraitValue &&
+        resolutionValue
+      ) {
+        options[resolvedTraitId].add(resolutionValue.id);
+      }
+
+      // when the other side isn't part of the hash, we can only be sure the
+      // conflict always fires if it matches any value of traits every item
+      // has, and that are never left without a value
+      const otherConditions = conditions.filter(
+        (condition) => condition !== resolvedCondition
+      );
+      const isAlwaysMatched = otherConditions.every((condition) => {
+        const trait = traits.find((trait) => trait.id == condition.traitId);
+        return (
+          !isHashed(condition.traitId) &&
+          trait !== undefined &&
+          condition.traitValueId === null &&
+          Traits.noneRarity(trait, traitValues[trait.id] ?? []).noneRarity <=
+            Number.EPSILON
+        );
+      });
+
+      if (otherConditions.length > 0 && isAlwaysMatched) {
+        this.matchingValues(options[resolvedTraitId], resolvedValueId).forEach(
+          (valueId) => {
+            if (valueId != NONE_KEY) {
+              options[resolvedTraitId].delete(valueId);
+            }
+          }
+        );
+      }
+    });
+
+    const constraints: ConflictConstraint[] = conflicts
+      .map((conflict) => Conflicts.conditions(conflict))
+      .filter((conditions) =>
+        conditions.every((condition) => isHashed(condition.traitId))
+      )
+      .map((conditions) => {
+        const values: { [traitId: string]: Set<string> } = {};
+        conditions.forEach((condition) => {
+          values[condition.traitId] = this.intersection(
+            values[condition.traitId] ?? options[condition.traitId],
+            this.matchingValues(
+              options[condition.traitId],
+              condition.traitValueId
+            )
+          );
+        });
+        return { values: values };
+      });
+
+    // a requirement rules out every combination pairing its condition
+    // with a value outside of the ones it requires, just like a conflict
+    requirements
+      .filter(
+        (requirement) =>
+          isHashed(requirement.traitId) && isHashed(requirement.requiredTraitId)
+      )
+      .forEach((requirement) => {
+        const conditionValues = this.matchingValues(
+          options[requirement.traitId],
+          requirement.traitValueId
+        );
+        conditionValues.delete(NONE_KEY);
+
+        const requiredValues = requirement.requiredTraitValueIds.map(
+          (traitValueId) => traitValueId ?? NONE_KEY
+        );
+        const disallowedValues = new Set(
+          [...options[requirement.requiredTraitId]].filter(
+            (valueId) => !requiredValues.includes(valueId)
+          )
+        );
+
+        const values: { [traitId: string]: Set<string> } = {};
+        values[requirement.traitId] = conditionValues;
+        values[requirement.requiredTraitId] = this.intersection(
+          values[requirement.requiredTraitId] ?? disallowedValues,
+          disallowedValues
+        );
+        constraints.push({ values: values });
+      });
+
+    // combinations that contain a conflicting pair never survive generation
+    // as-is, so count the conflict free ones using inclusion-exclusion
+    const isEstimate = constraints.length > MAX_EXACT_CONFLICTS;
+    const capacity = isEstimate
+      ? this.estimatedCount(options, constraints)
+      : this.exactCount(options, constraints, 0, {}, 0);
+
+    // always unique traits can only supply one item per value
+    let alwaysUniqueCapacity = Infinity;
+    traits.forEach((trait) => {
+      if (trait.isAlwaysUnique) {
+        alwaysUniqueCapacity = Math.min(
+          alwaysUniqueCapacity,
+          (traitValues[trait.id] ?? []).length
+        );
+      }
+    });
+
+    return {
+      capacity: Math.max(0, Math.min(capacity, alwaysUniqueCapacity)),
+      isEstimate: isEstimate,
+    };
+  }
+
+  matchingValues(options: Set<string>, valueId: string | null): Set<string> {
+    // a conflict on "any" value doesn't match a trait with no value
+    if (valueId === null) {
+      return new Set([...options].filter((option) => option != NONE_KEY));
+    }
+    return new Set(options.has(valueId) ? [valueId] : []);
+  }
+
+  /**
+   * number of combinations, restricting every trait to the values
+   * required by all of the conflicts currently included
+   */
+  countCombinations(
+    options: { [traitId: string]: Set<string> },
+    restrictions: { [traitId: string]: Set<string> }
+  ): number {
+    return Object.keys(options).reduce((total, traitId) => {
+      const restriction = restrictions[traitId];
+      return total * (restriction ?? options[traitId]).size;
+    }, 1);
+  }
+
+  exactCount(
+    options: { [traitId: string]: Set<string> },
+    constraints: ConflictConstraint[],
+    constraintIndex: number,
+    restrictions: { [traitId: string]: Set<string> },
+    includedCount: number
+  ): number {
+    if (constraintIndex == constraints.length) {
+      const sign = includedCount % 2 == 0 ? 1 : -1;
+      return sign * this.countCombinations(options, restrictions);
+    }
+
+    const excluded = this.exactCount(
+      options,
+      constraints,
+      constraintIndex + 1,
+      restrictions,
+      includedCount
+    );
+
+    const constraint = constraints[constraintIndex];
+    const included = { ...restrictions };
+    Object.keys(constraint.values).forEach((traitId) => {
+      included[traitId] = this.intersection(
+        included[traitId] ?? options[traitId],
+        constraint.values[traitId]
+      );
+    });
+
+    // no combination can match every included conflict,
+    // and so neither can any larger set of them
+    if (
+      Object.keys(constraint.values).some(
+        (traitId) => included[traitId].size == 0
+      )
+    ) {
+      return excluded;
+    }
+
+    return (
+      excluded +
+      this.exactCount(
+        options,
+        constraints,
+        constraintIndex + 1,
+        included,
+        includedCount + 1
+      )
+    );
+  }
+
+  estimatedCount(
+    options: { [traitId: string]: Set<string> },
+    constraints: ConflictConstraint[]
+  ): number {
+    // subtracting every conflict on its own double counts combinations
+    // with several conflicts, so this never overstates the capacity
+    return constraints.reduce((total, constraint) => {
+      return total - this.countCombinations(options, constraint.values);
+    }, this.countCombinations(options, {}));
+  }
+
+  intersection(a: Set<string>, b: Set<string>): Set<string> {
+    return new Set([...a].filter((value) => b.has(value)));
+  }
+}
@@ -0,0 +1,299 @@
+import { logger } from "firebase-functions";
+import { v4 as uuidv4 } from "uuid";
+import { storage } from "../models/firebase";
+import {
+  BlendMode,
+  ColorMapping,
+  ColorVariant,
+  ColorVariantType,
+  ImageLayer,
+  ImageLayers,
+  LayerAnchor,
+  TraitValues,
+} from "../models/models";
+
+const path = require("path");
+const os = require("os");
+const fs = require("fs");
+const tempDir = os.tmpdir();
+
+/**
+ * recolour a base layer into each of its colour variants, giving every
+ * variant an image layer and trait value of its own. variants that were
+ * generated before are redrawn in place (keeping their trait value, so
+ * rarities and conflicts set on it stay), and the layers and values of
+ * variants removed from the palette are deleted. new variants' values
+ * start at a rarity of 0, since copying the base value's rarity onto
+ * each of them would push the trait's rarities over 1
+ *
+ * @returns the variant layers, or null if the layer can't be recoloured
+ */
+export async function generateColorVariants(
+  projectId: string,
+  collectionId: string,
+  imageLayerId: string
+): Promise<ImageLayer[] | null> {
+  const baseLayer = await ImageLayers.withId(
+    imageLayerId,
+    projectId,
+    collectionId
+  );
+
+  // the variants are values of the base layer's trait
+  if (!baseLayer || baseLayer.baseLayerId || !baseLayer.traitId) {
+    logger.warn("can't generate colour variants of " + imageLayerId);
+    return null;
+  }
+  const traitId = baseLayer.traitId;
+
+  const workPath = path.join(
+    tempDir,
+    "treattoolbox",
+    projectId,
+    collectionId,
+    "variants",
+    baseLayer.id
+  );
+  await fs.promises.mkdir(workPath, { recursive: true });
+
+  // the downloaded and recoloured files are removed however this ends
+  try {
+    const baseFilePath = path.join(workPath, baseLayer.bucketFilename);
+    await storage
+      .bucket()
+      .file(projectId + "/" + collectionId + "/" + baseLayer.bucketFilename)
+      .download({ destination: baseFilePath, validation: false });
+
+    // recolouring works on pixels, which would flatten
+    // an animation or rasterize a vector
+    const sharp = require("sharp");
+    const metadata = await sharp(baseFilePath).metadata();
+    if ((metadata.pages ?? 1) > 1 || metadata.format == "svg") {
+      logger.warn(baseLayer.name + " is animated or a vector");
+      return null;
+    }
+
+    const variants = baseLayer.colorVariants ?? [];
+    const existingLayers = await ImageLayers.variants(
+      baseLayer.id,
+      projectId,
+      collectionId
+    );
+
+    const removedLayers = existingLayers.filter(
+      (imageLayer) =>
+        !variants.some((variant) => variant.id == imageLayer.colorVariantId)
+    );
+    for (const imageLayer of removedLayers) {
+      await removeVariantLayer(imageLayer, projectId, collectionId);
+    }
+
+    const variantLayers: ImageLayer[] = [];
+    for (const variant of variants) {
+      const existingLayer =
+        existingLayers.find(
+          (imageLayer) => imageLayer.colorVariantId == variant.id
+        ) ?? null;
+
+      // a new file each time, so that browsers don't show the old colours
+      const bucketFilename = uuidv4() + ".png";
+      const filePath = path.join(workPath, bucketFilename);
+      await recolor(baseFilePath, variant, filePath);
+
+      const uploadPath = projectId + "/" + collectionId + "/" + bucketFilename;
+      await storage.bucket().upload(filePath, {
+        destination: uploadPath,
+        metadata: { contentType: "image/png" },
+      });
+      const stats = await fs.promises.stat(filePath);
+
+      // the value is kept for as long as the layer stays on the same trait
+      const existingTraitValue =
+        existingLayer?.traitId == traitId && existingLayer.traitValueId
+          ? await TraitValues.withId(
+              existingLayer.traitValueId,
+              traitId,
+              projectId,
+              collectionId
+            )
+          : null;
+
+      let traitValueId: string;
+      if (existingTraitValue) {
+        traitValueId = existingTraitValue.id;
+        await TraitValues.update(
+          { name: variant.name },
+          traitValueId,
+          traitId,
+          projectId,
+          collectionId
+        );
+      } else {
+        const traitValue = await TraitValues.create(
+          { name: variant.name, rarity: 0 },
+          traitId,
+          projectId,
+          collectionId
+        );
+        traitValueId = traitValue.id;
+      }
+
+      // variants are placed the same way as their base layer,
+      // so moving the base moves all of them
+      const variantLayer = {
+        bucketFilename: bucketFilename,
+        url: storage.bucket().file(uploadPath).publicUrl(),
+        name: path.parse(baseLayer.name).name + "-" + variant.name + ".png",
+        bytes: stats.size,
+        traitSetId: baseLayer.traitSetId,
+        traitId: traitId,
+        traitValueId: traitValueId,
+        companionLayerId: baseLayer.companionLayerId ?? null,
+        companionLayerZIndex: baseLayer.companionLayerZIndex ?? null,
+        blendMode: baseLayer.blendMode ?? BlendMode.Normal,
+        opacity: ImageLayers.opacity(baseLayer),
+        offsetX: baseLayer.offsetX ?? 0,
+        offsetY: baseLayer.offsetY ?? 0,
+        scale: ImageLayers.scale(baseLayer),
+        anchor: baseLayer.anchor ?? LayerAnchor.TopLeft,
+        tintTraitId: baseLayer.tintTraitId ?? null,
+        baseLayerId: baseLayer.id,
+        colorVariantId: variant.id,
+      };
+
+      if (existingLayer) {
+        await ImageLayers.update(
+          variantLayer,
+          existingLayer.id,
+          projectId,
+          collectionId
+        );
+        await removeBucketFile(
+          existingLayer.bucketFilename,
+          projectId,
+          collectionId
+        );
+        variantLayers.push({ ...variantLayer, id: existingLayer.id });
+      } else {
+        variantLayers.push(
+          await ImageLayers.create(variantLayer, projectId, collectionId)
+        );
+      }
+    }
+
+    return variantLayers;
+  } finally {
+    await fs.promises.rmdir(workPath, { recursive: true });
+  }
+}
+
+/**
+ * draw the base layer in a variant's colours, either rotating the hue
+ * of every pixel or swapping exact colours and leaving the rest alone
+ */
+async function recolor(
+  inputPath: string,
+  variant: ColorVariant,
+  outputPath: string
+) {
+  const sharp = require("sharp");
+
+  if (variant.type == ColorVariantType.HueShift) {
+    const hue = ((Math.round(variant.hueShift) % 360) + 360) % 360;
+    await sharp(inputPath).modulate({ hue: hue }).png().toFile(outputPath);
+    return;
+  }
+
+  const colorMap = colorLookup(variant.colorMap);
+  const { data, info } = await sharp(inputPath)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  for (let offset = 0; offset < data.length; offset += 4) {
+    // fully transparent pixels have no colour to speak of
+    if (data[offset + 3] == 0) {
+      continue;
+    }
+
+    const target =
+      colorMap[
+        (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2]
+      ];
+    if (target !== undefined) {
+      data[offset] = (target >> 16) & 0xff;
+      data[offset + 1] = (target >> 8) & 0xff;
+      data[offset + 2] = target & 0xff;
+    }
+  }
+
+  await sharp(data, {
+    raw: { width: info.width, height: info.height, channels: 4 },
+  })
+    .png()
+    .toFile(outputPath);
+}
+
+/**
+ * colours packed into 24 bit numbers, skipping mappings that aren't hex colours
+ */
+function colorLookup(colorMap: ColorMapping[]): { [source: number]: number } {
+  const lookup: { [source: number]: number } = {};
+  colorMap.forEach((mapping) => {
+    const source = parseColor(mapping.source);
+    const target = parseColor(mapping.target);
+    if (source != null && target != null) {
+      lookup[source] = target;
+    }
+  });
+  return lookup;
+}
+
+function parseColor(color: string): number | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) {
+    return null;
+  }
+
+  const hex =
+    match[1].length == 3
+      ? match[1]
+          .split("")
+          .map((digit) => digit + digit)
+          .join("")
+      : match[1];
+  return parseInt(hex, 16);
+}
+
+async function removeVariantLayer(
+  imageLayer: ImageLayer,
+  projectId: string,
+  collectionId: string
+) {
+  await ImageLayers.remove(imageLayer.id, projectId, collectionId);
+  await removeBucketFile(imageLayer.bucketFilename, projectId, collectionId);
+
+  if (imageLayer.traitId && imageLayer.traitValueId) {
+    await TraitValues.remove(
+      imageLayer.traitValueId,
+      imageLayer.traitId,
+      projectId,
+      collectionId
+    );
+  }
+}
+
+async function removeBucketFile(
+  bucketFilename: string,
+  projectId: string,
+  collectionId: string
+) {
+  await storage
+    .bucket()
+    .file(projectId + "/" + collectionId + "/" + bucketFilename)
+    .delete()
+    .catch((err: Error) => {
+      logger.error("failed to delete " + bucketFilename);
+      logger.error(err);
+    });
+}
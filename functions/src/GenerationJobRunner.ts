@@ -0,0 +1,348 @@
+import { logger } from "firebase-functions";
+import {
+  Collections,
+  GenerationJob,
+  GenerationJobBatch,
+  GenerationJobFailure,
+  GenerationJobs,
+  GenerationJobStatus,
+  ImageComposite,
+  ImageCompositeGroups,
+  TraitSets,
+} from "../models/models";
+import { ArtworkGenerator } from "./ArtworkGenerator";
+import { reserveOneOfOnes } from "./OneOfOneReserver";
+
+/**
+ * split the collection's supply into batches, walking through the
+ * trait sets in order until the supply runs out. generation jobs and
+ * the generation preview both plan their runs this way
+ *
+ * @returns every batch of the run, in order
+ */
+export async function planBatches(
+  projectId: string,
+  collectionId: string,
+  batchSize: number
+): Promise<GenerationJobBatch[]> {
+  const collection = await Collections.withId(collectionId, projectId);
+
+  let traitSets = await TraitSets.all(projectId, collectionId);
+  if (traitSets.length == 0) {
+    traitSets = [{ id: "-1", name: "Default", supply: collection.supply }];
+  }
+
+  const batches: GenerationJobBatch[] = [];
+
+  let totalPlanned = 0;
+  for (let i = 0; i < traitSets.length; i++) {
+    const traitSet = traitSets[i];
+    const supply = Math.min(traitSet.supply, collection.supply - totalPlanned);
+
+    if (supply <= 0) {
+      break;
+    }
+
+    for (let start = 0; start < supply; start += batchSize) {
+      batches.push({
+        traitSetId: traitSet.id,
+        traitSetName: traitSet.name,
+        startIndex: totalPlanned + start,
+        endIndex: totalPlanned + Math.min(start + batchSize, supply),
+        isFirstBatchInTraitSet: start == 0,
+      });
+    }
+
+    totalPlanned += supply;
+  }
+
+  return batches;
+}
+
+/**
+ * plan every batch of a generation run up front, so that progress
+ * can be tracked (and resumed) against a fixed set of item indexes
+ */
+export async function createGenerationJob(
+  projectId: string,
+  collectionId: string,
+  compositeGroupId: string,
+  batchSize: number
+): Promise<GenerationJob> {
+  const batches = await planBatches(projectId, collectionId, batchSize);
+
+  const traitSetCompositeCounts: { [traitSetId: string]: number } = {};
+  batches.forEach((batch) => {
+    traitSetCompositeCounts[batch.traitSetId] = 0;
+  });
+  const totalPlanned =
+    batches.length > 0 ? batches[batches.length - 1].endIndex : 0;
+
+  // the group can't be exported until a job generating it completes,
+  // including when this one fails or is abandoned part way through
+  await ImageCompositeGroups.update(
+    { isPartial: batches.length > 0 },
+    compositeGroupId,
+    projectId,
+    collectionId
+  );
+
+  // one of ones are saved before anything is generated,
+  // so every batch skips the items they take up
+  await reserveOneOfOnes(projectId, collectionId, compositeGroupId, batches);
+
+  const status =
+    batches.length == 0
+      ? GenerationJobStatus.Complete
+      : GenerationJobStatus.Pending;
+
+  return GenerationJobs.create(
+    {
+      compositeGroupId: compositeGroupId,
+      status: status,
+      supply: totalPlanned,
+      batches: batches,
+      nextBatchIndex: 0,
+      nextItemIndex: 0,
+      traitSetCompositeCounts: traitSetCompositeCounts,
+      failures: [] as GenerationJobFailure[],
+      runningSince: null,
+    } as GenerationJob,
+    projectId,
+    collectionId
+  );
+}
+
+/**
+ * generate the next batch of a job that hasn't been confirmed yet.
+ * a batch that was interrupted part way through is generated again,
+ * skipping over any of its items that were already saved
+ *
+ * @returns the updated job, or null if the job is already running elsewhere
+ */
+export async function runGenerationJob(
+  projectId: string,
+  collectionId: string,
+  generationJobId: string
+): Promise<GenerationJob | null> {
+  const generationJob = await GenerationJobs.claim(
+    generationJobId,
+    projectId,
+    collectionId
+  );
+
+  if (!generationJob) {
+    return null;
+  }
+
+  if (
+    generationJob.status == GenerationJobStatus.Complete ||
+    generationJob.status == GenerationJobStatus.Cancelled
+  ) {
+    return generationJob;
+  }
+
+  const batch = generationJob.batches[generationJob.nextBatchIndex];
+
+  logger.info(
+    "Run generation job: " +
+      generationJobId +
+      " batch: " +
+      generationJob.nextBatchIndex +
+      " (" +
+      batch.startIndex +
+      " - " +
+      batch.endIndex +
+      ")"
+  );
+
+  const artworkGenerator = new ArtworkGenerator(
+    projectId,
+    collectionId,
+    generationJob.compositeGroupId,
+    batch.traitSetId,
+    batch.startIndex,
+    batch.endIndex,
+    batch.endIndex - batch.startIndex,
+    batch.isFirstBatchInTraitSet
+  );
+  artworkGenerator.generationJobId = generationJobId;
+
+  let composites: (ImageComposite | null)[];
+  try {
+    composites = await artworkGenerator.generate();
+  } catch (err) {
+    await failGenerationJob(
+      generationJob,
+      [
+        {
+          startIndex: batch.startIndex,
+          endIndex: batch.endIndex,
+          message: err instanceof Error ? err.message : String(err),
+          failedAt: Date.now(),
+        },
+      ],
+      projectId,
+      collectionId
+    );
+
+    throw err;
+  }
+
+  if (artworkGenerator.isCancelled) {
+    // the job was already marked as cancelled, just record how far it got
+    const traitSetCompositeCounts = {
+      ...generationJob.traitSetCompositeCounts,
+    };
+    traitSetCompositeCounts[batch.traitSetId] =
+      (traitSetCompositeCounts[batch.traitSetId] ?? 0) +
+      composites.filter((composite) => composite).length;
+
+    const updates = {
+      status: GenerationJobStatus.Cancelled,
+      traitSetCompositeCounts: traitSetCompositeCounts,
+      runningSince: null,
+    };
+
+    await GenerationJobs.update(
+      updates,
+      generationJobId,
+      projectId,
+      collectionId
+    );
+
+    return {
+      ...generationJob,
+      ...updates,
+    } as GenerationJob;
+  }
+
+  // items saved by an earlier, interrupted run of this batch count too,
+  // since the batch was never confirmed then
+  const savedCount =
+    artworkGenerator.existingItemCount +
+    composites.filter((composite) => composite).length;
+  const batchSize = batch.endIndex - batch.startIndex;
+
+  if (savedCount < batchSize) {
+    // the batch stays unconfirmed, so resuming the job generates
+    // just the items that are still missing
+    const failedAt = Date.now();
+    const failures: GenerationJobFailure[] =
+      artworkGenerator.missingItemIndexes.length > 0
+        ? artworkGenerator.missingItemIndexes.map((itemIndex) => ({
+            startIndex: itemIndex,
+            endIndex: itemIndex + 1,
+            message:
+              "unable to generate item " +
+              itemIndex +
+              (artworkGenerator.itemFailureMessages[itemIndex]
+                ? ": " + artworkGenerator.itemFailureMessages[itemIndex]
+                : ""),
+            failedAt: failedAt,
+          }))
+        : [
+            {
+              startIndex: batch.startIndex,
+              endIndex: batch.endIndex,
+              message:
+                "generated " +
+                savedCount +
+                " of " +
+                batchSize +
+                " items, the trait set may be missing traits or artwork",
+              failedAt: failedAt,
+            },
+          ];
+
+    return failGenerationJob(generationJob, failures, projectId, collectionId);
+  }
+
+  const nextBatchIndex = generationJob.nextBatchIndex + 1;
+  const traitSetCompositeCounts = {
+    ...generationJob.traitSetCompositeCounts,
+  };
+  traitSetCompositeCounts[batch.traitSetId] =
+    (traitSetCompositeCounts[batch.traitSetId] ?? 0) + savedCount;
+
+  const updates = {
+    status:
+      nextBatchIndex == generationJob.batches.length
+        ? GenerationJobStatus.Complete
+        : GenerationJobStatus.Pending,
+    nextBatchIndex: nextBatchIndex,
+    nextItemIndex: batch.endIndex,
+    traitSetCompositeCounts: traitSetCompositeCounts,
+    runningSince: null,
+  };
+
+  const status = await GenerationJobs.finishBatch(
+    updates,
+    generationJobId,
+    projectId,
+    collectionId
+  );
+
+  // a group is only partial until a job generating it completes
+  if (status == GenerationJobStatus.Complete) {
+    await ImageCompositeGroups.update(
+      { isPartial: false },
+      generationJob.compositeGroupId,
+      projectId,
+      collectionId
+    );
+  }
+
+  return {
+    ...generationJob,
+    ...updates,
+    status: status,
+  } as GenerationJob;
+}
+
+/**
+ * record why the job's current batch didn't finish, leaving
+ * it unconfirmed so that the job can be resumed from it
+ *
+ * @returns the updated job
+ */
+async function failGenerationJob(
+  generationJob: GenerationJob,
+  failures: GenerationJobFailure[],
+  projectId: string,
+  collectionId: string
+): Promise<GenerationJob> {
+  const updates = {
+    status: GenerationJobStatus.Failed,
+    failures: [...generationJob.failures, ...failures],
+    runningSince: null,
+  };
+
+  const status = await GenerationJobs.finishBatch(
+    updates,
+    generationJob.id,
+    projectId,
+    collectionId
+  );
+
+  return {
+    ...generationJob,
+    ...updates,
+    status: status,
+  } as GenerationJob;
+}
+
+/**
+ * stop a job from generating any more items. its composite group was
+ * marked as partial when the job was created, and since the job won't
+ * complete now, it stays that way
+ *
+ * @returns false if the job had already finished
+ */
+export async function cancelGenerationJob(
+  projectId: string,
+  collectionId: string,
+  generationJobId: string
+): Promise<boolean> {
+  return GenerationJobs.cancel(generationJobId, projectId, collectionId);
+}
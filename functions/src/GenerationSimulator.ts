@@ -0,0 +1,324 @@
+import { logger } from "firebase-functions";
+import {
+  Conflict,
+  Conflicts,
+  ImageComposite,
+  ImageCompositeGroup,
+  OneOfOnes,
+  RarityMode,
+  Trait,
+  TraitValue,
+} from "../models/models";
+import { ArtworkGenerator } from "./ArtworkGenerator";
+import { CapacityCalculator, TraitSetCapacity } from "./CapacityCalculator";
+import { planBatches } from "./GenerationJobRunner";
+import { planOneOfOnes } from "./OneOfOneReserver";
+import { SeededRandom } from "./SeededRandom";
+
+export interface SimulatedValueCount {
+  traitId: string;
+  traitName: string;
+  traitValueId: string | null;
+  traitValueName: string;
+  count: number;
+}
+
+export interface SimulatedConflictResolution {
+  conflictId: string;
+  description: string;
+  count: number;
+}
+
+export interface GenerationSimulation {
+  traitSetId: string | null;
+  traitSetName: string;
+  startIndex: number;
+  endIndex: number;
+  valueCounts: SimulatedValueCount[];
+  duplicateRetries: number;
+  duplicateFailures: number;
+  conflictFailures: number;
+  conflictResolutions: SimulatedConflictResolution[];
+  nullItemIndexes: number[];
+}
+
+export interface GenerationSimulationResult {
+  seed: string;
+  rarityMode: RarityMode;
+  simulations: GenerationSimulation[];
+  capacities: TraitSetCapacity[];
+}
+
+/**
+ * runs the same trait picking pipeline as the artwork generator
+ * entirely in memory (no compositing, uploads or firestore writes)
+ * to preview what a generation run with the same seed would produce
+ */
+export class GenerationSimulator extends ArtworkGenerator {
+  rarityMode: RarityMode;
+  simulatedHashes: Set<string>;
+  oneOfOneComposites: ImageComposite[];
+
+  constructor(
+    projectId: string,
+    collectionId: string,
+    traitSetId: string,
+    startIndex: number,
+    endIndex: number,
+    batchSize: number,
+    seed: string,
+    rarityMode: RarityMode,
+    simulatedHashes: Set<string>,
+    oneOfOneComposites: ImageComposite[]
+  ) {
+    super(
+      projectId,
+      collectionId,
+      "",
+      traitSetId,
+      startIndex,
+      endIndex,
+      batchSize,
+      false,
+      seed
+    );
+    this.rarityMode = rarityMode;
+    this.simulatedHashes = simulatedHashes;
+    this.oneOfOneComposites = oneOfOneComposites;
+  }
+
+  async loadCompositeGroup(): Promise<ImageCompositeGroup> {
+    return {
+      id: this.compositeGroupId,
+      seed: this.seed,
+      rarityMode: this.rarityMode,
+    } as ImageCompositeGroup;
+  }
+
+  // a real run starts out with just the one of ones saved
+  async loadExistingComposites(): Promise<ImageComposite[]> {
+    return this.oneOfOneComposites;
+  }
+
+  async isUniqueTraitsHash(hash: string): Promise<boolean> {
+    return !this.simulatedHashes.has(hash);
+  }
+
+  async simulate(traitSetName: string): Promise<GenerationSimulation> {
+    logger.info(
+      "Simulate generation for project: " +
+        this.projectId +
+        " collection: " +
+        this.collectionId +
+        " trait set: " +
+        this.traitSetId
+    );
+
+    const inputs = await this.loadInputs();
+
+    const traits = inputs.traits;
+    const conflicts = inputs.conflicts;
+
+    // always unique values are removed from these lists as they're used,
+    // so keep a copy of every value to report counts against
+    const allTraitValues: { [traitId: string]: TraitValue[] } = {};
+    traits.forEach((trait) => {
+      allTraitValues[trait.id] = [...inputs.traitValues[trait.id]];
+    });
+
+    let traitValues = inputs.traitValues;
+    let random = inputs.random;
+
+    const counts: { [traitId: string]: { [traitValueId: string]: number } } =
+      {};
+    traits.forEach((trait) => {
+      counts[trait.id] = {};
+    });
+
+    const nullItemIndexes: number[] = [];
+
+    // items taken by one of ones are skipped, the same as in a real run
+    let batchStartIndex = this.startIndex;
+    for (const i of this.itemIndexesToGenerate(inputs.existingComposites)) {
+      // a real run draws every batch from a stream derived from its
+      // start index, so do the same to preview exactly what it will pick
+      const itemBatchStartIndex = i - ((i - this.startIndex) % this.batchSize);
+      if (itemBatchStartIndex != batchStartIndex) {
+        batchStartIndex = itemBatchStartIndex;
+        random = new SeededRandom(inputs.seed).derive(batchStartIndex);
+      }
+
+      const composite = await this.pickItem(
+        i,
+        traits,
+        traitValues,
+        inputs.traitValueIdToImageLayers,
+        conflicts,
+        random
+      );
+
+      // with no artwork at all there is nothing to composite
+      if (!composite || !composite.traits.some((pair) => pair.imageLayer)) {
+        nullItemIndexes.push(i);
+        continue;
+      }
+
+      this.simulatedHashes.add(composite.traitsHash);
+
+      composite.traits.forEach((pair) => {
+        const key = pair.traitValue?.id ?? "-1";
+        counts[pair.trait.id][key] = (counts[pair.trait.id][key] ?? 0) + 1;
+      });
+
+      traitValues = this.usePick(traits, traitValues, composite);
+    }
+
+    return {
+      traitSetId: this.traitSetId,
+      traitSetName: traitSetName,
+      startIndex: this.startIndex,
+      endIndex: this.endIndex,
+      valueCounts: this.valueCounts(traits, allTraitValues, counts),
+      duplicateRetries: this.stats.duplicateRetries,
+      duplicateFailures: this.stats.duplicateFailures,
+      conflictFailures: this.stats.conflictFailures,
+      conflictResolutions: this.conflictResolutions(
+        traits,
+        allTraitValues,
+        conflicts
+      ),
+      nullItemIndexes: nullItemIndexes,
+    } as GenerationSimulation;
+  }
+
+  valueCounts(
+    traits: Trait[],
+    traitValues: { [traitId: string]: TraitValue[] },
+    counts: { [traitId: string]: { [traitValueId: string]: number } }
+  ): SimulatedValueCount[] {
+    const valueCounts: SimulatedValueCount[] = [];
+
+    traits.forEach((trait) => {
+      traitValues[trait.id].forEach((traitValue) => {
+        valueCounts.push({
+          traitId: trait.id,
+          traitName: trait.name,
+          traitValueId: traitValue.id,
+          traitValueName: traitValue.name,
+          count: counts[trait.id][traitValue.id] ?? 0,
+        });
+      });
+
+      const noneCount = counts[trait.id]["-1"] ?? 0;
+      if (noneCount > 0) {
+        valueCounts.push({
+          traitId: trait.id,
+          traitName: trait.name,
+          traitValueId: null,
+          traitValueName: "None",
+          count: noneCount,
+        });
+      }
+    });
+
+    return valueCounts;
+  }
+
+  conflictResolutions(
+    traits: Trait[],
+    traitValues: { [traitId: string]: TraitValue[] },
+    conflicts: Conflict[]
+  ): SimulatedConflictResolution[] {
+    const describe = (traitId: string, traitValueId: string | null) => {
+      const traitName =
+        traits.find((trait) => trait.id == traitId)?.name ?? "Unknown";
+      const traitValueName =
+        (traitValues[traitId] ?? []).find(
+          (traitValue) => traitValue.id == traitValueId
+        )?.name ?? "Any";
+      return traitName + ":" + traitValueName;
+    };
+
+    return conflicts
+      .filter((conflict) => this.stats.conflictResolutions[conflict.id])
+      .map((conflict) => ({
+        conflictId: conflict.id,
+        description: Conflicts.conditions(conflict)
+          .map((condition) =>
+            describe(condition.traitId, condition.traitValueId)
+          )
+          .join(" / "),
+        count: this.stats.conflictResolutions[conflict.id],
+      }));
+  }
+}
+
+/**
+ * simulate a full generation run across every trait set,
+ * planning its batches and one of ones the same way a job does
+ */
+export async function simulateGeneration(
+  projectId: string,
+  collectionId: string,
+  seed: string,
+  rarityMode: RarityMode,
+  batchSize: number
+): Promise<GenerationSimulationResult> {
+  const batches = await planBatches(projectId, collectionId, batchSize);
+  const oneOfOneComposites = await planOneOfOnes(
+    await OneOfOnes.all(projectId, collectionId),
+    batches,
+    projectId,
+    collectionId
+  );
+
+  // duplicates are detected across the whole group, not per trait set
+  const simulatedHashes = new Set<string>(
+    oneOfOneComposites.map((composite) => composite.traitsHash)
+  );
+  const simulations: GenerationSimulation[] = [];
+  const capacities: TraitSetCapacity[] = [];
+
+  const capacityCalculator = new CapacityCalculator(projectId, collectionId);
+
+  const firstBatches = batches.filter((batch) => batch.isFirstBatchInTraitSet);
+  for (const firstBatch of firstBatches) {
+    const traitSetBatches = batches.filter(
+      (batch) => batch.traitSetId == firstBatch.traitSetId
+    );
+    const lastBatch = traitSetBatches[traitSetBatches.length - 1];
+    const supply = lastBatch.endIndex - firstBatch.startIndex;
+
+    const simulator = new GenerationSimulator(
+      projectId,
+      collectionId,
+      firstBatch.traitSetId,
+      firstBatch.startIndex,
+      lastBatch.endIndex,
+      batchSize,
+      seed,
+      rarityMode,
+      simulatedHashes,
+      oneOfOneComposites
+    );
+
+    simulations.push(await simulator.simulate(firstBatch.traitSetName));
+    capacities.push(
+      await capacityCalculator.capacityForTraitSet(
+        {
+          id: firstBatch.traitSetId,
+          name: firstBatch.traitSetName,
+          supply: supply,
+        },
+        supply
+      )
+    );
+  }
+
+  return {
+    seed: seed,
+    rarityMode: rarityMode,
+    simulations: simulations,
+    capacities: capacities,
+  } as GenerationSimulationResult;
+}
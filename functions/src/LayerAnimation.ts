@@ -0,0 +1,364 @@
+const fs = require("fs");
+
+// browsers play gif frames with no (or a tiny) delay at this speed
+const DEFAULT_FRAME_DELAY_MS: number = 100;
+const MIN_FRAME_DELAY_MS: number = 20;
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// chunks that describe the animation rather than the image
+const APNG_CHUNK_TYPES = ["acTL", "fcTL", "fdAT"];
+
+export interface LayerFrame {
+  input: string | Buffer;
+  delay: number;
+}
+
+export interface AnimationFrame {
+  frameIndexes: number[];
+  delay: number;
+}
+
+interface PngChunk {
+  type: string;
+  data: Buffer;
+}
+
+interface ApngFrameControl {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  delay: number;
+  disposeOp: number;
+  blendOp: number;
+  data: Buffer[];
+}
+
+/**
+ * every frame of an image layer, with how long each one is shown for.
+ * a static layer has a single frame that is shown the whole time
+ */
+export class LayerAnimation {
+  frames: LayerFrame[];
+
+  constructor(frames: LayerFrame[]) {
+    this.frames = frames;
+  }
+
+  /**
+   * load the frames of an animated gif, webp or apng.
+   * frames are always the full size of the layer, with any
+   * disposal from the frames before them already applied
+   */
+  static async load(filePath: string): Promise<LayerAnimation> {
+    const data: Buffer = await fs.promises.readFile(filePath);
+
+    if (data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+      const apngFrames = await LayerAnimation.apngFrames(data);
+      return new LayerAnimation(apngFrames ?? [{ input: filePath, delay: 0 }]);
+    }
+
+    const sharp = require("sharp");
+    const metadata = await sharp(data).metadata();
+    const pages = metadata.pages ?? 1;
+
+    if (pages <= 1) {
+      return new LayerAnimation([{ input: filePath, delay: 0 }]);
+    }
+
+    const frames: LayerFrame[] = [];
+    for (let page = 0; page < pages; page++) {
+      frames.push({
+        input: await sharp(data, { page: page }).png().toBuffer(),
+        delay: LayerAnimation.frameDelay(metadata.delay?.[page]),
+      });
+    }
+
+    return new LayerAnimation(frames);
+  }
+
+  get isAnimated(): boolean {
+    return this.frames.length > 1;
+  }
+
+  get duration(): number {
+    return this.frames.reduce((total, frame) => total + frame.delay, 0);
+  }
+
+  /**
+   * @returns the index of the frame showing at a time, looping if need be
+   */
+  frameIndexAt(time: number): number {
+    if (!this.isAnimated) {
+      return 0;
+    }
+
+    let frameStart = 0;
+    const loopTime = time % this.duration;
+    for (let i = 0; i < this.frames.length; i++) {
+      frameStart += this.frames[i].delay;
+      if (loopTime < frameStart) {
+        return i;
+      }
+    }
+
+    return this.frames.length - 1;
+  }
+
+  static frameDelay(delay: number | undefined): number {
+    return delay && delay >= MIN_FRAME_DELAY_MS
+      ? delay
+      : DEFAULT_FRAME_DELAY_MS;
+  }
+
+  /**
+   * render every frame of an animated png onto a full size canvas
+   *
+   * @returns the frames, or null if the png isn't animated
+   */
+  static async apngFrames(data: Buffer): Promise<LayerFrame[] | null> {
+    const chunks = LayerAnimation.pngChunks(data);
+    if (!chunks.some((chunk) => chunk.type == "acTL")) {
+      return null;
+    }
+
+    const header = chunks.find((chunk) => chunk.type == "IHDR");
+    if (!header) {
+      return null;
+    }
+
+    const width = header.data.readUInt32BE(0);
+    const height = header.data.readUInt32BE(4);
+
+    // anything before the image data (palette, transparency, colour
+    // profile) applies to every frame
+    const firstDataIndex = chunks.findIndex((chunk) => chunk.type == "IDAT");
+    const sharedChunks = chunks
+      .slice(0, firstDataIndex)
+      .filter(
+        (chunk) =>
+          chunk.type != "IHDR" && !APNG_CHUNK_TYPES.includes(chunk.type)
+      );
+
+    // the default image is only part of the animation
+    // when a frame control comes before it
+    const frameControls: ApngFrameControl[] = [];
+    let frameControl: ApngFrameControl | null = null;
+    chunks.forEach((chunk) => {
+      if (chunk.type == "fcTL") {
+        const delayNumerator = chunk.data.readUInt16BE(20);
+        const delayDenominator = chunk.data.readUInt16BE(22) || 100;
+        frameControl = {
+          width: chunk.data.readUInt32BE(4),
+          height: chunk.data.readUInt32BE(8),
+          x: chunk.data.readUInt32BE(12),
+          y: chunk.data.readUInt32BE(16),
+          delay: LayerAnimation.frameDelay(
+            Math.round((delayNumerator * 1000) / delayDenominator)
+          ),
+          disposeOp: chunk.data.readUInt8(24),
+          blendOp: chunk.data.readUInt8(25),
+          data: [],
+        };
+        frameControls.push(frameControl);
+      } else if (chunk.type == "IDAT" && frameControl) {
+        frameControl.data.push(chunk.data);
+      } else if (chunk.type == "fdAT" && frameControl) {
+        // frame data chunks start with a sequence number
+        frameControl.data.push(chunk.data.subarray(4));
+      }
+    });
+
+    if (frameControls.length <= 1) {
+      return null;
+    }
+
+    const sharp = require("sharp");
+    const canvas = Buffer.alloc(width * height * 4);
+    const frames: LayerFrame[] = [];
+
+    for (let i = 0; i < frameControls.length; i++) {
+      const control = frameControls[i];
+
+      const frameHeader = Buffer.from(header.data);
+      frameHeader.writeUInt32BE(control.width, 0);
+      frameHeader.writeUInt32BE(control.height, 4);
+
+      const framePng = LayerAnimation.encodePng([
+        { type: "IHDR", data: frameHeader },
+        ...sharedChunks,
+        ...control.data.map((data) => ({ type: "IDAT", data: data })),
+        { type: "IEND", data: Buffer.alloc(0) },
+      ]);
+
+      const pixels: Buffer = await sharp(framePng)
+        .ensureAlpha()
+        .raw()
+        .toBuffer();
+
+      // the first frame can't restore to a previous one
+      const previous =
+        control.disposeOp == 2 && i > 0 ? Buffer.from(canvas) : null;
+
+      LayerAnimation.drawRegion(canvas, width, control, (offset, row, x) => {
+        const source = (row * control.width + x) * 4;
+        const alpha = pixels[source + 3] / 255;
+
+        // blend op 0 replaces the region, 1 draws over it
+        if (control.blendOp == 0 || alpha == 1) {
+          pixels.copy(canvas, offset, source, source + 4);
+          return;
+        }
+
+        const canvasAlpha = canvas[offset + 3] / 255;
+        const outAlpha = alpha + canvasAlpha * (1 - alpha);
+        for (let channel = 0; channel < 3; channel++) {
+          canvas[offset + channel] =
+            outAlpha == 0
+              ? 0
+              : Math.round(
+                  (pixels[source + channel] * alpha +
+                    canvas[offset + channel] * canvasAlpha * (1 - alpha)) /
+                    outAlpha
+                );
+        }
+        canvas[offset + 3] = Math.round(outAlpha * 255);
+      });
+
+      frames.push({
+        input: await sharp(Buffer.from(canvas), {
+          raw: { width: width, height: height, channels: 4 },
+        })
+          .png()
+          .toBuffer(),
+        delay: control.delay,
+      });
+
+      if (control.disposeOp == 1 || (control.disposeOp == 2 && !previous)) {
+        LayerAnimation.drawRegion(canvas, width, control, (offset) => {
+          canvas.fill(0, offset, offset + 4);
+        });
+      } else if (previous) {
+        previous.copy(canvas);
+      }
+    }
+
+    return frames;
+  }
+
+  static drawRegion(
+    canvas: Buffer,
+    canvasWidth: number,
+    control: ApngFrameControl,
+    draw: (offset: number, row: number, x: number) => void
+  ) {
+    const canvasHeight = canvas.length / 4 / canvasWidth;
+    for (let row = 0; row < control.height; row++) {
+      if (control.y + row >= canvasHeight) {
+        break;
+      }
+      for (let x = 0; x < control.width && control.x + x < canvasWidth; x++) {
+        draw(((control.y + row) * canvasWidth + control.x + x) * 4, row, x);
+      }
+    }
+  }
+
+  static pngChunks(data: Buffer): PngChunk[] {
+    const chunks: PngChunk[] = [];
+
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= data.length) {
+      const length = data.readUInt32BE(offset);
+      const type = data.toString("ascii", offset + 4, offset + 8);
+      chunks.push({
+        type: type,
+        data: data.subarray(offset + 8, offset + 8 + length),
+      });
+      offset += length + 12;
+    }
+
+    return chunks;
+  }
+
+  static encodePng(chunks: PngChunk[]): Buffer {
+    return Buffer.concat([
+      PNG_SIGNATURE,
+      ...chunks.map((chunk) => {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(chunk.data.length, 0);
+
+        const typeAndData = Buffer.concat([
+          Buffer.from(chunk.type, "ascii"),
+          chunk.data,
+        ]);
+
+        const crc = Buffer.alloc(4);
+        crc.writeUInt32BE(crc32(typeAndData), 0);
+
+        return Buffer.concat([length, typeAndData, crc]);
+      }),
+    ]);
+  }
+}
+
+/**
+ * line up the frames of every layer on one timeline, so that the
+ * composite changes frame whenever any of its layers does. layers
+ * shorter than the longest animation loop until it finishes
+ */
+export function animationTimeline(
+  animations: LayerAnimation[],
+  maxFrames: number
+): AnimationFrame[] {
+  const duration = Math.max(
+    0,
+    ...animations.map((animation) => animation.duration)
+  );
+
+  const frameTimes = new Set<number>([0]);
+  animations
+    .filter((animation) => animation.isAnimated)
+    .forEach((animation) => {
+      for (let loop = 0; loop < duration; loop += animation.duration) {
+        let time = loop;
+        animation.frames.forEach((frame) => {
+          if (time < duration) {
+            frameTimes.add(time);
+          }
+          time += frame.delay;
+        });
+      }
+    });
+
+  const sortedTimes = [...frameTimes].sort((a, b) => a - b);
+
+  return sortedTimes
+    .map((time, i) => ({
+      frameIndexes: animations.map((animation) => animation.frameIndexAt(time)),
+      delay:
+        (i + 1 < sortedTimes.length ? sortedTimes[i + 1] : duration) - time,
+    }))
+    .slice(0, maxFrames);
+}
+
+let crcTable: number[] | null = null;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,304 @@
+import { logger } from "firebase-functions";
+import { storage } from "../models/firebase";
+import {
+  GenerationJobBatch,
+  ImageComposite,
+  ImageComposites,
+  OneOfOne,
+  OneOfOnes,
+  OutputFormat,
+  OutputFormats,
+  Traits,
+  TraitValue,
+  TraitValues,
+} from "../models/models";
+
+const path = require("path");
+
+/**
+ * put every hand-made one of one into a composite group before it's
+ * generated, at the items planned for them, which generation skips over
+ * like any item that's already saved. their traits hashes are reserved
+ * the same way a generated item's is, so nothing generated afterwards
+ * can share a one of one's attributes. if any of them can't be reserved,
+ * the ones already reserved are removed again
+ *
+ * @returns the reserved composites
+ */
+export async function reserveOneOfOnes(
+  projectId: string,
+  collectionId: string,
+  compositeGroupId: string,
+  batches: GenerationJobBatch[]
+): Promise<ImageComposite[]> {
+  const oneOfOnes = await OneOfOnes.all(projectId, collectionId);
+  const plannedComposites = await planOneOfOnes(
+    oneOfOnes,
+    batches,
+    projectId,
+    collectionId
+  );
+
+  const composites: ImageComposite[] = [];
+
+  try {
+    for (let i = 0; i < plannedComposites.length; i++) {
+      composites.push(
+        await reserveOneOfOne(
+          oneOfOnes[i],
+          plannedComposites[i],
+          projectId,
+          collectionId,
+          compositeGroupId
+        )
+      );
+    }
+  } catch (err) {
+    for (const composite of composites) {
+      await ImageComposites.remove(
+        composite,
+        projectId,
+        collectionId,
+        compositeGroupId
+      );
+      await removeCompositeFile(
+        composite.itemIndex,
+        composite.format,
+        projectId,
+        collectionId,
+        compositeGroupId
+      );
+    }
+    throw err;
+  }
+
+  return composites;
+}
+
+/**
+ * where each one of one goes in a run of the given batches, and the
+ * traits it has there, without saving anything. each takes the last
+ * free item of its trait set's batches, so a one of one whose trait
+ * set isn't part of the run is turned down
+ *
+ * @returns an unsaved composite per one of one, in the same order
+ */
+export async function planOneOfOnes(
+  oneOfOnes: OneOfOne[],
+  batches: GenerationJobBatch[],
+  projectId: string,
+  collectionId: string
+): Promise<ImageComposite[]> {
+  if (batches.length == 0) {
+    return [];
+  }
+
+  const reservedItemIndexes = new Set<number>();
+  const composites: ImageComposite[] = [];
+
+  for (const oneOfOne of oneOfOnes) {
+    // another trait set's traits would leave out the one of one's own
+    const traitSetId = oneOfOne.traitSetId ?? "-1";
+    const traitSetBatches = batches.filter(
+      (batch) => batch.traitSetId == traitSetId
+    );
+    if (traitSetBatches.length == 0) {
+      throw new Error(
+        "one of one " +
+          oneOfOne.name +
+          " isn't in any of the trait sets being generated"
+      );
+    }
+
+    const itemIndex = lastFreeItemIndex(traitSetBatches, reservedItemIndexes);
+    if (itemIndex == null) {
+      throw new Error(
+        "there are no items left to reserve for one of one " + oneOfOne.name
+      );
+    }
+    reservedItemIndexes.add(itemIndex);
+
+    const compositeTraitSetId = traitSetId == "-1" ? null : traitSetId;
+
+    const traits = OneOfOnes.traitValuePairs(
+      oneOfOne,
+      await Traits.all(projectId, collectionId, compositeTraitSetId),
+      await loadTraitValues(oneOfOne, projectId, collectionId)
+    );
+
+    composites.push({
+      traits: traits,
+      traitsHash: ImageComposites.traitsHash(traits),
+      traitSetId: compositeTraitSetId,
+      itemIndex: itemIndex,
+      oneOfOneId: oneOfOne.id,
+    } as ImageComposite);
+  }
+
+  return composites;
+}
+
+async function reserveOneOfOne(
+  oneOfOne: OneOfOne,
+  plannedComposite: ImageComposite,
+  projectId: string,
+  collectionId: string,
+  compositeGroupId: string
+): Promise<ImageComposite> {
+  const itemIndex = plannedComposite.itemIndex;
+  const format = OutputFormats.fromExtension(
+    path.extname(oneOfOne.bucketFilename)
+  );
+
+  const composite = await ImageComposites.create(
+    {
+      ...plannedComposite,
+      externalURL: await copyToCompositeGroup(
+        oneOfOne,
+        itemIndex,
+        format,
+        projectId,
+        collectionId,
+        compositeGroupId
+      ),
+      format: format,
+    } as ImageComposite,
+    projectId,
+    collectionId,
+    compositeGroupId
+  );
+
+  if (!composite) {
+    await removeCompositeFile(
+      itemIndex,
+      format,
+      projectId,
+      collectionId,
+      compositeGroupId
+    );
+    throw new Error(
+      "one of one " +
+        oneOfOne.name +
+        " has the same attributes as another one of one"
+    );
+  }
+
+  logger.info("reserved one of one " + oneOfOne.name + " at " + itemIndex);
+  return composite;
+}
+
+function lastFreeItemIndex(
+  batches: GenerationJobBatch[],
+  reservedItemIndexes: Set<number>
+): number | null {
+  for (let i = batches.length - 1; i >= 0; i--) {
+    for (
+      let itemIndex = batches[i].endIndex - 1;
+      itemIndex >= batches[i].startIndex;
+      itemIndex--
+    ) {
+      if (!reservedItemIndexes.has(itemIndex)) {
+        return itemIndex;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * copy the one of one's image next to the group's generated items,
+ * named after its item index, which is where the export looks for it
+ *
+ * @returns the public url of the copy
+ */
+async function copyToCompositeGroup(
+  oneOfOne: OneOfOne,
+  itemIndex: number,
+  format: OutputFormat,
+  projectId: string,
+  collectionId: string,
+  compositeGroupId: string
+): Promise<string> {
+  const file = compositeFile(
+    itemIndex,
+    format,
+    projectId,
+    collectionId,
+    compositeGroupId
+  );
+
+  await storage
+    .bucket()
+    .file(projectId + "/" + collectionId + "/" + oneOfOne.bucketFilename)
+    .copy(file);
+
+  return file.publicUrl();
+}
+
+async function removeCompositeFile(
+  itemIndex: number,
+  format: OutputFormat | undefined,
+  projectId: string,
+  collectionId: string,
+  compositeGroupId: string
+) {
+  await compositeFile(
+    itemIndex,
+    format ?? OutputFormat.Png,
+    projectId,
+    collectionId,
+    compositeGroupId
+  )
+    .delete()
+    .catch((err: Error) => {
+      logger.error("failed to delete one of one at " + itemIndex);
+      logger.error(err);
+    });
+}
+
+function compositeFile(
+  itemIndex: number,
+  format: OutputFormat,
+  projectId: string,
+  collectionId: string,
+  compositeGroupId: string
+) {
+  return storage
+    .bucket()
+    .file(
+      projectId +
+        "/" +
+        collectionId +
+        "/generated/" +
+        compositeGroupId +
+        "/" +
+        itemIndex +
+        OutputFormats.extension(format)
+    );
+}
+
+async function loadTraitValues(
+  oneOfOne: OneOfOne,
+  projectId: string,
+  collectionId: string
+): Promise<{ [traitValueId: string]: TraitValue }> {
+  const traitValues: { [traitValueId: string]: TraitValue } = {};
+
+  for (const attribute of oneOfOne.attributes) {
+    if (!attribute.traitValueId) {
+      continue;
+    }
+
+    const traitValue = await TraitValues.withId(
+      attribute.traitValueId,
+      attribute.traitId,
+      projectId,
+      collectionId
+    );
+    if (traitValue) {
+      traitValues[traitValue.id] = traitValue;
+    }
+  }
+
+  return traitValues;
+}
@@ -0,0 +1,145 @@
+import { ImageComposite, Trait, Traits, TraitValue } from "../models/models";
+
+// key used to track how many items should have no value for a trait
+const NONE_KEY = "-1";
+
+export interface QuotaCandidate {
+  traitValue: TraitValue | null;
+  remaining: number;
+}
+
+/**
+ * turns the rarity of every trait value into an exact number of items
+ * for a trait set's supply, and tracks how many of each are still left
+ * to be dealt out as composites are created
+ */
+export class RarityQuotas {
+  remaining: { [traitId: string]: { [traitValueId: string]: number } } = {};
+
+  constructor(
+    traits: Trait[],
+    traitValues: { [traitId: string]: TraitValue[] },
+    supply: number,
+    existingComposites: ImageComposite[]
+  ) {
+    traits.forEach((trait) => {
+      // always unique traits are dealt out one per item already
+      if (trait.isAlwaysUnique) {
+        return;
+      }
+      this.remaining[trait.id] = RarityQuotas.allocate(
+        trait,
+        traitValues[trait.id] ?? [],
+        supply
+      );
+    });
+
+    existingComposites.forEach((composite) => this.consume(composite));
+  }
+
+  /**
+   * allocate the supply across values proportionally to their rarity
+   * using largest-remainder rounding, so the counts always add up.
+   * any supply not covered by the rarities (or the trait's explicit
+   * chance of none) is allocated to "none"
+   *
+   * @param trait the trait the values belong to
+   * @param values trait values each with specified % rarity
+   * @param supply number of items to allocate
+   * @returns the exact number of items per trait value id
+   */
+  static allocate(
+    trait: Trait,
+    values: TraitValue[],
+    supply: number
+  ): { [traitValueId: string]: number } {
+    const counts: { [traitValueId: string]: number } = {};
+
+    const { valueScale } = Traits.noneRarity(trait, values);
+    const totalRarity = values.reduce(
+      (sum, value) => sum + value.rarity * valueScale,
+      0
+    );
+    const total = Math.min(supply, Math.round(totalRarity * supply));
+
+    let allocated = 0;
+    const remainders = values.map((value) => {
+      const exact = value.rarity * valueScale * supply;
+      const count = Math.floor(exact);
+      counts[value.id] = count;
+      allocated += count;
+      return { id: value.id, remainder: exact - count };
+    });
+
+    remainders.sort((a, b) => b.remainder - a.remainder);
+
+    for (let i = 0; allocated < total && i < remainders.length; i++) {
+      counts[remainders[i].id]++;
+      allocated++;
+    }
+
+    counts[NONE_KEY] = Math.max(0, supply - allocated);
+
+    return counts;
+  }
+
+  isTracking(traitId: string): boolean {
+    return this.remaining[traitId] !== undefined;
+  }
+
+  /**
+   * @returns every value (including none) that still has items left
+   */
+  candidates(
+    traitId: string,
+    values: TraitValue[],
+    excludeTraitValueId: string | null = null
+  ): QuotaCandidate[] {
+    const counts = this.remaining[traitId] ?? {};
+
+    const candidates: QuotaCandidate[] = values
+      .filter((value) => value.id !== excludeTraitValueId)
+      .map((value) => ({
+        traitValue: value,
+        remaining: counts[value.id] ?? 0,
+      }));
+
+    candidates.push({ traitValue: null, remaining: counts[NONE_KEY] ?? 0 });
+
+    return candidates.filter((candidate) => candidate.remaining > 0);
+  }
+
+  /**
+   * mark the values used by a composite as dealt out
+   */
+  consume(composite: ImageComposite) {
+    composite.traits.forEach((traitPair) => {
+      const counts = this.remaining[traitPair.trait.id];
+      if (!counts) {
+        return;
+      }
+
+      const key = traitPair.traitValue?.id ?? NONE_KEY;
+      if (counts[key] !== undefined) {
+        counts[key]--;
+      }
+    });
+  }
+
+  /**
+   * hand the values used by a composite that failed to generate back
+   */
+  release(composite: ImageComposite) {
+    composite.traits.forEach((traitPair) => {
+      const counts = this.remaining[traitPair.trait.id];
+      if (!counts) {
+        return;
+      }
+
+      const key = traitPair.traitValue?.id ?? NONE_KEY;
+      if (counts[key] !== undefined) {
+        counts[key]++;
+      }
+    });
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * deterministic pseudorandom number generator (mulberry32)
+ * seeded from an arbitrary string, so that a generation run
+ * or an export shuffle can be reproduced from its seed alone
+ */
+export class SeededRandom {
+  seed: string;
+  state: number;
+
+  constructor(seed: string) {
+    this.seed = seed;
+    this.state = SeededRandom.hashSeed(seed);
+  }
+
+  /**
+   * @returns the next pseudorandom number from 0.0 (inclusive) -> 1.0 (exclusive)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * @param max exclusive upper bound
+   * @returns the next pseudorandom integer from 0 -> max - 1
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * derive a child generator, for ex. one per batch of a run,
+   * whose sequence only depends on the parent seed and the key
+   */
+  derive(key: string | number): SeededRandom {
+    return new SeededRandom(this.seed + ":" + key);
+  }
+
+  /**
+   * hash a string seed down to a 32 bit integer (FNV-1a)
+   */
+  static hashSeed(seed: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+      hash ^= seed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,262 @@
+import { LayerAnchor, TextLayer } from "../models/models";
+
+const fs = require("fs");
+const path = require("path");
+
+// used when a font is missing or can't be read
+const DEFAULT_FONT_FAMILY = "sans-serif";
+const DEFAULT_ASCENT = 0.8;
+const DEFAULT_DESCENT = 0.2;
+
+const FONT_CONTENT_TYPES: { [extension: string]: string } = {
+  ".ttf": "font/ttf",
+  ".otf": "font/otf",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+};
+
+// truetype, opentype and apple truetype fonts, woff ones are compressed
+const SFNT_VERSIONS = ["\u0000\u0001\u0000\u0000", "OTTO", "true"];
+
+// the name table ids of the font's family, preferring the typographic one
+const FAMILY_NAME_IDS = [16, 1];
+
+interface FontTable {
+  offset: number;
+  length: number;
+}
+
+/**
+ * draws the text of a text layer as an svg the size of the canvas.
+ * sharp only renders fonts known to fontconfig, so the font's family
+ * name is read out of the font file to refer to it by. the font is
+ * also embedded, for svg composites opened in a browser
+ */
+export class TextRenderer {
+  family: string;
+  ascent: number;
+  descent: number;
+  fontData: Buffer | null;
+  fontContentType: string | null;
+
+  constructor(
+    family: string,
+    ascent: number,
+    descent: number,
+    fontData: Buffer | null = null,
+    fontContentType: string | null = null
+  ) {
+    this.family = family;
+    this.ascent = ascent;
+    this.descent = descent;
+    this.fontData = fontData;
+    this.fontContentType = fontContentType;
+  }
+
+  static async load(fontFilePath: string | null): Promise<TextRenderer> {
+    if (!fontFilePath || !fs.existsSync(fontFilePath)) {
+      return new TextRenderer(
+        DEFAULT_FONT_FAMILY,
+        DEFAULT_ASCENT,
+        DEFAULT_DESCENT
+      );
+    }
+
+    const data: Buffer = await fs.promises.readFile(fontFilePath);
+    const contentType =
+      FONT_CONTENT_TYPES[path.extname(fontFilePath).toLowerCase()] ?? null;
+
+    const tables = TextRenderer.fontTables(data);
+    const metrics = TextRenderer.metrics(data, tables);
+
+    return new TextRenderer(
+      TextRenderer.familyName(data, tables) ?? DEFAULT_FONT_FAMILY,
+      metrics?.ascent ?? DEFAULT_ASCENT,
+      metrics?.descent ?? DEFAULT_DESCENT,
+      data,
+      contentType
+    );
+  }
+
+  /**
+   * @returns an svg of the text placed using the layer's anchor and offset
+   */
+  svg(
+    textLayer: TextLayer,
+    text: string,
+    width: number,
+    height: number
+  ): string {
+    const anchor = textLayer.anchor ?? LayerAnchor.TopLeft;
+    const column = anchor % 3;
+    const row = Math.floor(anchor / 3);
+    const fontSize = textLayer.fontSize;
+
+    const x = (column * width) / 2 + (textLayer.offsetX ?? 0);
+    const y = (row * height) / 2 + (textLayer.offsetY ?? 0);
+
+    // place the baseline so that the top, middle or bottom of
+    // the text lines up with the anchor
+    const baseline =
+      row == 0
+        ? y + this.ascent * fontSize
+        : row == 1
+        ? y + ((this.ascent - this.descent) / 2) * fontSize
+        : y - this.descent * fontSize;
+
+    const family = escapeXML(this.family);
+    const fontFace =
+      this.fontData && this.fontContentType
+        ? '<style>@font-face { font-family: "' +
+          family +
+          '"; src: url(data:' +
+          this.fontContentType +
+          ";base64," +
+          this.fontData.toString("base64") +
+          "); }</style>"
+        : "";
+
+    return (
+      '<svg xmlns="http://www.w3.org/2000/svg" width="' +
+      width +
+      '" height="' +
+      height +
+      '" viewBox="0 0 ' +
+      width +
+      " " +
+      height +
+      '">' +
+      fontFace +
+      '<text x="' +
+      x +
+      '" y="' +
+      baseline +
+      '" text-anchor="' +
+      ["start", "middle", "end"][column] +
+      '" font-family="\'' +
+      family +
+      "', " +
+      DEFAULT_FONT_FAMILY +
+      '" font-size="' +
+      fontSize +
+      '" fill="' +
+      (/^#[0-9a-fA-F]{3,8}$/.test(textLayer.color)
+        ? textLayer.color
+        : "#000000") +
+      '">' +
+      escapeXML(text) +
+      "</text></svg>"
+    );
+  }
+
+  /**
+   * the table directory of a truetype or opentype font
+   */
+  static fontTables(data: Buffer): { [tag: string]: FontTable } {
+    const tables: { [tag: string]: FontTable } = {};
+    if (
+      data.length < 12 ||
+      !SFNT_VERSIONS.includes(data.toString("latin1", 0, 4))
+    ) {
+      return tables;
+    }
+
+    const tableCount = data.readUInt16BE(4);
+    for (let i = 0; i < tableCount; i++) {
+      const recordOffset = 12 + i * 16;
+      if (recordOffset + 16 > data.length) {
+        break;
+      }
+      tables[data.toString("ascii", recordOffset, recordOffset + 4)] = {
+        offset: data.readUInt32BE(recordOffset + 8),
+        length: data.readUInt32BE(recordOffset + 12),
+      };
+    }
+
+    return tables;
+  }
+
+  static familyName(
+    data: Buffer,
+    tables: { [tag: string]: FontTable }
+  ): string | null {
+    const table = tables["name"];
+    if (!table || table.offset + 6 > data.length) {
+      return null;
+    }
+
+    const count = data.readUInt16BE(table.offset + 2);
+    const stringsOffset = table.offset + data.readUInt16BE(table.offset + 4);
+
+    for (const nameId of FAMILY_NAME_IDS) {
+      for (let i = 0; i < count; i++) {
+        const record = table.offset + 6 + i * 12;
+        if (record + 12 > data.length) {
+          break;
+        }
+        if (data.readUInt16BE(record + 6) != nameId) {
+          continue;
+        }
+
+        const platformId = data.readUInt16BE(record);
+        const start = stringsOffset + data.readUInt16BE(record + 10);
+        const end = start + data.readUInt16BE(record + 8);
+        if (end > data.length) {
+          continue;
+        }
+
+        // windows and unicode names are utf-16 big endian, mac ones are 8 bit
+        const name =
+          platformId == 1
+            ? data.toString("latin1", start, end)
+            : Buffer.from(data.subarray(start, end))
+                .swap16()
+                .toString("utf16le");
+
+        if (name.trim().length > 0) {
+          return name.trim();
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * how far the font reaches above and below its baseline, in ems
+   */
+  static metrics(
+    data: Buffer,
+    tables: { [tag: string]: FontTable }
+  ): { ascent: number; descent: number } | null {
+    const head = tables["head"];
+    const hhea = tables["hhea"];
+    if (
+      !head ||
+      !hhea ||
+      head.offset + 20 > data.length ||
+      hhea.offset + 8 > data.length
+    ) {
+      return null;
+    }
+
+    const unitsPerEm = data.readUInt16BE(head.offset + 18);
+    if (unitsPerEm == 0) {
+      return null;
+    }
+
+    return {
+      ascent: data.readInt16BE(hhea.offset + 4) / unitsPerEm,
+      descent: -data.readInt16BE(hhea.offset + 6) / unitsPerEm,
+    };
+  }
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,57 @@
+/**
+ * runs async tasks with at most a fixed number of them in flight at once,
+ * for ex. to composite and upload several items while the next is picked
+ */
+export class WorkerPool {
+  concurrency: number;
+  running: Set<Promise<void>> = new Set();
+  error: Error | null = null;
+
+  constructor(concurrency: number) {
+    // a limit that isn't a number would never hold a task back
+    this.concurrency = Number.isFinite(concurrency)
+      ? Math.max(1, Math.floor(concurrency))
+      : 1;
+  }
+
+  /**
+   * start a task as soon as a worker is free for it. once a task has
+   * failed, no more are started, and the error is only rethrown after
+   * the tasks still in flight have settled, so none of them keep
+   * uploading or saving after the failure is reported
+   *
+   * @returns once the task has started, not once it has finished
+   */
+  async run(task: () => Promise<void>): Promise<void> {
+    while (this.running.size >= this.concurrency) {
+      await Promise.race(this.running);
+    }
+
+    if (this.error) {
+      await Promise.all(this.running);
+      throw this.error;
+    }
+
+    const promise: Promise<void> = task()
+      .catch((err: Error) => {
+        this.error = this.error ?? err;
+      })
+      .then(() => {
+        this.running.delete(promise);
+      });
+
+    this.running.add(promise);
+  }
+
+  /**
+   * wait for every started task to finish, rethrowing
+   * the first error any of them ran into
+   */
+  async drain(): Promise<void> {
+    await Promise.all(this.running);
+
+    if (this.error) {
+      throw this.error;
+    }
+  }
+}
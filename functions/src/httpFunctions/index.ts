@@ -2,6 +2,14 @@ import * as cors from "cors";
 import * as express from "express";
 import { ArtworkGenerator } from "../ArtworkGenerator";
 import { CandyMachineDownloader } from "../CandyMachineDownloader";
+import { generateColorVariants } from "../ColorVariantGenerator";
+import {
+  cancelGenerationJob,
+  createGenerationJob,
+  runGenerationJob,
+} from "../GenerationJobRunner";
+import { simulateGeneration } from "../GenerationSimulator";
+import { v4 as uuidv4 } from "uuid";
 
 const api = express();
 api.use(cors({ origin: true }));
@@ -15,9 +23,18 @@ api.get("/generate-artwork", (req, res) => {
   const batchSize = parseInt(req.query.batchSize?.toString() ?? "500");
   const isFirstBatchInTraitSet =
     (req.query.isFirstBatchInTraitSet?.toString() ?? "0") == "1";
+  const seed = req.query.seed?.toString() ?? null;
+  const concurrency = req.query.concurrency
+    ? parseInt(req.query.concurrency.toString())
+    : undefined;
   const endIndex = startIndex + batchSize;
 
-  if (!projectId || !collectionId || !compositeGroupId) {
+  if (
+    !projectId ||
+    !collectionId ||
+    !compositeGroupId ||
+    (concurrency !== undefined && (isNaN(concurrency) || concurrency < 1))
+  ) {
     res.status(400).send();
     return;
   }
@@ -30,7 +47,9 @@ api.get("/generate-artwork", (req, res) => {
     startIndex,
     endIndex,
     batchSize,
-    isFirstBatchInTraitSet
+    isFirstBatchInTraitSet,
+    seed,
+    concurrency
   );
   artworkGenerator
     .generate()
@@ -44,11 +63,175 @@ api.get("/generate-artwork", (req, res) => {
     });
 });
 
+api.get("/create-generation-job", (req, res) => {
+  const projectId = req.query.projectId?.toString();
+  const collectionId = req.query.collectionId?.toString();
+  const compositeGroupId = req.query.compositeGroupId?.toString();
+  const batchSize = parseInt(req.query.batchSize?.toString() ?? "500");
+
+  if (!projectId || !collectionId || !compositeGroupId) {
+    res.status(400).send();
+    return;
+  }
+
+  createGenerationJob(projectId, collectionId, compositeGroupId, batchSize)
+    .then((generationJob) => {
+      res.status(201).send(generationJob);
+    })
+    .catch((err) => {
+      console.log("generation job creation failed");
+      console.log(err);
+      res.status(500).send();
+    });
+});
+
+api.get("/run-generation-job", (req, res) => {
+  const projectId = req.query.projectId?.toString();
+  const collectionId = req.query.collectionId?.toString();
+  const generationJobId = req.query.generationJobId?.toString();
+
+  if (!projectId || !collectionId || !generationJobId) {
+    res.status(400).send();
+    return;
+  }
+
+  runGenerationJob(projectId, collectionId, generationJobId)
+    .then((generationJob) => {
+      if (!generationJob) {
+        // another request is already generating this job's next batch
+        res.status(409).send();
+        return;
+      }
+      res.status(200).send(generationJob);
+    })
+    .catch((err) => {
+      console.log("generation job failed");
+      console.log(err);
+      res.status(500).send();
+    });
+});
+
+api.get("/cancel-generation-job", (req, res) => {
+  const projectId = req.query.projectId?.toString();
+  const collectionId = req.query.collectionId?.toString();
+  const generationJobId = req.query.generationJobId?.toString();
+
+  if (!projectId || !collectionId || !generationJobId) {
+    res.status(400).send();
+    return;
+  }
+
+  cancelGenerationJob(projectId, collectionId, generationJobId)
+    .then((isCancelled) => {
+      // a job that already finished can't be cancelled
+      res.status(isCancelled ? 200 : 409).send();
+    })
+    .catch((err) => {
+      console.log("generation job cancellation failed");
+      console.log(err);
+      res.status(500).send();
+    });
+});
+
+api.get("/simulate-generation", (req, res) => {
+  const projectId = req.query.projectId?.toString();
+  const collectionId = req.query.collectionId?.toString();
+  const seed = req.query.seed?.toString() ?? uuidv4();
+  const rarityMode = parseInt(req.query.rarityMode?.toString() ?? "0");
+  const batchSize = parseInt(req.query.batchSize?.toString() ?? "500");
+
+  if (!projectId || !collectionId) {
+    res.status(400).send();
+    return;
+  }
+
+  simulateGeneration(projectId, collectionId, seed, rarityMode, batchSize)
+    .then((simulation) => {
+      res.status(200).send(simulation);
+    })
+    .catch((err) => {
+      console.log("generation simulation failed");
+      console.log(err);
+      res.status(500).send();
+    });
+});
+
+api.get("/generate-color-variants", (req, res) => {
+  const projectId = req.query.projectId?.toString();
+  const collectionId = req.query.collectionId?.toString();
+  const imageLayerId = req.query.imageLayerId?.toString();
+
+  if (!projectId || !collectionId || !imageLayerId) {
+    res.status(400).send();
+    return;
+  }
+
+  generateColorVariants(projectId, collectionId, imageLayerId)
+    .then((imageLayers) => {
+      if (!imageLayers) {
+        // missing, animated or vector layers, or ones without a trait
+        res.status(422).send();
+        return;
+      }
+      res.status(200).send(imageLayers);
+    })
+    .catch((err) => {
+      console.log("colour variant generation failed");
+      console.log(err);
+      res.status(500).send();
+    });
+});
+
+api.post("/save-composite", (req, res) => {
+  const projectId = req.query.projectId?.toString();
+  const collectionId = req.query.collectionId?.toString();
+  const compositeGroupId = req.query.compositeGroupId?.toString();
+  const traitSetId = req.query.traitSetId?.toString() ?? "-1";
+  const traitValuePairs = req.body?.traitValuePairs;
+
+  if (
+    !projectId ||
+    !collectionId ||
+    !compositeGroupId ||
+    !Array.isArray(traitValuePairs)
+  ) {
+    res.status(400).send();
+    return;
+  }
+
+  const artworkGenerator = new ArtworkGenerator(
+    projectId,
+    collectionId,
+    compositeGroupId,
+    traitSetId,
+    0,
+    0,
+    1,
+    false
+  );
+  artworkGenerator
+    .saveHandPicked(traitValuePairs)
+    .then((handPicked) => {
+      if (!handPicked.composite) {
+        res.status(409).send(handPicked.rejection);
+        return;
+      }
+      res.status(201).send(handPicked.composite);
+    })
+    .catch((err) => {
+      console.log("saving composite failed");
+      console.log(err);
+      res.status(500).send();
+    });
+});
+
 api.get("/download-archive", (req, res) => {
   const projectId = req.query.projectId?.toString();
   const collectionId = req.query.collectionId?.toString();
   const compositeGroupId = req.query.compositeGroupId?.toString();
   const userGroupId = req.query.userGroupId?.toString();
+  const seed = req.query.seed?.toString() ?? null;
+  const omitNoneAttributes = req.query.omitNoneAttributes?.toString() == "true";
 
   if (!projectId || !collectionId || !compositeGroupId || !userGroupId) {
     res.status(400).send();
@@ -59,7 +242,9 @@ api.get("/download-archive", (req, res) => {
     projectId,
     collectionId,
     compositeGroupId,
-    userGroupId
+    userGroupId,
+    seed,
+    omitNoneAttributes
   );
   downloader
     .download()
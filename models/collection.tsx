@@ -23,6 +23,29 @@ export default interface Collection {
   startDate: Date | null;
   userGroupId: string;
   nftName: string;
+  canvasWidth?: number | null;
+  canvasHeight?: number | null;
+  outputSettings?: OutputSettings;
+  renditions?: Rendition[];
+}
+
+export enum OutputFormat {
+  Png = 0,
+  WebP,
+  Jpeg,
+  Svg,
+}
+
+export interface OutputSettings {
+  format: OutputFormat;
+  quality: number | null;
+  width: number | null;
+  height: number | null;
+}
+
+// an extra, for ex. smaller, copy of every composite
+export interface Rendition extends OutputSettings {
+  name: string;
 }
 
 
@@ -35,6 +58,13 @@ export enum DropStatus {
 export namespace Collections {
   export const FB_COLLECTION_NAME = "collections";
 
+  export const OUTPUT_FORMAT_NAMES: { [format: number]: string } = {
+    [OutputFormat.Png]: "PNG",
+    [OutputFormat.WebP]: "WebP",
+    [OutputFormat.Jpeg]: "JPEG",
+    [OutputFormat.Svg]: "SVG",
+  };
+
   export async function all(
     projectId: string,
     orderByField: string = "name",
@@ -21,19 +21,111 @@ export default interface Conflict {
   trait2Id: string;
   trait1ValueId: string | null;
   trait2ValueId: string | null;
+  conditions?: ConflictCondition[];
+  resolutionTraitId?: string | null;
+  resolutionTraitValueId?: string | null;
   resolutionType: ConflictResolutionType;
 }
 
+export interface ConflictCondition {
+  traitId: string;
+  traitValueId: string | null;
+}
+
 export enum ConflictResolutionType {
   Trait2None = 0,
   Trait1None,
   Trait2Random,
   Trait1Random,
+  TraitNone,
+  TraitRandom,
+  TraitValue,
+  AllRandom,
 }
 
 export namespace Conflicts {
   export const FB_COLLECTION_NAME = "conflicts";
 
+  /**
+   * every trait (and value, or any value if null) that has to be
+   * picked together for the conflict to apply. conflicts saved before
+   * conditions existed only ever have the trait 1 / trait 2 pair
+   */
+  export function conditions(conflict: Conflict): ConflictCondition[] {
+    if (conflict.conditions && conflict.conditions.length > 0) {
+      return conflict.conditions;
+    }
+
+    return [
+      { traitId: conflict.trait1Id, traitValueId: conflict.trait1ValueId },
+      { traitId: conflict.trait2Id, traitValueId: conflict.trait2ValueId },
+    ];
+  }
+
+  /**
+   * @returns the id of the trait changed to resolve the conflict
+   */
+  export function resolutionTraitId(conflict: Conflict): string {
+    switch (conflict.resolutionType) {
+      case ConflictResolutionType.Trait1None:
+      case ConflictResolutionType.Trait1Random:
+        return conflict.trait1Id;
+      case ConflictResolutionType.Trait2None:
+      case ConflictResolutionType.Trait2Random:
+        return conflict.trait2Id;
+      default:
+        return conflict.resolutionTraitId ?? conflict.trait2Id;
+    }
+  }
+
+  export function resolvesToNone(conflict: Conflict): boolean {
+    return (
+      conflict.resolutionType == ConflictResolutionType.Trait1None ||
+      conflict.resolutionType == ConflictResolutionType.Trait2None ||
+      conflict.resolutionType == ConflictResolutionType.TraitNone
+    );
+  }
+
+  /**
+   * every condition needs a trait, and so does the trait being resolved,
+   * since the generator can't match or change a trait that isn't set.
+   * setting a specific value also needs the value, or it'd be None
+   *
+   * @returns why the conflict can't be saved, or null if it can
+   */
+  export function problem(
+    conflict: Pick<
+      Conflict,
+      | "conditions"
+      | "resolutionTraitId"
+      | "resolutionTraitValueId"
+      | "resolutionType"
+    >
+  ): string | null {
+    const conditions = conflict.conditions ?? [];
+    if (
+      conditions.length < 2 ||
+      conditions.some(
+        (condition) => !condition.traitId || condition.traitId == "-1"
+      )
+    ) {
+      return "Choose a trait for every condition";
+    }
+
+    if (!conflict.resolutionTraitId || conflict.resolutionTraitId == "-1") {
+      return "Choose the trait that resolves the conflict";
+    }
+
+    if (
+      conflict.resolutionType == ConflictResolutionType.TraitValue &&
+      !conflict.resolutionTraitValueId
+    ) {
+      return "Choose the value to set the trait to";
+    }
+
+    return null;
+  }
+
   export async function all(
     projectId: string,
     collectionId: string,
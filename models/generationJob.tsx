@@ -0,0 +1,74 @@
+import { db } from "../app-firebase";
+import { query, collection, getDocs } from "firebase/firestore";
+import { Projects } from "./project";
+import { Collections } from "./collection";
+
+export default interface GenerationJob {
+  id: string;
+  compositeGroupId: string;
+  status: GenerationJobStatus;
+  supply: number;
+  batches: GenerationJobBatch[];
+  nextBatchIndex: number;
+  nextItemIndex: number;
+  traitSetCompositeCounts: { [traitSetId: string]: number };
+  failures: GenerationJobFailure[];
+  runningSince: number | null;
+}
+
+export interface GenerationJobBatch {
+  traitSetId: string;
+  traitSetName: string;
+  startIndex: number;
+  endIndex: number;
+  isFirstBatchInTraitSet: boolean;
+}
+
+export interface GenerationJobFailure {
+  startIndex: number;
+  endIndex: number;
+  message: string;
+  failedAt: number;
+}
+
+export enum GenerationJobStatus {
+  Pending = 0,
+  Running,
+  Complete,
+  Failed,
+  Cancelled,
+}
+
+export namespace GenerationJobs {
+  export const FB_COLLECTION_NAME = "generationJobs";
+
+  export async function all(
+    projectId: string,
+    collectionId: string
+  ): Promise<Array<GenerationJob>> {
+    const generationJobsQuery = query(
+      collection(
+        db,
+        Projects.FB_COLLECTION_NAME +
+          "/" +
+          projectId +
+          "/" +
+          Collections.FB_COLLECTION_NAME +
+          "/" +
+          collectionId +
+          "/" +
+          FB_COLLECTION_NAME
+      )
+    );
+
+    const querySnapshot = await getDocs(generationJobsQuery);
+
+    const generationJobs = querySnapshot.docs.map((generationJobDoc) => {
+      const generationJob = generationJobDoc.data() as GenerationJob;
+      generationJob.id = generationJobDoc.id;
+      return generationJob;
+    });
+
+    return generationJobs;
+  }
+}
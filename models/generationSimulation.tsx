@@ -0,0 +1,43 @@
+import { RarityMode } from "./imageCompositeGroup";
+
+export interface SimulatedValueCount {
+  traitId: string;
+  traitName: string;
+  traitValueId: string | null;
+  traitValueName: string;
+  count: number;
+}
+
+export interface SimulatedConflictResolution {
+  conflictId: string;
+  description: string;
+  count: number;
+}
+
+export interface GenerationSimulation {
+  traitSetId: string | null;
+  traitSetName: string;
+  startIndex: number;
+  endIndex: number;
+  valueCounts: SimulatedValueCount[];
+  duplicateRetries: number;
+  duplicateFailures: number;
+  conflictFailures: number;
+  conflictResolutions: SimulatedConflictResolution[];
+  nullItemIndexes: number[];
+}
+
+export interface TraitSetCapacity {
+  traitSetId: string | null;
+  traitSetName: string;
+  supply: number;
+  capacity: number;
+  isEstimate: boolean;
+}
+
+export default interface GenerationSimulationResult {
+  seed: string;
+  rarityMode: RarityMode;
+  simulations: GenerationSimulation[];
+  capacities: TraitSetCapacity[];
+}
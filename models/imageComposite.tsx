@@ -14,7 +14,7 @@ import {
   deleteDoc,
 } from "firebase/firestore";
 import { Projects } from "./project";
-import { Collections } from "./collection";
+import { Collections, OutputFormat } from "./collection";
 import Trait from "./trait";
 import TraitValue from "./traitValue";
 import ImageLayer from "./imageLayer";
@@ -25,6 +25,18 @@ export default interface ImageComposite {
   externalURL: string | null;
   traits: TraitValuePair[];
   traitsHash: string;
+  traitSetId: string | null;
+  itemIndex: number;
+  format?: OutputFormat;
+  renditions?: ImageCompositeRendition[];
+  animationURL?: string | null;
+  oneOfOneId?: string | null;
+}
+
+export interface ImageCompositeRendition {
+  name: string;
+  format: OutputFormat;
+  externalURL: string | null;
 }
 
 export interface TraitValuePair {
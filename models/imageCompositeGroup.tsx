@@ -13,6 +13,14 @@ import { Collections } from "./collection";
 
 export default interface ImageCompositeGroup {
   id: string;
+  seed: string;
+  rarityMode: RarityMode;
+  isPartial: boolean;
+}
+
+export enum RarityMode {
+  Weighted = 0,
+  ExactQuota,
 }
 
 export namespace ImageCompositeGroups {
@@ -13,6 +13,7 @@ import {
   updateDoc,
   deleteDoc,
 } from "firebase/firestore";
+import { CSSProperties } from "react";
 
 export default interface ImageLayer {
   id: string;
@@ -25,11 +26,114 @@ export default interface ImageLayer {
   traitValueId: string | null;
   companionLayerId: string | null;
   companionLayerZIndex: number | null;
+  blendMode?: BlendMode;
+  opacity?: number;
+  offsetX?: number;
+  offsetY?: number;
+  scale?: number;
+  anchor?: LayerAnchor;
+  colorVariants?: ColorVariant[];
+  baseLayerId?: string | null;
+  colorVariantId?: string | null;
+  tintTraitId?: string | null;
+}
+
+// swaps one exact colour for another, for pixel art
+export interface ColorMapping {
+  source: string;
+  target: string;
+}
+
+// a recoloured copy of a base layer, given a trait value of its own
+export interface ColorVariant {
+  id: string;
+  name: string;
+  type: ColorVariantType;
+  hueShift: number;
+  colorMap: ColorMapping[];
+}
+
+export enum ColorVariantType {
+  HueShift = 0,
+  ColorMap,
+}
+
+export interface LayerFileCheck {
+  file: File;
+  width: number | null;
+  height: number | null;
+  errors: string[];
+  warnings: string[];
+  canPad: boolean;
+}
+
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+export enum BlendMode {
+  Normal = 0,
+  Multiply,
+  Screen,
+  Overlay,
+  Darken,
+  Lighten,
+  ColorDodge,
+  ColorBurn,
+  HardLight,
+  SoftLight,
+  Difference,
+  Exclusion,
+}
+
+export enum LayerAnchor {
+  TopLeft = 0,
+  Top,
+  TopRight,
+  Left,
+  Center,
+  Right,
+  BottomLeft,
+  Bottom,
+  BottomRight,
 }
 
 export namespace ImageLayers {
   export const FB_COLLECTION_NAME = "imagelayers";
 
+  export const BLEND_MODE_NAMES: { [blendMode: number]: string } = {
+    [BlendMode.Normal]: "Normal",
+    [BlendMode.Multiply]: "Multiply",
+    [BlendMode.Screen]: "Screen",
+    [BlendMode.Overlay]: "Overlay",
+    [BlendMode.Darken]: "Darken",
+    [BlendMode.Lighten]: "Lighten",
+    [BlendMode.ColorDodge]: "Color Dodge",
+    [BlendMode.ColorBurn]: "Color Burn",
+    [BlendMode.HardLight]: "Hard Light",
+    [BlendMode.SoftLight]: "Soft Light",
+    [BlendMode.Difference]: "Difference",
+    [BlendMode.Exclusion]: "Exclusion",
+  };
+
+  export const ANCHOR_NAMES: { [anchor: number]: string } = {
+    [LayerAnchor.TopLeft]: "Top Left",
+    [LayerAnchor.Top]: "Top",
+    [LayerAnchor.TopRight]: "Top Right",
+    [LayerAnchor.Left]: "Left",
+    [LayerAnchor.Center]: "Center",
+    [LayerAnchor.Right]: "Right",
+    [LayerAnchor.BottomLeft]: "Bottom Left",
+    [LayerAnchor.Bottom]: "Bottom",
+    [LayerAnchor.BottomRight]: "Bottom Right",
+  };
+
+  export const COLOR_VARIANT_TYPE_NAMES: { [type: number]: string } = {
+    [ColorVariantType.HueShift]: "Hue Shift",
+    [ColorVariantType.ColorMap]: "Colour Map",
+  };
+
   export async function all(
     projectId: string,
     collectionId: string,
@@ -163,6 +267,252 @@ export namespace ImageLayers {
     return await deleteDoc(docRef);
   }
 
+  /**
+   * css styles that preview a layer the same way the generator
+   * composites it, layers saved before blend modes existed are normal
+   */
+  export function previewStyle(imageLayer: ImageLayer): CSSProperties {
+    return {
+      mixBlendMode: cssBlendMode(imageLayer.blendMode ?? BlendMode.Normal),
+      opacity: Math.min(1, Math.max(0, imageLayer.opacity ?? 1)),
+    };
+  }
+
+  function cssBlendMode(blendMode: BlendMode): CSSProperties["mixBlendMode"] {
+    switch (blendMode) {
+      case BlendMode.Multiply:
+        return "multiply";
+      case BlendMode.Screen:
+        return "screen";
+      case BlendMode.Overlay:
+        return "overlay";
+      case BlendMode.Darken:
+        return "darken";
+      case BlendMode.Lighten:
+        return "lighten";
+      case BlendMode.ColorDodge:
+        return "color-dodge";
+      case BlendMode.ColorBurn:
+        return "color-burn";
+      case BlendMode.HardLight:
+        return "hard-light";
+      case BlendMode.SoftLight:
+        return "soft-light";
+      case BlendMode.Difference:
+        return "difference";
+      case BlendMode.Exclusion:
+        return "exclusion";
+      default:
+        return "normal";
+    }
+  }
+
+  // everything the generator can composite
+  export const SUPPORTED_FILE_TYPES: { [type: string]: string } = {
+    "image/png": "png",
+    "image/svg+xml": "svg",
+    "image/gif": "gif",
+    "image/webp": "webp",
+  };
+
+  /**
+   * check files before they're uploaded, against the collection's canvas
+   * when it has one; without one only the file itself is checked
+   */
+  export async function checkFiles(
+    files: File[],
+    canvas: CanvasSize | null
+  ): Promise<LayerFileCheck[]> {
+    const sizes = await Promise.all(
+      files.map((file) => (isSupportedFile(file) ? imageSize(file) : null))
+    );
+
+    return Promise.all(
+      files.map((file, i) => checkFile(file, sizes[i], canvas))
+    );
+  }
+
+  async function checkFile(
+    file: File,
+    size: CanvasSize | null,
+    canvas: CanvasSize | null
+  ): Promise<LayerFileCheck> {
+    const check: LayerFileCheck = {
+      file: file,
+      width: size?.width ?? null,
+      height: size?.height ?? null,
+      errors: [],
+      warnings: [],
+      canPad: false,
+    };
+
+    if (!isSupportedFile(file)) {
+      check.errors.push("Only PNG, SVG, GIF and WebP files can be composited");
+      return check;
+    }
+
+    if (!size) {
+      check.errors.push("The file couldn't be read as an image");
+      return check;
+    }
+
+    const png = fileType(file) == "png" ? await pngInfo(file) : null;
+
+    if (png && !png.hasAlpha) {
+      check.warnings.push(
+        "There's no transparency, so this layer hides everything beneath it"
+      );
+    }
+
+    if (!canvas) {
+      return check;
+    }
+
+    const sizeDescription = size.width + "x" + size.height;
+    const canvasDescription = canvas.width + "x" + canvas.height;
+
+    // a larger layer is fine as long as it's scaled down to fit
+    if (size.width > canvas.width || size.height > canvas.height) {
+      const maxScale = Math.min(
+        canvas.width / size.width,
+        canvas.height / size.height
+      );
+      check.warnings.push(
+        sizeDescription +
+          " is larger than the " +
+          canvasDescription +
+          " canvas, so it has to be given a scale of " +
+          Math.floor(maxScale * 100) / 100 +
+          " or less to fit"
+      );
+    } else if (size.width != canvas.width || size.height != canvas.height) {
+      check.warnings.push(
+        sizeDescription +
+          " is smaller than the " +
+          canvasDescription +
+          " canvas, so it'll be placed using its anchor and offset," +
+          " unless it's padded, which centres it on the canvas"
+      );
+      // padding would flatten an animation or rasterize a vector
+      check.canPad = png != null && !png.isAnimated;
+    }
+
+    return check;
+  }
+
+  function fileType(file: File): string | null {
+    const extension = file.name
+      .substr(file.name.lastIndexOf(".") + 1)
+      .toLowerCase();
+    return (
+      SUPPORTED_FILE_TYPES[file.type] ??
+      Object.values(SUPPORTED_FILE_TYPES).find((type) => type == extension) ??
+      null
+    );
+  }
+
+  function isSupportedFile(file: File): boolean {
+    return fileType(file) != null;
+  }
+
+  function imageSize(file: File): Promise<CanvasSize | null> {
+    return new Promise((resolve) => {
+      const url = URL.createObjectURL(file);
+      const image = new Image();
+      image.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(
+          image.naturalWidth > 0 && image.naturalHeight > 0
+            ? { width: image.naturalWidth, height: image.naturalHeight }
+            : null
+        );
+      };
+      image.onerror = () => {
+        URL.revokeObjectURL(url);
+        resolve(null);
+      };
+      image.src = url;
+    });
+  }
+
+  /**
+   * read the chunks of a png up to its image data to find out whether it
+   * has an alpha channel (or a transparent palette entry) and is animated
+   */
+  async function pngInfo(
+    file: File
+  ): Promise<{ hasAlpha: boolean; isAnimated: boolean }> {
+    const data = new DataView(await file.arrayBuffer());
+
+    let colorType = 0;
+    let hasTransparency = false;
+    let isAnimated = false;
+
+    // skip the 8 byte signature
+    let offset = 8;
+    while (offset + 8 <= data.byteLength) {
+      const length = data.getUint32(offset);
+      const type = String.fromCharCode(
+        data.getUint8(offset + 4),
+        data.getUint8(offset + 5),
+        data.getUint8(offset + 6),
+        data.getUint8(offset + 7)
+      );
+
+      if (type == "IHDR") {
+        colorType = data.getUint8(offset + 17);
+      } else if (type == "tRNS") {
+        hasTransparency = true;
+      } else if (type == "acTL") {
+        isAnimated = true;
+      } else if (type == "IDAT") {
+        break;
+      }
+
+      offset += length + 12;
+    }
+
+    // color types 4 and 6 are greyscale and truecolor with alpha
+    return {
+      hasAlpha: colorType == 4 || colorType == 6 || hasTransparency,
+      isAnimated: isAnimated,
+    };
+  }
+
+  /**
+   * pad an image out to the full canvas with transparency, centered
+   */
+  export async function padFile(file: File, canvas: CanvasSize): Promise<File> {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = reject;
+      image.src = url;
+    });
+    URL.revokeObjectURL(url);
+
+    const canvasElement = document.createElement("canvas");
+    canvasElement.width = canvas.width;
+    canvasElement.height = canvas.height;
+    canvasElement
+      .getContext("2d")
+      ?.drawImage(
+        image,
+        Math.floor((canvas.width - image.naturalWidth) / 2),
+        Math.floor((canvas.height - image.naturalHeight) / 2)
+      );
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvasElement.toBlob(resolve, "image/png")
+    );
+    if (!blob) {
+      throw new Error("couldn't pad " + file.name);
+    }
+
+    return new File([blob], file.name, { type: "image/png" });
+  }
+
   export function formatBytes(bytes: number, decimals = 2) {
     if (bytes === 0) return "0 B";
 
@@ -0,0 +1,198 @@
+import { db, storage } from "../app-firebase";
+import {
+  query,
+  collection,
+  doc,
+  orderBy,
+  OrderByDirection,
+  getDoc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+} from "firebase/firestore";
+import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
+import { v4 as uuidv4 } from "uuid";
+import { Projects } from "./project";
+import { Collections } from "./collection";
+
+/**
+ * a finished, hand-made item that's put into every composite group
+ * in place of a generated one. its attributes are either values of
+ * the collection's traits or names made up just for it
+ */
+export default interface OneOfOne {
+  id: string;
+  name: string;
+  bucketFilename: string;
+  url: string;
+  traitSetId: string | null;
+  attributes: OneOfOneAttribute[];
+}
+
+export interface OneOfOneAttribute {
+  traitId: string;
+  traitValueId: string | null;
+  customValueName: string | null;
+}
+
+export namespace OneOfOnes {
+  export const FB_COLLECTION_NAME = "oneofones";
+
+  export async function all(
+    projectId: string,
+    collectionId: string,
+    orderByField: string = "name",
+    orderByDirection: OrderByDirection = "asc"
+  ): Promise<Array<OneOfOne>> {
+    const oneOfOnesQuery = query(
+      collection(
+        db,
+        Projects.FB_COLLECTION_NAME +
+          "/" +
+          projectId +
+          "/" +
+          Collections.FB_COLLECTION_NAME +
+          "/" +
+          collectionId +
+          "/" +
+          OneOfOnes.FB_COLLECTION_NAME
+      ),
+      orderBy(orderByField, orderByDirection)
+    );
+
+    const querySnapshot = await getDocs(oneOfOnesQuery);
+
+    const oneOfOnes = querySnapshot.docs.map((oneOfOneDoc) => {
+      const oneOfOne = oneOfOneDoc.data() as OneOfOne;
+      oneOfOne.id = oneOfOneDoc.id;
+      return oneOfOne;
+    });
+
+    return oneOfOnes;
+  }
+
+  export async function withId(
+    oneOfOneId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<OneOfOne> {
+    const oneOfOneDocRef = doc(
+      db,
+      Projects.FB_COLLECTION_NAME +
+        "/" +
+        projectId +
+        "/" +
+        Collections.FB_COLLECTION_NAME +
+        "/" +
+        collectionId +
+        "/" +
+        OneOfOnes.FB_COLLECTION_NAME +
+        "/" +
+        oneOfOneId
+    );
+
+    const oneOfOneDoc = await getDoc(oneOfOneDocRef);
+
+    let oneOfOne = oneOfOneDoc.data() as OneOfOne;
+    oneOfOne.id = oneOfOneDoc.id;
+    return oneOfOne;
+  }
+
+  export async function create(
+    oneOfOne: OneOfOne,
+    projectId: string,
+    collectionId: string
+  ): Promise<OneOfOne> {
+    const docQuery = collection(
+      db,
+      Projects.FB_COLLECTION_NAME +
+        "/" +
+        projectId +
+        "/" +
+        Collections.FB_COLLECTION_NAME +
+        "/" +
+        collectionId +
+        "/" +
+        OneOfOnes.FB_COLLECTION_NAME
+    );
+
+    const docRef = await addDoc(docQuery, oneOfOne);
+
+    oneOfOne.id = docRef.id;
+
+    return {
+      ...oneOfOne,
+    } as OneOfOne;
+  }
+
+  export async function update(
+    updates: { [x: string]: any },
+    id: String,
+    projectId: string,
+    collectionId: string
+  ): Promise<void> {
+    const docRef = doc(
+      db,
+      Projects.FB_COLLECTION_NAME +
+        "/" +
+        projectId +
+        "/" +
+        Collections.FB_COLLECTION_NAME +
+        "/" +
+        collectionId +
+        "/" +
+        OneOfOnes.FB_COLLECTION_NAME +
+        "/" +
+        id
+    );
+    return await updateDoc(docRef, updates);
+  }
+
+  export async function remove(
+    id: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<void> {
+    const docRef = doc(
+      db,
+      Projects.FB_COLLECTION_NAME +
+        "/" +
+        projectId +
+        "/" +
+        Collections.FB_COLLECTION_NAME +
+        "/" +
+        collectionId +
+        "/" +
+        OneOfOnes.FB_COLLECTION_NAME +
+        "/" +
+        id
+    );
+    return await deleteDoc(docRef);
+  }
+
+  /**
+   * upload a one of one's image next to the collection's artwork
+   *
+   * @returns the fields to save on the one of one that uses it
+   */
+  export async function uploadImage(
+    file: File,
+    projectId: string,
+    collectionId: string
+  ): Promise<{ bucketFilename: string; url: string }> {
+    const extension = file.name.substr(file.name.lastIndexOf(".") + 1);
+    const bucketFilename = uuidv4() + "." + extension;
+    const storageRef = ref(
+      storage,
+      projectId + "/" + collectionId + "/" + bucketFilename
+    );
+
+    await uploadBytes(storageRef, file);
+
+    return {
+      bucketFilename: bucketFilename,
+      url: await getDownloadURL(storageRef),
+    };
+  }
+}
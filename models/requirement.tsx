@@ -0,0 +1,165 @@
+import { db } from "../app-firebase";
+import {
+  query,
+  collection,
+  doc,
+  orderBy,
+  OrderByDirection,
+  getDoc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+} from "firebase/firestore";
+import { Projects } from "./project";
+import { Collections } from "./collection";
+
+/**
+ * when a trait has the given value (or any value, if null), the
+ * required trait can only be one of the required values. a null
+ * required value allows the required trait to have no value at all
+ */
+export default interface Requirement {
+  id: string;
+  traitSetId: string | null;
+  traitId: string;
+  traitValueId: string | null;
+  requiredTraitId: string;
+  requiredTraitValueIds: (string | null)[];
+}
+
+export namespace Requirements {
+  export const FB_COLLECTION_NAME = "requirements";
+
+  export async function all(
+    projectId: string,
+    collectionId: string,
+    orderByField: string = "traitId",
+    orderByDirection: OrderByDirection = "asc"
+  ): Promise<Array<Requirement>> {
+    const requirementsQuery = query(
+      collection(
+        db,
+        Projects.FB_COLLECTION_NAME +
+          "/" +
+          projectId +
+          "/" +
+          Collections.FB_COLLECTION_NAME +
+          "/" +
+          collectionId +
+          "/" +
+          Requirements.FB_COLLECTION_NAME
+      ),
+      orderBy(orderByField, orderByDirection)
+    );
+
+    const querySnapshot = await getDocs(requirementsQuery);
+
+    const requirements = querySnapshot.docs.map((requirementDoc) => {
+      const requirement = requirementDoc.data() as Requirement;
+      requirement.id = requirementDoc.id;
+      return requirement;
+    });
+
+    return requirements;
+  }
+
+  export async function withId(
+    requirementId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<Requirement> {
+    const requirementDocRef = doc(
+      db,
+      Projects.FB_COLLECTION_NAME +
+        "/" +
+        projectId +
+        "/" +
+        Collections.FB_COLLECTION_NAME +
+        "/" +
+        collectionId +
+        "/" +
+        Requirements.FB_COLLECTION_NAME +
+        "/" +
+        requirementId
+    );
+
+    const requirementDoc = await getDoc(requirementDocRef);
+
+    let requirement = requirementDoc.data() as Requirement;
+    requirement.id = requirementDoc.id;
+    return requirement;
+  }
+
+  export async function create(
+    requirement: Requirement,
+    projectId: string,
+    collectionId: string
+  ): Promise<Requirement> {
+    const docQuery = collection(
+      db,
+      Projects.FB_COLLECTION_NAME +
+        "/" +
+        projectId +
+        "/" +
+        Collections.FB_COLLECTION_NAME +
+        "/" +
+        collectionId +
+        "/" +
+        Requirements.FB_COLLECTION_NAME
+    );
+
+    const docRef = await addDoc(docQuery, requirement);
+
+    requirement.id = docRef.id;
+
+    return {
+      ...requirement,
+    } as Requirement;
+  }
+
+  export async function update(
+    updates: { [x: string]: any },
+    id: String,
+    projectId: string,
+    collectionId: string
+  ): Promise<void> {
+    const docRef = doc(
+      db,
+      Projects.FB_COLLECTION_NAME +
+        "/" +
+        projectId +
+        "/" +
+        Collections.FB_COLLECTION_NAME +
+        "/" +
+        collectionId +
+        "/" +
+        Requirements.FB_COLLECTION_NAME +
+        "/" +
+        id
+    );
+    return await updateDoc(docRef, updates);
+  }
+
+  export async function remove(
+    id: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<void> {
+    const docRef = doc(
+      db,
+      Projects.FB_COLLECTION_NAME +
+        "/" +
+        projectId +
+        "/" +
+        Collections.FB_COLLECTION_NAME +
+        "/" +
+        collectionId +
+        "/" +
+        Requirements.FB_COLLECTION_NAME +
+        "/" +
+        id
+    );
+    return await deleteDoc(docRef);
+  }
+}
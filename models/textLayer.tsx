@@ -0,0 +1,194 @@
+import { db, storage } from "../app-firebase";
+import {
+  query,
+  collection,
+  doc,
+  orderBy,
+  OrderByDirection,
+  getDoc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+} from "firebase/firestore";
+import { ref, uploadBytes } from "firebase/storage";
+import { v4 as uuidv4 } from "uuid";
+import { Projects } from "./project";
+import { Collections } from "./collection";
+import { LayerAnchor } from "./imageLayer";
+
+/**
+ * text drawn into every item at its own zIndex, for ex. the item's
+ * number. placeholders in braces are filled in for each item
+ */
+export default interface TextLayer {
+  id: string;
+  name: string;
+  traitSetId: string | null;
+  text: string;
+  fontBucketFilename: string | null;
+  fontName: string | null;
+  fontSize: number;
+  color: string;
+  zIndex: number;
+  anchor?: LayerAnchor;
+  offsetX?: number;
+  offsetY?: number;
+}
+
+export namespace TextLayers {
+  export const FB_COLLECTION_NAME = "textlayers";
+
+  export async function all(
+    projectId: string,
+    collectionId: string,
+    orderByField: string = "zIndex",
+    orderByDirection: OrderByDirection = "asc"
+  ): Promise<Array<TextLayer>> {
+    const textLayersQuery = query(
+      collection(
+        db,
+        Projects.FB_COLLECTION_NAME +
+          "/" +
+          projectId +
+          "/" +
+          Collections.FB_COLLECTION_NAME +
+          "/" +
+          collectionId +
+          "/" +
+          TextLayers.FB_COLLECTION_NAME
+      ),
+      orderBy(orderByField, orderByDirection)
+    );
+
+    const querySnapshot = await getDocs(textLayersQuery);
+
+    const textLayers = querySnapshot.docs.map((textLayerDoc) => {
+      const textLayer = textLayerDoc.data() as TextLayer;
+      textLayer.id = textLayerDoc.id;
+      return textLayer;
+    });
+
+    return textLayers;
+  }
+
+  export async function withId(
+    textLayerId: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<TextLayer> {
+    const textLayerDocRef = doc(
+      db,
+      Projects.FB_COLLECTION_NAME +
+        "/" +
+        projectId +
+        "/" +
+        Collections.FB_COLLECTION_NAME +
+        "/" +
+        collectionId +
+        "/" +
+        TextLayers.FB_COLLECTION_NAME +
+        "/" +
+        textLayerId
+    );
+
+    const textLayerDoc = await getDoc(textLayerDocRef);
+
+    let textLayer = textLayerDoc.data() as TextLayer;
+    textLayer.id = textLayerDoc.id;
+    return textLayer;
+  }
+
+  export async function create(
+    textLayer: TextLayer,
+    projectId: string,
+    collectionId: string
+  ): Promise<TextLayer> {
+    const docQuery = collection(
+      db,
+      Projects.FB_COLLECTION_NAME +
+        "/" +
+        projectId +
+        "/" +
+        Collections.FB_COLLECTION_NAME +
+        "/" +
+        collectionId +
+        "/" +
+        TextLayers.FB_COLLECTION_NAME
+    );
+
+    const docRef = await addDoc(docQuery, textLayer);
+
+    textLayer.id = docRef.id;
+
+    return {
+      ...textLayer,
+    } as TextLayer;
+  }
+
+  export async function update(
+    updates: { [x: string]: any },
+    id: String,
+    projectId: string,
+    collectionId: string
+  ): Promise<void> {
+    const docRef = doc(
+      db,
+      Projects.FB_COLLECTION_NAME +
+        "/" +
+        projectId +
+        "/" +
+        Collections.FB_COLLECTION_NAME +
+        "/" +
+        collectionId +
+        "/" +
+        TextLayers.FB_COLLECTION_NAME +
+        "/" +
+        id
+    );
+    return await updateDoc(docRef, updates);
+  }
+
+  export async function remove(
+    id: string,
+    projectId: string,
+    collectionId: string
+  ): Promise<void> {
+    const docRef = doc(
+      db,
+      Projects.FB_COLLECTION_NAME +
+        "/" +
+        projectId +
+        "/" +
+        Collections.FB_COLLECTION_NAME +
+        "/" +
+        collectionId +
+        "/" +
+        TextLayers.FB_COLLECTION_NAME +
+        "/" +
+        id
+    );
+    return await deleteDoc(docRef);
+  }
+
+  /**
+   * upload a font file next to the collection's artwork
+   *
+   * @returns the fields to save on the text layer that uses it
+   */
+  export async function uploadFont(
+    file: File,
+    projectId: string,
+    collectionId: string
+  ): Promise<{ fontBucketFilename: string; fontName: string }> {
+    const extension = file.name.substr(file.name.lastIndexOf(".") + 1);
+    const fontBucketFilename = "fonts/" + uuidv4() + "." + extension;
+
+    await uploadBytes(
+      ref(storage, projectId + "/" + collectionId + "/" + fontBucketFilename),
+      file
+    );
+
+    return { fontBucketFilename: fontBucketFilename, fontName: file.name };
+  }
+}
@@ -13,6 +13,7 @@ import {
 } from "firebase/firestore";
 import { Projects } from "./project";
 import { Collections } from "./collection";
+import TraitValue from "./traitValue";
 
 export default interface Trait {
   id: string;
@@ -23,6 +24,7 @@ export default interface Trait {
   isArtworkOnly: boolean;
   isAlwaysUnique: boolean;
   excludeFromDuplicateDetection: boolean;
+  noneChance?: number | null;
 }
 
 export namespace Traits {
@@ -168,4 +170,27 @@ export namespace Traits {
     );
     return await deleteDoc(docRef);
   }
+
+  /**
+   * an explicit chance of none replaces the gap left by rarities that
+   * don't add up to 1, and the values are scaled to fill the rest
+   *
+   * @returns the chance of none, and what to multiply each value's rarity by
+   */
+  export function noneRarity(
+    trait: Trait,
+    values: TraitValue[]
+  ): { noneRarity: number; valueScale: number } {
+    const totalRarity = values.reduce((sum, value) => sum + value.rarity, 0);
+
+    if (trait.noneChance === undefined || trait.noneChance === null) {
+      return { noneRarity: Math.max(0, 1 - totalRarity), valueScale: 1 };
+    }
+
+    const noneChance = Math.min(1, Math.max(0, trait.noneChance));
+    return {
+      noneRarity: noneChance,
+      valueScale: totalRarity > 0 ? (1 - noneChance) / totalRarity : 0,
+    };
+  }
 }
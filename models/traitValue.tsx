@@ -10,20 +10,78 @@ import {
   addDoc,
   updateDoc,
   deleteDoc,
+  deleteField,
 } from "firebase/firestore";
 import { Projects } from "./project";
 import { Collections } from "./collection";
 import { Traits } from "./trait";
+import { CSSProperties } from "react";
 
 export default interface TraitValue {
   id: string;
   name: string;
   rarity: number;
+  traitSetRarities?: { [traitSetId: string]: number };
+  fill?: Fill | null;
+  tintColor?: string | null;
+}
+
+// a procedural background drawn instead of uploaded artwork.
+// gradients go from the first colour to the last
+export interface Fill {
+  type: FillType;
+  colors: string[];
+  angle: number | null;
+}
+
+export enum FillType {
+  Solid = 0,
+  LinearGradient,
+  RadialGradient,
 }
 
 export namespace TraitValues {
   export const FB_COLLECTION_NAME = "traitValues";
 
+  export const FILL_TYPE_NAMES: { [fillType: number]: string } = {
+    [FillType.Solid]: "Solid Colour",
+    [FillType.LinearGradient]: "Linear Gradient",
+    [FillType.RadialGradient]: "Radial Gradient",
+  };
+
+  // css gradients point down by default
+  export const DEFAULT_FILL_ANGLE: number = 180;
+
+  /**
+   * css that previews a fill the same way the generator draws it
+   */
+  export function fillStyle(fill: Fill): CSSProperties {
+    const colors = fill.colors.length > 0 ? fill.colors : ["#000000"];
+
+    // css gradients need at least two colours
+    const stops = (colors.length > 1 ? colors : [colors[0], colors[0]]).join(
+      ", "
+    );
+
+    switch (fill.type) {
+      case FillType.LinearGradient:
+        return {
+          background:
+            "linear-gradient(" +
+            (fill.angle ?? DEFAULT_FILL_ANGLE) +
+            "deg, " +
+            stops +
+            ")",
+        };
+      case FillType.RadialGradient:
+        return {
+          background: "radial-gradient(closest-side, " + stops + ")",
+        };
+      default:
+        return { background: colors[0] };
+    }
+  }
+
   export async function all(
     projectId: string,
     collectionId: string,
@@ -153,6 +211,40 @@ export namespace TraitValues {
     return await updateDoc(docRef, updates);
   }
 
+  /**
+   * override the rarity of a value for one trait set,
+   * or go back to the value's own rarity when null
+   */
+  export async function updateTraitSetRarity(
+    rarity: number | null,
+    traitSetId: string,
+    id: string,
+    projectId: string,
+    collectionId: string,
+    traitId: string
+  ): Promise<void> {
+    return await update(
+      { ["traitSetRarities." + traitSetId]: rarity ?? deleteField() },
+      id,
+      projectId,
+      collectionId,
+      traitId
+    );
+  }
+
+  /**
+   * @returns the rarity of a value when generating the given trait set
+   */
+  export function rarityForTraitSet(
+    traitValue: TraitValue,
+    traitSetId: string | null
+  ): number {
+    const traitSetRarity = traitSetId
+      ? traitValue.traitSetRarities?.[traitSetId]
+      : undefined;
+    return traitSetRarity ?? traitValue.rarity;
+  }
+
   export async function remove(
     id: string,
     projectId: string,
@@ -1,3 +1,4 @@
+import Link from "next/link";
 import Layout from "../../../../../../../components/Layout";
 import Header from "../../../../../../../components/Header";
 import FormDescription from "../../../../../../../components/FormDescription";
@@ -6,7 +7,9 @@ import Collection, {
   Collections,
 } from "../../../../../../../models/collection";
 import ImageLayer, {
+  BlendMode,
   ImageLayers,
+  LayerAnchor,
 } from "../../../../../../../models/imageLayer";
 import TraitSet, { TraitSets } from "../../../../../../../models/traitSet";
 import Trait, { Traits } from "../../../../../../../models/trait";
@@ -26,6 +29,7 @@ interface Props {
   traitSets: TraitSet[];
   initialTraits: Trait[];
   initialTraitValues: TraitValue[];
+  allTraits: Trait[];
 }
 
 export default function EditPage(props: Props) {
@@ -37,6 +41,7 @@ export default function EditPage(props: Props) {
   const traitSets = props.traitSets;
   const initialTraits = props.initialTraits;
   const initialTraitValues = props.initialTraitValues;
+  const allTraits = props.allTraits;
 
   const [selectedTraitSetId, setSelectedTraitSetId] = useState<string | null>(
     imageLayer.traitSetId
@@ -87,6 +92,28 @@ export default function EditPage(props: Props) {
       data.get("companionLayerZIndex")?.toString().trim() ?? ""
     );
 
+    const blendMode = parseInt(
+      data.get("blendMode")?.toString() ?? BlendMode.Normal.toString()
+    );
+
+    const opacityStr = data.get("opacity")?.toString().trim();
+    const opacity = opacityStr ? parseFloat(opacityStr) : 1;
+
+    const offsetXStr = data.get("offsetX")?.toString().trim();
+    const offsetX = offsetXStr ? parseInt(offsetXStr) : 0;
+
+    const offsetYStr = data.get("offsetY")?.toString().trim();
+    const offsetY = offsetYStr ? parseInt(offsetYStr) : 0;
+
+    const scaleStr = data.get("scale")?.toString().trim();
+    const scale = scaleStr ? parseFloat(scaleStr) : 1;
+
+    const anchor = parseInt(
+      data.get("anchor")?.toString() ?? LayerAnchor.TopLeft.toString()
+    );
+
+    const tintTraitId = data.get("tintTraitId")?.toString().trim() ?? "-1";
+
     await ImageLayers.update(
       {
         url: imageLayer.url,
@@ -97,6 +124,13 @@ export default function EditPage(props: Props) {
         traitValueId: traitValueId,
         companionLayerId: companionLayerId,
         companionLayerZIndex: companionLayerZIndex,
+        blendMode: blendMode,
+        opacity: opacity,
+        offsetX: offsetX,
+        offsetY: offsetY,
+        scale: scale,
+        anchor: anchor,
+        tintTraitId: tintTraitId == "-1" ? null : tintTraitId,
       },
       imageLayer.id,
       projectId,
@@ -155,6 +189,34 @@ export default function EditPage(props: Props) {
                         disabled
                         className="mt-1 block w-full shadow-sm sm:text-sm rounded-md border-transparent bg-gray-50 text-gray-500"
                       />
+                      {imageLayer.baseLayerId ? (
+                        <p className="text-xs text-gray-600 mt-2">
+                          A colour variant, which is redrawn and placed like the
+                          artwork it was recoloured from whenever that
+                          artwork&apos;s variants are saved
+                        </p>
+                      ) : (
+                        <p className="text-xs text-gray-600 mt-2">
+                          <Link
+                            href={
+                              "/projects/" +
+                              projectId +
+                              "/collections/" +
+                              collection.id +
+                              "/artwork/" +
+                              imageLayer.id +
+                              "/variants"
+                            }
+                          >
+                            <a className="text-indigo-600 hover:text-indigo-900">
+                              Colour Variants
+                              {imageLayer.colorVariants?.length
+                                ? " (" + imageLayer.colorVariants.length + ")"
+                                : ""}
+                            </a>
+                          </Link>
+                        </p>
+                      )}
                     </div>
 
                     {traitSets.length == 0 ? (
@@ -279,6 +341,165 @@ export default function EditPage(props: Props) {
                         className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
                       />
                     </div>
+
+                    <div>
+                      <label
+                        htmlFor="blendMode"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Blend Mode
+                      </label>
+                      <select
+                        id="blendMode"
+                        name="blendMode"
+                        className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        defaultValue={imageLayer.blendMode ?? BlendMode.Normal}
+                      >
+                        {Object.entries(ImageLayers.BLEND_MODE_NAMES).map(
+                          ([blendMode, name]) => (
+                            <option key={blendMode} value={blendMode}>
+                              {name}
+                            </option>
+                          )
+                        )}
+                      </select>
+                      <p className="text-xs text-gray-600 mt-2">
+                        How this layer mixes with the layers beneath it (ex.
+                        Multiply for shadows, Screen for glows)
+                      </p>
+                    </div>
+
+                    <div>
+                      <label
+                        htmlFor="opacity"
+                        className="block text-sm font-medium"
+                      >
+                        Opacity
+                      </label>
+                      <input
+                        type="text"
+                        name="opacity"
+                        id="opacity"
+                        placeholder="1"
+                        defaultValue={imageLayer.opacity ?? ""}
+                        className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                      />
+                      <p className="text-xs text-gray-600 mt-2">
+                        From 0 (invisible) to 1 (fully opaque). Leave blank for
+                        fully opaque
+                      </p>
+                    </div>
+
+                    <div>
+                      <label
+                        htmlFor="tintTraitId"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Tinted By
+                      </label>
+                      <select
+                        id="tintTraitId"
+                        name="tintTraitId"
+                        className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        defaultValue={imageLayer.tintTraitId ?? "-1"}
+                      >
+                        <option value="-1">Not Tinted</option>
+                        {allTraits.map((trait) => (
+                          <option key={trait.id} value={trait.id}>
+                            {trait.name}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-600 mt-2">
+                        Recolour this layer with the tint of the value picked
+                        for another trait (ex. Skin Tone), so one layer covers
+                        every colour
+                      </p>
+                    </div>
+
+                    <div>
+                      <label
+                        htmlFor="anchor"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Anchor
+                      </label>
+                      <select
+                        id="anchor"
+                        name="anchor"
+                        className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        defaultValue={imageLayer.anchor ?? LayerAnchor.TopLeft}
+                      >
+                        {Object.entries(ImageLayers.ANCHOR_NAMES).map(
+                          ([anchor, name]) => (
+                            <option key={anchor} value={anchor}>
+                              {name}
+                            </option>
+                          )
+                        )}
+                      </select>
+                      <p className="text-xs text-gray-600 mt-2">
+                        The point of the canvas that this layer is lined up
+                        with, for artwork that doesn&apos;t cover the whole
+                        canvas
+                      </p>
+                    </div>
+
+                    <div>
+                      <label
+                        htmlFor="offsetX"
+                        className="block text-sm font-medium"
+                      >
+                        Offset X
+                      </label>
+                      <input
+                        type="text"
+                        name="offsetX"
+                        id="offsetX"
+                        placeholder="0"
+                        defaultValue={imageLayer.offsetX ?? ""}
+                        className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                      />
+                    </div>
+
+                    <div>
+                      <label
+                        htmlFor="offsetY"
+                        className="block text-sm font-medium"
+                      >
+                        Offset Y
+                      </label>
+                      <input
+                        type="text"
+                        name="offsetY"
+                        id="offsetY"
+                        placeholder="0"
+                        defaultValue={imageLayer.offsetY ?? ""}
+                        className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                      />
+                    </div>
+
+                    <div>
+                      <label
+                        htmlFor="scale"
+                        className="block text-sm font-medium"
+                      >
+                        Scale
+                      </label>
+                      <input
+                        type="text"
+                        name="scale"
+                        id="scale"
+                        placeholder="1"
+                        defaultValue={imageLayer.scale ?? ""}
+                        className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                      />
+                      <p className="text-xs text-gray-600 mt-2">
+                        Offsets are in pixels from the anchor, after scaling.
+                        The layer has to stay within the collection&apos;s
+                        canvas
+                      </p>
+                    </div>
                   </div>
 
                   <div className="px-4 py-3 bg-gray-50 text-right sm:px-6">
@@ -348,6 +569,7 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
           traitSets: traitSets,
           initialTraits: initialTraits,
           initialTraitValues: initialTraitValues,
+          allTraits: traits,
         },
       };
     }
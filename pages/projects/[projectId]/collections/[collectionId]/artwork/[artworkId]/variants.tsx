@@ -0,0 +1,429 @@
+import Image from "next/image";
+import Layout from "../../../../../../../components/Layout";
+import Header from "../../../../../../../components/Header";
+import FormDescription from "../../../../../../../components/FormDescription";
+import { ProgressModal } from "../../../../../../../components/ProgressModal";
+import Project, { Projects } from "../../../../../../../models/project";
+import Collection, {
+  Collections,
+} from "../../../../../../../models/collection";
+import ImageLayer, {
+  ColorMapping,
+  ColorVariant,
+  ColorVariantType,
+  ImageLayers,
+} from "../../../../../../../models/imageLayer";
+import Trait, { Traits } from "../../../../../../../models/trait";
+import { API } from "../../../../../../../models/api";
+import { GetServerSideProps } from "next";
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/router";
+import { v4 as uuidv4 } from "uuid";
+
+interface Props {
+  projects: Project[];
+  projectId: string;
+  collection: Collection;
+  imageLayer: ImageLayer;
+  variantLayers: ImageLayer[];
+  trait: Trait | null;
+}
+
+interface VariantRow {
+  key: number;
+  variant: ColorVariant;
+}
+
+export default function VariantsPage(props: Props) {
+  const projects = props.projects;
+  const projectId = props.projectId;
+  const collection = props.collection;
+  const imageLayer = props.imageLayer;
+  const variantLayers = props.variantLayers;
+  const trait = props.trait;
+
+  const [variantRows, setVariantRows] = useState<VariantRow[]>(
+    (imageLayer.colorVariants ?? []).map((variant, index) => ({
+      key: index,
+      variant: variant,
+    }))
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const addVariantRow = () => {
+    const key = Math.max(-1, ...variantRows.map((row) => row.key)) + 1;
+    setVariantRows([
+      ...variantRows,
+      {
+        key: key,
+        variant: {
+          id: uuidv4(),
+          name: "",
+          type: ColorVariantType.HueShift,
+          hueShift: 0,
+          colorMap: [],
+        },
+      },
+    ]);
+  };
+
+  const removeVariantRow = (key: number) => {
+    setVariantRows(variantRows.filter((row) => row.key != key));
+  };
+
+  const onChangeVariantType = (key: number, type: ColorVariantType) => {
+    setVariantRows(
+      variantRows.map((row) =>
+        row.key == key
+          ? { ...row, variant: { ...row.variant, type: type } }
+          : row
+      )
+    );
+  };
+
+  const router = useRouter();
+  const onSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const data = new FormData(event.target as HTMLFormElement);
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+
+    const colorVariants = variantRows.map((row) => {
+      const name = data.get("name" + row.key)?.toString() ?? "";
+      const hueShiftStr = data.get("hueShift" + row.key)?.toString() ?? "";
+      return {
+        id: row.variant.id,
+        name: name.trim(),
+        type: row.variant.type,
+        hueShift: hueShiftStr.trim() ? parseFloat(hueShiftStr) : 0,
+        colorMap: parseColorMap(
+          data.get("colorMap" + row.key)?.toString() ?? ""
+        ),
+      } as ColorVariant;
+    });
+
+    await ImageLayers.update(
+      { colorVariants: colorVariants },
+      imageLayer.id,
+      projectId,
+      collection.id
+    );
+
+    // redraw every variant from the saved palette
+    const isGenerated = await fetch(
+      API.ENDPOINT +
+        "/generate-color-variants?projectId=" +
+        projectId +
+        "&collectionId=" +
+        collection.id +
+        "&imageLayerId=" +
+        imageLayer.id,
+      {
+        method: "GET",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+      }
+    )
+      .then((response) => response.ok)
+      .catch((error) => {
+        console.error("Error:", error);
+        return false;
+      });
+
+    setIsSubmitting(false);
+
+    if (!isGenerated) {
+      setErrorMessage(
+        "The palette was saved, but the variants couldn't be generated. Only static PNG, GIF and WebP artwork can be recoloured."
+      );
+      return;
+    }
+
+    router.push(
+      {
+        pathname:
+          "/projects/" +
+          projectId +
+          "/collections/" +
+          collection.id +
+          "/artwork",
+        query: {},
+      },
+      undefined,
+      { shallow: false }
+    );
+  };
+
+  return (
+    <Layout
+      title="Colour Variants"
+      section="collections"
+      projects={projects}
+      selectedProjectId={projectId}
+    >
+      <Header title={"Colour Variants of " + imageLayer.name} />
+      <main className="px-8 py-12">
+        <div>
+          <div className="md:grid md:grid-cols-3 md:gap-6">
+            <FormDescription
+              title="Colour Variants"
+              description="Recolour this artwork into new values of its trait. Saving redraws every variant, and removing one deletes its artwork and trait value. New variants start with a rarity of 0, so set their rarities on the trait before generating."
+            />
+            <div className="mt-5 md:mt-0 md:col-span-2">
+              <form action="#" method="POST" onSubmit={onSubmit}>
+                <div className="shadow sm:rounded-md sm:overflow-hidden">
+                  <div className="px-4 py-5 bg-white space-y-6 sm:p-6">
+                    {trait ? (
+                      <p className="text-sm text-gray-500">
+                        Each variant is added to {trait.name} with the same
+                        rarity as this artwork&apos;s value, and placed the same
+                        way as this artwork.
+                      </p>
+                    ) : (
+                      <p className="text-sm text-red-600">
+                        Assign this artwork to a trait before adding colour
+                        variants.
+                      </p>
+                    )}
+
+                    {variantRows.map((row, index) => {
+                      const variantLayer = variantLayers.find(
+                        (variantLayer) =>
+                          variantLayer.colorVariantId == row.variant.id
+                      );
+                      return (
+                        <div
+                          key={row.key}
+                          className="flex space-x-4 border-t border-gray-200 pt-6"
+                        >
+                          <div className="relative flex-none w-24 h-24 rounded-md bg-gray-100 overflow-hidden">
+                            {variantLayer ? (
+                              <Image
+                                src={variantLayer.url}
+                                unoptimized
+                                alt=""
+                                className="object-cover"
+                                layout="fill"
+                              />
+                            ) : (
+                              ""
+                            )}
+                          </div>
+                          <div className="flex-grow space-y-4">
+                            <div className="grid grid-cols-2 gap-4">
+                              <div>
+                                <label
+                                  htmlFor={"name" + row.key}
+                                  className="block text-sm font-medium text-gray-700"
+                                >
+                                  Variant {index + 1}
+                                  <a
+                                    href="#"
+                                    className="float-right text-indigo-600 hover:text-indigo-900"
+                                    onClick={(e) => {
+                                      e.preventDefault();
+                                      removeVariantRow(row.key);
+                                    }}
+                                  >
+                                    Remove
+                                  </a>
+                                </label>
+                                <input
+                                  type="text"
+                                  name={"name" + row.key}
+                                  id={"name" + row.key}
+                                  placeholder="Blue"
+                                  defaultValue={row.variant.name}
+                                  required
+                                  className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                                />
+                              </div>
+                              <div>
+                                <label
+                                  htmlFor={"type" + row.key}
+                                  className="block text-sm font-medium text-gray-700"
+                                >
+                                  Recolour With
+                                </label>
+                                <select
+                                  id={"type" + row.key}
+                                  name={"type" + row.key}
+                                  className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                                  defaultValue={row.variant.type}
+                                  onChange={(e) => {
+                                    onChangeVariantType(
+                                      row.key,
+                                      parseInt(e.currentTarget.value)
+                                    );
+                                  }}
+                                >
+                                  {Object.entries(
+                                    ImageLayers.COLOR_VARIANT_TYPE_NAMES
+                                  ).map(([type, name]) => (
+                                    <option key={type} value={type}>
+                                      {name}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                            </div>
+
+                            {row.variant.type == ColorVariantType.HueShift ? (
+                              <div>
+                                <label
+                                  htmlFor={"hueShift" + row.key}
+                                  className="block text-sm font-medium text-gray-700"
+                                >
+                                  Hue Shift
+                                </label>
+                                <input
+                                  type="text"
+                                  name={"hueShift" + row.key}
+                                  id={"hueShift" + row.key}
+                                  placeholder="0"
+                                  defaultValue={row.variant.hueShift || ""}
+                                  className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                                />
+                                <p className="text-xs text-gray-600 mt-2">
+                                  Degrees to rotate the hue of every pixel by
+                                  (ex. 120 turns red into green)
+                                </p>
+                              </div>
+                            ) : (
+                              <div>
+                                <label
+                                  htmlFor={"colorMap" + row.key}
+                                  className="block text-sm font-medium text-gray-700"
+                                >
+                                  Colour Map
+                                </label>
+                                <textarea
+                                  name={"colorMap" + row.key}
+                                  id={"colorMap" + row.key}
+                                  rows={4}
+                                  placeholder={"#d32f2f > #1976d2"}
+                                  defaultValue={row.variant.colorMap
+                                    .map(
+                                      (mapping) =>
+                                        mapping.source + " > " + mapping.target
+                                    )
+                                    .join("\n")}
+                                  className="mt-1 block w-full shadow-sm sm:text-sm rounded-md font-mono"
+                                />
+                                <p className="text-xs text-gray-600 mt-2">
+                                  One colour per line, followed by the colour to
+                                  replace it with. Colours that aren&apos;t
+                                  listed are left as they are
+                                </p>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    <div>
+                      <button
+                        type="button"
+                        className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                        onClick={() => addVariantRow()}
+                      >
+                        Add Variant
+                      </button>
+                    </div>
+
+                    {errorMessage ? (
+                      <p className="text-sm text-red-600">{errorMessage}</p>
+                    ) : (
+                      ""
+                    )}
+                  </div>
+
+                  <div className="px-4 py-3 bg-gray-50 text-right sm:px-6">
+                    <button
+                      type="submit"
+                      className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                      disabled={isSubmitting || !trait}
+                    >
+                      Save &amp; Generate
+                    </button>
+                  </div>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <ProgressModal
+        title="Generating Colour Variants"
+        message="Recolouring the artwork..."
+        loadingPercent={0}
+        indeterminate={true}
+        cancelAction={() => {}}
+        show={isSubmitting}
+      />
+    </Layout>
+  );
+}
+
+/**
+ * read a colour map written one mapping per line, as the colour to
+ * replace followed by its replacement (ex. "#d32f2f > #1976d2")
+ */
+function parseColorMap(text: string): ColorMapping[] {
+  return text
+    .split("\n")
+    .map((line) => line.match(/#[0-9a-f]{6}|#[0-9a-f]{3}/gi))
+    .filter((colors): colors is RegExpMatchArray => (colors?.length ?? 0) >= 2)
+    .map((colors) => ({
+      source: colors[0].toLowerCase(),
+      target: colors[1].toLowerCase(),
+    }));
+}
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  try {
+    const projectId = context.query.projectId?.toString();
+    const collectionId = context.query.collectionId?.toString();
+    const imageLayerId = context.query.artworkId?.toString();
+
+    if (projectId && collectionId && imageLayerId) {
+      const projects = await Projects.all();
+      const collection = await Collections.withId(collectionId, projectId);
+      const imageLayer = await ImageLayers.withId(
+        projectId,
+        collectionId,
+        imageLayerId
+      );
+      const imageLayers = await ImageLayers.all(projectId, collectionId);
+      const variantLayers = imageLayers.filter(
+        (variantLayer) => variantLayer.baseLayerId == imageLayer.id
+      );
+      const trait = imageLayer.traitId
+        ? await Traits.withId(projectId, collectionId, imageLayer.traitId)
+        : null;
+
+      return {
+        props: {
+          projects: projects,
+          projectId: projectId,
+          collection: collection,
+          imageLayer: imageLayer,
+          variantLayers: variantLayers,
+          trait: trait,
+        },
+      };
+    }
+  } catch (error) {
+    console.log("Error: ", error);
+  }
+
+  return {
+    props: {},
+  };
+};
@@ -3,9 +3,13 @@ import Header from "../../../../../../components/Header";
 import FormDescription from "../../../../../../components/FormDescription";
 import Project, { Projects } from "../../../../../../models/project";
 import Collection, { Collections } from "../../../../../../models/collection";
-import ImageLayer, { ImageLayers } from "../../../../../../models/imageLayer";
+import ImageLayer, {
+  CanvasSize,
+  ImageLayers,
+  LayerFileCheck,
+} from "../../../../../../models/imageLayer";
 import { GetServerSideProps } from "next";
-import { FormEvent, useState } from "react";
+import { ChangeEvent, FormEvent, useState } from "react";
 import { useRouter } from "next/router";
 import { storage } from "../../../../../../app-firebase";
 import {
@@ -17,6 +21,12 @@ import {
 import { v4 as uuidv4 } from "uuid";
 import { ProgressModal } from "../../../../../../components/ProgressModal";
 
+enum FileAction {
+  Upload = 0,
+  Pad,
+  Skip,
+}
+
 interface Props {
   projects: Project[];
   collection: Collection;
@@ -29,6 +39,8 @@ export default function CreatePage(props: Props) {
   const projectId = props.projectId;
 
   const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
+  const [fileChecks, setFileChecks] = useState<LayerFileCheck[]>([]);
+  const [fileActions, setFileActions] = useState<FileAction[]>([]);
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
   const [uploadingFile, setUploadingFile] = useState<string | null>(null);
   const [uploadingFileIndex, setUploadingFileIndex] = useState(0);
@@ -41,6 +53,37 @@ export default function CreatePage(props: Props) {
     setUploadModalOpen(false);
   }
 
+  const collectionCanvas: CanvasSize | null =
+    collection.canvasWidth && collection.canvasHeight
+      ? { width: collection.canvasWidth, height: collection.canvasHeight }
+      : null;
+
+  // check the files as soon as they're picked, so that problems
+  // show up here rather than as failed items during generation
+  const onFilesSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const fileList = event.target.files;
+    setSelectedFiles(fileList);
+
+    const checks = await ImageLayers.checkFiles(
+      Array.from(fileList ?? []),
+      collectionCanvas
+    );
+    setFileChecks(checks);
+    // a smaller layer may be meant to sit at its anchor, so padding is
+    // only ever something the user picks
+    setFileActions(
+      checks.map((check) =>
+        check.errors.length > 0 ? FileAction.Skip : FileAction.Upload
+      )
+    );
+  };
+
+  const setFileAction = (index: number, action: FileAction) => {
+    setFileActions(
+      fileActions.map((fileAction, i) => (i == index ? action : fileAction))
+    );
+  };
+
   const router = useRouter();
 
   const onSubmit = async (event: FormEvent) => {
@@ -50,7 +93,20 @@ export default function CreatePage(props: Props) {
       return;
     }
 
-    const files = Array.from(selectedFiles);
+    const files = await Promise.all(
+      fileChecks
+        .map((check, i) => ({ check: check, action: fileActions[i] }))
+        .filter(({ action }) => action != FileAction.Skip)
+        .map(({ check, action }) =>
+          action == FileAction.Pad && collectionCanvas
+            ? ImageLayers.padFile(check.file, collectionCanvas)
+            : check.file
+        )
+    );
+
+    if (files.length == 0) {
+      return;
+    }
 
     setTotalFiles(files.length);
     setUploadModalOpen(true);
@@ -219,10 +275,13 @@ export default function CreatePage(props: Props) {
                             type="file"
                             multiple
                             className="sr-only"
-                            onChange={(e) => setSelectedFiles(e.target.files)}
+                            onChange={onFilesSelected}
                           />
                           <p className="text-xs text-gray-500 pb-5">
-                            Transparent PNGs recommended
+                            Transparent PNGs or SVGs recommended. SVG layers are
+                            rendered at the collection&apos;s output size.
+                            Animated GIF, WebP and APNG layers make animated
+                            composites
                           </p>
                           <p className="text-xs text-gray-500 pb-5">
                             {selectedFiles
@@ -232,6 +291,30 @@ export default function CreatePage(props: Props) {
                         </div>
                       </label>
                     </div>
+
+                    {fileChecks.length > 0 && (
+                      <div className="sm:col-span-6">
+                        <p className="text-sm text-gray-500">
+                          {collectionCanvas
+                            ? "Checked against the collection's " +
+                              collectionCanvas.width +
+                              "x" +
+                              collectionCanvas.height +
+                              " canvas"
+                            : "The collection has no canvas size yet, so layer sizes weren't checked. Set one in the collection's settings to check them"}
+                        </p>
+                        <ul className="mt-2 divide-y divide-gray-200">
+                          {fileChecks.map((check, i) => (
+                            <FileCheckRow
+                              key={i}
+                              check={check}
+                              action={fileActions[i]}
+                              setAction={(action) => setFileAction(i, action)}
+                            />
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
 
                   <div className="px-4 py-3 bg-gray-50 text-right sm:px-6">
@@ -273,6 +356,54 @@ export default function CreatePage(props: Props) {
   );
 }
 
+const FileCheckRow: React.FC<{
+  check: LayerFileCheck;
+  action: FileAction;
+  setAction: (action: FileAction) => void;
+}> = ({ check, action, setAction }) => {
+  const hasIssues = check.errors.length > 0 || check.warnings.length > 0;
+
+  return (
+    <li className="py-2 flex items-start justify-between text-sm">
+      <div>
+        <p className="font-medium text-gray-700">
+          {check.file.name}
+          {check.width && check.height ? (
+            <span className="ml-2 text-xs text-gray-400">
+              {check.width}x{check.height}
+            </span>
+          ) : null}
+        </p>
+        {check.errors.map((error) => (
+          <p key={error} className="text-xs text-red-700">
+            {error}
+          </p>
+        ))}
+        {check.warnings.map((warning) => (
+          <p key={warning} className="text-xs text-yellow-700">
+            {warning}
+          </p>
+        ))}
+      </div>
+      {hasIssues && (
+        <select
+          value={action}
+          onChange={(e) => setAction(parseInt(e.target.value))}
+          className="ml-4 shadow-sm sm:text-sm rounded-md"
+        >
+          {check.errors.length == 0 && (
+            <option value={FileAction.Upload}>Upload</option>
+          )}
+          {check.canPad && (
+            <option value={FileAction.Pad}>Pad to canvas, centred</option>
+          )}
+          <option value={FileAction.Skip}>Skip</option>
+        </select>
+      )}
+    </li>
+  );
+};
+
 export const getServerSideProps: GetServerSideProps = async (context) => {
   try {
     const projectId = context.query.projectId?.toString();
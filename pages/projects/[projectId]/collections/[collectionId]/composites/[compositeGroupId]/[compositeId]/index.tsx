@@ -119,7 +119,7 @@ export default function IndexPage(props: Props) {
                     <div className="float-left p-4">
                       {composite.externalURL ? (
                         <Image
-                          src={composite.externalURL}
+                          src={composite.animationURL ?? composite.externalURL}
                           alt="Skull"
                           width="500"
                           height="500"
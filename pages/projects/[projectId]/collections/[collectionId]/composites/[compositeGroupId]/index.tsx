@@ -10,6 +10,9 @@ import { GetServerSideProps } from "next";
 import ImageComposite, {
   ImageComposites,
 } from "../../../../../../../models/imageComposite";
+import ImageCompositeGroup, {
+  ImageCompositeGroups,
+} from "../../../../../../../models/imageCompositeGroup";
 import { API } from "../../../../../../../models/api";
 import { ProgressModal } from "../../../../../../../components/ProgressModal";
 import { ActionModal } from "../../../../../../../components/ActionModal";
@@ -20,6 +23,7 @@ interface Props {
   projects: Project[];
   collection: Collection;
   compositeGroupId: string;
+  compositeGroup: ImageCompositeGroup;
   composites: ImageComposite[];
   projectId: string;
   userGroupId: string;
@@ -30,6 +34,7 @@ export default function IndexPage(props: Props) {
   const projects = props.projects;
   const collection = props.collection;
   const compositeGroupId = props.compositeGroupId;
+  const compositeGroup = props.compositeGroup;
   const composites = props.composites;
   const projectId = props.projectId;
   const userGroupId = props.userGroupId;
@@ -39,6 +44,7 @@ export default function IndexPage(props: Props) {
 
   const [downloadModalOpen, setDownloadModalOpen] = useState(false);
   const [downloadURL, setDownloadURL] = useState("");
+  const [omitNoneAttributes, setOmitNoneAttributes] = useState(false);
 
   function notEmpty<TValue>(value: TValue | null | undefined): value is TValue {
     return value !== null && value !== undefined;
@@ -64,7 +70,9 @@ export default function IndexPage(props: Props) {
         "&compositeGroupId=" +
         compositeGroupId +
         "&userGroupId=" +
-        userGroupId,
+        userGroupId +
+        "&omitNoneAttributes=" +
+        omitNoneAttributes,
       {
         method: "GET",
         headers: {
@@ -168,15 +176,33 @@ export default function IndexPage(props: Props) {
                   </button>
                 </a>
               </Link>
+              <label className="inline-flex items-center mr-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="mr-1 rounded"
+                  checked={omitNoneAttributes}
+                  onChange={(e) => setOmitNoneAttributes(e.target.checked)}
+                />
+                Leave out traits with no value
+              </label>
               <button
                 type="button"
-                className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
                 onClick={(e) => packageForMint()}
+                disabled={compositeGroup?.isPartial}
               >
                 Export for Candy Machine 🍬
               </button>
             </div>
 
+            {compositeGroup?.isPartial && (
+              <p className="clear-both px-8 pt-4 text-sm text-yellow-700">
+                This composite group hasn&apos;t finished generating, so it only
+                contains {composites.length} of {collection.supply} items and
+                can&apos;t be exported.
+              </p>
+            )}
+
             <ul
               role="list"
               className="grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-3 sm:gap-x-6 lg:grid-cols-4 xl:gap-x-8 clear-both px-8 py-4"
@@ -260,6 +286,11 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
       const projects = await Projects.all();
       const collection = await Collections.withId(collectionId, projectId);
       const project = projects.find((project) => project.id == projectId);
+      const compositeGroup = await ImageCompositeGroups.withId(
+        compositeGroupId,
+        projectId,
+        collectionId
+      );
       const composites = await ImageComposites.all(
         projectId,
         collectionId,
@@ -285,6 +316,7 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
           projects: projects,
           collection: collection,
           compositeGroupId: compositeGroupId,
+          compositeGroup: compositeGroup,
           composites: composites,
           projectId: projectId,
           userGroupId: collection.userGroupId,
@@ -7,6 +7,7 @@ import Collection, {
   Collections,
 } from "../../../../../../../models/collection";
 import Trait, { Traits } from "../../../../../../../models/trait";
+import TraitSet, { TraitSets } from "../../../../../../../models/traitSet";
 import TraitValue, {
   TraitValues,
 } from "../../../../../../../models/traitValue";
@@ -20,6 +21,7 @@ import ImageLayer, {
   ImageLayers,
 } from "../../../../../../../models/imageLayer";
 import { TraitValuePair } from "../../../../../../../models/imageComposite";
+import { API } from "../../../../../../../models/api";
 import Image from "next/image";
 
 interface Props {
@@ -28,39 +30,68 @@ interface Props {
   collection: Collection;
   compositeGroup: ImageCompositeGroup;
   projectId: string;
+  traitSets: TraitSet[];
   traits: Trait[];
   traitValuesDict: { [traitId: string]: TraitValue[] };
   imageLayers: ImageLayer[];
 }
 
+// fills are always drawn as the bottom layer, like the generator does
+function previewZIndex(pair: TraitValuePair): number {
+  return !pair.imageLayer && pair.traitValue?.fill
+    ? -Infinity
+    : pair.trait.zIndex;
+}
+
 export default function CreatePage(props: Props) {
   const project = props.project;
   const projects = props.projects;
   const collection = props.collection;
   const compositeGroup = props.compositeGroup;
   const projectId = props.projectId;
+  const traitSets = props.traitSets;
   const traits = props.traits;
   const traitValuesDict = props.traitValuesDict;
   const imageLayers = props.imageLayers;
 
-  const startingTraitValuePairs = traits.map((trait) => {
-    return {
-      trait: trait,
-      traitValue: null,
-      imageLayer: null,
-    } as TraitValuePair;
-  });
+  // an item is made from the traits and artwork of a single trait set
+  const traitsInTraitSet = (traitSetId: string) =>
+    traitSetId == "-1"
+      ? traits
+      : traits.filter((trait) => trait.traitSetIds?.includes(traitSetId));
+
+  const emptyTraitValuePairs = (traitSetId: string) =>
+    traitsInTraitSet(traitSetId).map((trait) => {
+      return {
+        trait: trait,
+        traitValue: null,
+        imageLayer: null,
+      } as TraitValuePair;
+    });
+
+  const startingTraitSetId = traitSets[0]?.id ?? "-1";
 
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const [traitSetId, setTraitSetId] = useState(startingTraitSetId);
+
   const [traitId, setTraitId] = useState<string | null>(null);
   const [traitValueId, setTraitValueId] = useState<string | null>(null);
   const [traitValuePairs, setTraitValuePairs] = useState<TraitValuePair[]>(
-    startingTraitValuePairs
+    emptyTraitValuePairs(startingTraitSetId)
   );
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   const router = useRouter();
 
+  const traitSetTraits = traitsInTraitSet(traitSetId);
+
+  const onChangeTraitSetId = (traitSetId: string) => {
+    setTraitSetId(traitSetId);
+    setTraitValuePairs(emptyTraitValuePairs(traitSetId));
+    setErrorMessage(null);
+  };
+
   const onChangeTraitId = async (traitId: string) => {
     setTraitId(traitId);
   };
@@ -69,31 +100,51 @@ export default function CreatePage(props: Props) {
     setTraitValueId(traitValueId);
   };
 
-  const onSave = async (event: FormEvent) => {
+  const onSave = async (event: React.MouseEvent) => {
+    event.preventDefault();
     setIsSubmitting(true);
-    // const newTraits = [traitValuePair];
-
-    // const newImageComposite = {
-    //   externalURL: "",
-    //   traits: newTraits,
-    // } as ImageComposite;
-
-    // const imageComposites = [
-    //   ...compositeGroup.imageComposites,
-    //   newImageComposite,
-    // ];
-
-    // await ImageCompositeGroups.update(
-    //   {
-    //     imageComposites: imageComposites,
-    //   },
-    //   compositeGroup.id,
-    //   projectId,
-    //   collection.id
-    // );
+    setErrorMessage(null);
+
+    // the item is drawn and checked for duplicates and conflicts
+    // by the generator, which explains why when it won't save it
+    const rejection = await fetch(
+      API.ENDPOINT +
+        "/save-composite?projectId=" +
+        projectId +
+        "&collectionId=" +
+        collection.id +
+        "&compositeGroupId=" +
+        compositeGroup.id +
+        "&traitSetId=" +
+        traitSetId,
+      {
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ traitValuePairs: traitValuePairs }),
+      }
+    )
+      .then(async (response) =>
+        response.ok
+          ? null
+          : response.status == 409
+          ? await response.text()
+          : "The composite couldn't be saved"
+      )
+      .catch((error) => {
+        console.error("Error:", error);
+        return "The composite couldn't be saved";
+      });
 
     setIsSubmitting(false);
 
+    if (rejection !== null) {
+      setErrorMessage(rejection);
+      return;
+    }
+
     router.push(
       {
         pathname:
@@ -121,7 +172,7 @@ export default function CreatePage(props: Props) {
     const traitValueId = data.get("traitValueId")?.toString().trim();
 
     if (traitId && traitValueId) {
-      const trait = traits.find((trait) => {
+      const trait = traitSetTraits.find((trait) => {
         return trait.id == traitId;
       });
 
@@ -131,7 +182,11 @@ export default function CreatePage(props: Props) {
         });
 
         const imageLayer = imageLayers.find((layer) => {
-          return layer.traitId == traitId && layer.traitValueId == traitValueId;
+          return (
+            layer.traitId == traitId &&
+            layer.traitValueId == traitValueId &&
+            (traitSetId == "-1" || layer.traitSetId == traitSetId)
+          );
         });
 
         const newTraitValuePair = {
@@ -193,6 +248,14 @@ export default function CreatePage(props: Props) {
             </button>
           </a>
         </Link>
+        <button
+          type="button"
+          className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          onClick={onSave}
+          disabled={isSubmitting}
+        >
+          Save Composite
+        </button>
       </div>
       <main className="px-8 py-12">
         <div>
@@ -208,16 +271,23 @@ export default function CreatePage(props: Props) {
                 >
                   {traitValuePairs
                     .sort((pairA, pairB) => {
-                      return pairA.trait.zIndex < pairB.trait.zIndex
+                      return previewZIndex(pairA) < previewZIndex(pairB)
                         ? -1
-                        : pairA.trait.zIndex == pairB.trait.zIndex
+                        : previewZIndex(pairA) == previewZIndex(pairB)
                         ? 0
                         : 1;
                     })
                     .map((pair) => (
                       <div
                         key={pair.trait.id}
-                        className="absolute top-0 left-0"
+                        className="absolute top-0 left-0 w-96 h-96"
+                        style={
+                          pair.imageLayer
+                            ? ImageLayers.previewStyle(pair.imageLayer)
+                            : pair.traitValue?.fill
+                            ? TraitValues.fillStyle(pair.traitValue.fill)
+                            : {}
+                        }
                       >
                         {pair.imageLayer?.url ? (
                           <Image
@@ -255,11 +325,45 @@ export default function CreatePage(props: Props) {
                     ))}
                 </ul>
               </FormDescription>
+              {errorMessage ? (
+                <p className="clear-both text-sm text-red-600">
+                  {errorMessage}
+                </p>
+              ) : (
+                ""
+              )}
             </div>
             <div className="mt-5 md:mt-0 md:col-span-2">
               <form action="#" method="POST" onSubmit={onSetTrait}>
                 <div className="shadow sm:rounded-md sm:overflow-hidden">
                   <div className="px-4 py-5 bg-white space-y-6 sm:p-6">
+                    {traitSets.length == 0 ? (
+                      ""
+                    ) : (
+                      <div>
+                        <label
+                          htmlFor="traitSetId"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Trait Set
+                        </label>
+
+                        <select
+                          id="traitSetId"
+                          name="traitSetId"
+                          className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                          value={traitSetId}
+                          onChange={(e) => onChangeTraitSetId(e.target.value)}
+                        >
+                          {traitSets.map((traitSet) => (
+                            <option key={traitSet.id} value={traitSet.id}>
+                              {traitSet.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
                     <div>
                       <label
                         htmlFor="traitId"
@@ -282,7 +386,7 @@ export default function CreatePage(props: Props) {
                         }}
                       >
                         <option value="-1">Unassigned</option>
-                        {traits.map((trait) => (
+                        {traitSetTraits.map((trait) => (
                           <option key={trait.id} value={trait.id}>
                             {trait.name}
                           </option>
@@ -355,6 +459,7 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
         projectId,
         collectionId
       );
+      const traitSets = await TraitSets.all(projectId, collectionId);
       const traits = await Traits.all(projectId, collectionId, "name");
       const traitValuesDict: { [traitId: string]: TraitValue[] } = {};
       for (let i = 0; i < traits.length; i++) {
@@ -375,6 +480,7 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
           collection: collection,
           compositeGroup: compositeGroup,
           projectId: projectId,
+          traitSets: traitSets,
           traits: traits,
           traitValuesDict: traitValuesDict,
           imageLayers: imageLayers,
@@ -26,6 +26,13 @@ interface Props {
   projectId: string;
 }
 
+interface RarityRow {
+  id: string;
+  name: string;
+  expectedRarity: number;
+  count: number;
+}
+
 export default function IndexPage(props: Props) {
   const project = props.project;
   const projects = props.projects;
@@ -36,6 +43,86 @@ export default function IndexPage(props: Props) {
   const traitValuesDict = props.traitValuesDict;
   const projectId = props.projectId;
 
+  const countComposites = (traitId: string, traitValueId: string | null) =>
+    composites.filter((composite) => {
+      const traitPair: TraitValuePair | undefined = composite.traits.find(
+        (compositeTraitValuePair) => {
+          return compositeTraitValuePair.trait.id == traitId;
+        }
+      );
+      return (traitPair?.traitValue?.id ?? null) == traitValueId;
+    }).length;
+
+  // values can have a different rarity in each trait set, so what's expected
+  // is the rarity every trait set was generated with, weighted by how
+  // many of the group's items with the trait are in that trait set
+  const expectedRarities = (
+    trait: Trait,
+    traitValues: TraitValue[]
+  ): { [traitValueId: string]: number } => {
+    const traitComposites = composites.filter((composite) =>
+      composite.traits.some((pair) => pair.trait.id == trait.id)
+    );
+    const traitSetIds = Array.from(
+      new Set(traitComposites.map((composite) => composite.traitSetId ?? null))
+    );
+
+    const expected: { [traitValueId: string]: number } = {};
+    (traitSetIds.length > 0 ? traitSetIds : [null]).forEach((traitSetId) => {
+      const weight =
+        traitComposites.length > 0
+          ? traitComposites.filter(
+              (composite) => (composite.traitSetId ?? null) == traitSetId
+            ).length / traitComposites.length
+          : 1;
+
+      const traitSetValues = traitValues.map((traitValue) => ({
+        ...traitValue,
+        rarity: TraitValues.rarityForTraitSet(traitValue, traitSetId),
+      }));
+      const { noneRarity, valueScale } = Traits.noneRarity(
+        trait,
+        traitSetValues
+      );
+
+      traitSetValues.forEach((traitValue) => {
+        expected[traitValue.id] =
+          (expected[traitValue.id] ?? 0) +
+          traitValue.rarity * valueScale * weight;
+      });
+      expected["-1"] = (expected["-1"] ?? 0) + noneRarity * weight;
+    });
+
+    return expected;
+  };
+
+  // every value, and "none" whenever a trait is expected to or did end up without one
+  const rarityRows = (trait: Trait): RarityRow[] => {
+    const traitValues = traitValuesDict[trait.id];
+    const expected = expectedRarities(trait, traitValues);
+
+    const rows: RarityRow[] = traitValues.map((traitValue) => ({
+      id: traitValue.id,
+      name: traitValue.name,
+      expectedRarity: expected[traitValue.id],
+      count: countComposites(trait.id, traitValue.id),
+    }));
+
+    // always unique traits are dealt out one value per item instead
+    const expectedNoneRarity = trait.isAlwaysUnique ? 0 : expected["-1"];
+    const noneCount = countComposites(trait.id, null);
+    if (expectedNoneRarity > 0 || noneCount > 0) {
+      rows.push({
+        id: "-1",
+        name: "None",
+        expectedRarity: expectedNoneRarity,
+        count: noneCount,
+      });
+    }
+
+    return rows;
+  };
+
   if (!projects) {
     return " " + projectId + " ";
   } else if (composites.length == 0) {
@@ -127,43 +214,33 @@ export default function IndexPage(props: Props) {
                       </tr>
                     </thead>
                     <tbody>
-                      {traitValuesDict[trait.id].map((traitValue, idx) => {
-                        const numCompositesWithTraitValue = composites.filter(
-                          (composite) => {
-                            const traitPair: TraitValuePair | undefined =
-                              composite.traits.find(
-                                (compositeTraitValuePair) => {
-                                  return (
-                                    compositeTraitValuePair.trait.id == trait.id
-                                  );
-                                }
-                              );
-                            return traitPair?.traitValue?.id == traitValue.id;
-                          }
-                        ).length;
-
-                        const rarity =
-                          numCompositesWithTraitValue / composites.length;
+                      {rarityRows(trait).map((row, idx) => {
+                        const rarity = row.count / composites.length;
                         const rarityRounded =
                           Math.round((rarity + Number.EPSILON) * 10000) / 10000;
-                        const diff = rarity - traitValue.rarity;
+                        const expectedRarityRounded =
+                          Math.round(
+                            (row.expectedRarity + Number.EPSILON) * 10000
+                          ) / 10000;
+                        const diff = rarity - row.expectedRarity;
                         const diffRounded =
                           Math.round((diff + Number.EPSILON) * 10000) / 10000;
 
                         return (
                           <tr
-                            key={traitValue.id}
+                            key={row.id}
                             className={
                               idx % 2 === 0 ? "bg-white" : "bg-gray-50"
                             }
                           >
-                            <td className="px-6 py-3">{traitValue.name}</td>
-                            <td className="px-6 py-3">{traitValue.rarity}</td>
+                            <td className="px-6 py-3">{row.name}</td>
+                            <td className="px-6 py-3">
+                              {expectedRarityRounded}
+                            </td>
                             <td className="px-6 py-3">
                               {rarityRounded}{" "}
                               <span className="italic text-xs">
-                                ({numCompositesWithTraitValue}/
-                                {composites.length})
+                                ({row.count}/{composites.length})
                               </span>
                             </td>
                             {diffRounded > 0 ? (
@@ -7,15 +7,22 @@ import Project, { Projects } from "../../../../../../models/project";
 import Collection, { Collections } from "../../../../../../models/collection";
 import ImageCompositeGroup, {
   ImageCompositeGroups,
+  RarityMode,
 } from "../../../../../../models/imageCompositeGroup";
 import { ImageComposites } from "../../../../../../models/imageComposite";
-import { TraitSets } from "../../../../../../models/traitSet";
+import GenerationJob, {
+  GenerationJobs,
+  GenerationJobStatus,
+} from "../../../../../../models/generationJob";
 import { GetServerSideProps } from "next";
 import { DestructiveModal } from "../../../../../../components/DestructiveModal";
 import { ProgressModal } from "../../../../../../components/ProgressModal";
-import { useState } from "react";
+import { SimulationModal } from "../../../../../../components/SimulationModal";
+import GenerationSimulationResult from "../../../../../../models/generationSimulation";
+import { useRef, useState } from "react";
 import { useRouter } from "next/router";
 import { API } from "../../../../../../models/api";
+import { v4 as uuidv4 } from "uuid";
 
 interface Props {
   project: Project;
@@ -23,6 +30,7 @@ interface Props {
   collection: Collection;
   compositeGroups: ImageCompositeGroup[];
   compositesCountDict: { [compositeGroupId: string]: number };
+  generationJobsDict: { [compositeGroupId: string]: GenerationJob };
   projectId: string;
 }
 
@@ -32,13 +40,19 @@ export default function IndexPage(props: Props) {
   const collection = props.collection;
   const compositeGroups = props.compositeGroups;
   const compositesCountDict = props.compositesCountDict;
+  const generationJobsDict = props.generationJobsDict;
   const projectId = props.projectId;
 
   const BATCH_SIZE = 100;
 
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [generatingModalOpen, setGeneratingModalOpen] = useState(false);
-  const [isGeneratingCancelled, setIsGeneratingCancelled] = useState(false);
+  const [rarityMode, setRarityMode] = useState(RarityMode.Weighted);
+
+  const [simulatingModalOpen, setSimulatingModalOpen] = useState(false);
+  const [simulationModalOpen, setSimulationModalOpen] = useState(false);
+  const [simulationResult, setSimulationResult] =
+    useState<GenerationSimulationResult | null>(null);
 
   const [generatingTraitSetName, setGeneratingTraitSetName] = useState("");
   const [generatingTraitSetSize, setGeneratingTraitSetSize] = useState(0);
@@ -50,6 +64,11 @@ export default function IndexPage(props: Props) {
     string | null
   >(null);
 
+  // refs rather than state, so that the generation loop
+  // sees a cancellation made while it's running
+  const isGeneratingCancelled = useRef(false);
+  const generatingJobId = useRef<string | null>(null);
+
   const router = useRouter();
 
   const confirmDeleteCompositeGroup = (
@@ -79,93 +98,181 @@ export default function IndexPage(props: Props) {
     setDeleteModalOpen(false);
   };
 
-  const generateNewCompositeGroup = async () => {
-    let batchNum = 0;
-    let totalCreated = 0;
+  // dry run the trait picks for a new seed so the user can
+  // preview the results before committing to generating artwork
+  const simulateNewCompositeGroup = async () => {
+    setSimulatingModalOpen(true);
+
+    const result = await fetch(
+      API.ENDPOINT +
+        "/simulate-generation?projectId=" +
+        projectId +
+        "&collectionId=" +
+        collection.id +
+        "&seed=" +
+        encodeURIComponent(uuidv4()) +
+        "&rarityMode=" +
+        rarityMode +
+        "&batchSize=" +
+        BATCH_SIZE,
+      {
+        method: "GET",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+      }
+    )
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error("Network response was not ok");
+        }
+        return response.json();
+      })
+      .catch((error) => {
+        console.error("Error:", error);
+        return null;
+      });
+
+    setSimulatingModalOpen(false);
+
+    if (result) {
+      setSimulationResult(result);
+      setSimulationModalOpen(true);
+    }
+  };
 
-    setIsGeneratingCancelled(false);
+  const generateNewCompositeGroup = async (
+    seed: string,
+    rarityMode: RarityMode
+  ) => {
+    isGeneratingCancelled.current = false;
     setGeneratingModalOpen(true);
 
+    // the seed drives every random pick for this group,
+    // so the same config and seed will always reproduce it
     const compositeGroup = await ImageCompositeGroups.create(
-      {} as ImageCompositeGroup,
+      { seed: seed, rarityMode: rarityMode } as ImageCompositeGroup,
       projectId,
       collection.id
     );
 
-    let traitSets = await TraitSets.all(projectId, collection.id);
-    if (traitSets.length == 0) {
-      const defaultTraitSet = await TraitSets.defaultTraitSet(
-        projectId,
-        collection
-      );
-      traitSets = [defaultTraitSet];
+    // the batches are planned and tracked server side, so that
+    // an interrupted run can be resumed from where it stopped
+    const generationJob = await fetch(
+      API.ENDPOINT +
+        "/create-generation-job?projectId=" +
+        projectId +
+        "&collectionId=" +
+        collection.id +
+        "&compositeGroupId=" +
+        compositeGroup.id +
+        "&batchSize=" +
+        BATCH_SIZE,
+      {
+        method: "GET",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+      }
+    )
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error("Network response was not ok");
+        }
+        return response.json();
+      })
+      .catch((error) => {
+        console.error("Error:", error);
+        return null;
+      });
+
+    if (!generationJob) {
+      setGeneratingModalOpen(false);
+      router.reload();
+      return;
     }
 
-    for (let i = 0; i < traitSets.length && !isGeneratingCancelled; i++) {
-      const traitSet = traitSets[i];
-      let traitSetCreated = 0;
-
-      setGeneratingTraitSetName(traitSet.name);
-      setGeneratingTraitSetSize(traitSet.supply);
-
-      while (
-        traitSet.supply > traitSetCreated &&
-        collection.supply > totalCreated &&
-        !isGeneratingCancelled
-      ) {
-        setTraitSetGeneratedItems(traitSetCreated);
-        setTotalGeneratedItems(totalCreated);
-
-        const maxTraitSetBatchSize = traitSet.supply - traitSetCreated;
-        const batchSize = Math.min(BATCH_SIZE, maxTraitSetBatchSize);
-
-        const newComposites = await fetch(
-          API.ENDPOINT +
-            "/generate-artwork?projectId=" +
-            projectId +
-            "&collectionId=" +
-            collection.id +
-            "&compositeGroupId=" +
-            compositeGroup.id +
-            "&traitSetId=" +
-            traitSet.id +
-            "&startIndex=" +
-            totalCreated +
-            "&batchSize=" +
-            batchSize +
-            "&isFirstBatchInTraitSet=" +
-            (traitSetCreated == 0 ? "1" : "0"),
-          {
-            method: "GET",
-            headers: {
-              Accept: "application/json",
-              "Content-Type": "application/json",
-            },
+    await runGenerationJob(generationJob);
+  };
+
+  const resumeGenerationJob = async (
+    event: React.MouseEvent,
+    generationJob: GenerationJob
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+
+    isGeneratingCancelled.current = false;
+    setGeneratingModalOpen(true);
+
+    await runGenerationJob(generationJob);
+  };
+
+  const runGenerationJob = async (generationJob: GenerationJob) => {
+    generatingJobId.current = generationJob.id;
+
+    // cancelled while the job was still being created
+    if (isGeneratingCancelled.current) {
+      await cancelGenerationJob(generationJob.id);
+    }
+
+    let job: GenerationJob | null = generationJob;
+
+    while (
+      job &&
+      job.status != GenerationJobStatus.Complete &&
+      job.status != GenerationJobStatus.Cancelled &&
+      !isGeneratingCancelled.current
+    ) {
+      showGenerationJobProgress(job);
+
+      job = await fetch(
+        API.ENDPOINT +
+          "/run-generation-job?projectId=" +
+          projectId +
+          "&collectionId=" +
+          collection.id +
+          "&generationJobId=" +
+          job.id,
+        {
+          method: "GET",
+          headers: {
+            Accept: "application/json",
+            "Content-Type": "application/json",
+          },
+        }
+      )
+        .then((response) => {
+          if (!response.ok) {
+            throw new Error("Network response was not ok");
           }
-        )
-          .then((response) => {
-            if (!response.ok) {
-              throw new Error("Network response was not ok");
-            }
-            return response.json();
-          })
-          .then((json) => {
-            console.log(json);
-            return json;
-          })
-          .catch((error) => {
-            console.error("Error:", error);
-          });
-
-        traitSetCreated += batchSize;
-        totalCreated += batchSize;
+          return response.json();
+        })
+        .catch((error) => {
+          console.error("Error:", error);
+          return null;
+        });
+
+      // items the batch couldn't generate are left for the user to resume
+      if (job?.status == GenerationJobStatus.Failed) {
+        break;
       }
     }
 
-    console.log("art generation complete");
-
+    generatingJobId.current = null;
     setGeneratingModalOpen(false);
 
+    // the job keeps track of every batch it finished, so it can be
+    // resumed (or seen to be partial) from the list of composite groups
+    if (job?.status != GenerationJobStatus.Complete) {
+      router.reload();
+      return;
+    }
+
+    console.log("art generation complete");
+
     router.push(
       {
         pathname:
@@ -174,7 +281,7 @@ export default function IndexPage(props: Props) {
           "/collections/" +
           collection.id +
           "/composites/" +
-          compositeGroup.id,
+          generationJob.compositeGroupId,
         query: {},
       },
       undefined,
@@ -182,10 +289,87 @@ export default function IndexPage(props: Props) {
     );
   };
 
+  const showGenerationJobProgress = (generationJob: GenerationJob) => {
+    const batch = generationJob.batches[generationJob.nextBatchIndex];
+    if (!batch) {
+      return;
+    }
+
+    const traitSetSize = generationJob.batches
+      .filter((traitSetBatch) => traitSetBatch.traitSetId == batch.traitSetId)
+      .reduce(
+        (total, traitSetBatch) =>
+          total + traitSetBatch.endIndex - traitSetBatch.startIndex,
+        0
+      );
+
+    setGeneratingTraitSetName(batch.traitSetName);
+    setGeneratingTraitSetSize(traitSetSize);
+    setTraitSetGeneratedItems(
+      generationJob.traitSetCompositeCounts[batch.traitSetId] ?? 0
+    );
+    setTotalGeneratedItems(generationJob.nextItemIndex);
+  };
+
+  const generationJobDescription = (generationJob: GenerationJob) => {
+    const generatedItems = Object.values(
+      generationJob.traitSetCompositeCounts
+    ).reduce((total, count) => total + count, 0);
+
+    switch (generationJob.status) {
+      case GenerationJobStatus.Complete:
+        return "Complete";
+      case GenerationJobStatus.Cancelled:
+        return (
+          "Partial: cancelled at " +
+          generatedItems +
+          " of " +
+          generationJob.supply
+        );
+      case GenerationJobStatus.Failed:
+        return "Failed at " + generatedItems + " of " + generationJob.supply;
+      default:
+        return "Stopped at " + generatedItems + " of " + generationJob.supply;
+    }
+  };
+
+  const isResumable = (generationJob: GenerationJob) => {
+    return (
+      generationJob.status != GenerationJobStatus.Complete &&
+      generationJob.status != GenerationJobStatus.Cancelled
+    );
+  };
+
+  const cancelGenerationJob = async (generationJobId: string) => {
+    await fetch(
+      API.ENDPOINT +
+        "/cancel-generation-job?projectId=" +
+        projectId +
+        "&collectionId=" +
+        collection.id +
+        "&generationJobId=" +
+        generationJobId,
+      {
+        method: "GET",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+      }
+    ).catch((error) => {
+      console.error("Error:", error);
+    });
+  };
+
   function cancelGenerateCompositeGroup() {
     console.log("Generating cancelled");
-    setIsGeneratingCancelled(true);
+    isGeneratingCancelled.current = true;
     setGeneratingModalOpen(false);
+
+    // the batch currently running stops once the server sees this
+    if (generatingJobId.current) {
+      cancelGenerationJob(generatingJobId.current);
+    }
   }
 
   return (
@@ -210,7 +394,7 @@ export default function IndexPage(props: Props) {
             <button
               type="button"
               className="block w-full"
-              onClick={(e) => generateNewCompositeGroup()}
+              onClick={(e) => simulateNewCompositeGroup()}
             >
               <EmptyState
                 title="No composite groups"
@@ -222,11 +406,28 @@ export default function IndexPage(props: Props) {
         ) : (
           <main>
             <div className="mt-4 mr-8 float-right">
+              <select
+                id="rarityMode"
+                name="rarityMode"
+                className="inline-block mr-2 bg-white border border-gray-300 rounded-md shadow-sm py-1 pl-3 pr-8 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                value={rarityMode.toString()}
+                onChange={(e) => {
+                  const { value } = e.currentTarget;
+                  setRarityMode(parseInt(value));
+                }}
+              >
+                <option value={RarityMode.Weighted.toString()}>
+                  Weighted Random Rarity
+                </option>
+                <option value={RarityMode.ExactQuota.toString()}>
+                  Exact Rarity Quotas
+                </option>
+              </select>
               <span className="">
                 <button
                   type="button"
                   className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-                  onClick={(e) => generateNewCompositeGroup()}
+                  onClick={(e) => simulateNewCompositeGroup()}
                 >
                   <DocumentAddIcon
                     className="-ml-1 mr-1 h-5 w-5"
@@ -256,6 +457,18 @@ export default function IndexPage(props: Props) {
                           >
                             Total Composites
                           </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Seed
+                          </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Status
+                          </th>
                           <th
                             scope="col"
                             className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
@@ -287,6 +500,39 @@ export default function IndexPage(props: Props) {
                                   {compositesCountDict[compositeGroup.id]}
                                 </div>
                               </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm text-gray-500">
+                                  {compositeGroup.seed ?? "-"}
+                                </div>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm text-gray-500">
+                                  {generationJobsDict[compositeGroup.id]
+                                    ? generationJobDescription(
+                                        generationJobsDict[compositeGroup.id]
+                                      )
+                                    : "-"}
+                                  {generationJobsDict[compositeGroup.id] &&
+                                    isResumable(
+                                      generationJobsDict[compositeGroup.id]
+                                    ) && (
+                                      <a
+                                        href="#"
+                                        onClick={(e) =>
+                                          resumeGenerationJob(
+                                            e,
+                                            generationJobsDict[
+                                              compositeGroup.id
+                                            ]
+                                          )
+                                        }
+                                        className="ml-2 text-indigo-600 hover:text-indigo-900"
+                                      >
+                                        Resume
+                                      </a>
+                                    )}
+                                </div>
+                              </td>
                               <td align="right" width="100">
                                 <a
                                   href="#"
@@ -334,6 +580,36 @@ export default function IndexPage(props: Props) {
           show={deleteModalOpen}
         />
 
+        <ProgressModal
+          title="Simulating Composite Group"
+          message="Previewing trait picks before generating artwork..."
+          loadingPercent={0}
+          cancelAction={() => {
+            setSimulatingModalOpen(false);
+          }}
+          show={simulatingModalOpen}
+          indeterminate={true}
+        />
+
+        <SimulationModal
+          title="Generation Preview"
+          simulationResult={simulationResult}
+          actionButtonTitle="Generate Composites"
+          action={() => {
+            setSimulationModalOpen(false);
+            if (simulationResult) {
+              generateNewCompositeGroup(
+                simulationResult.seed,
+                simulationResult.rarityMode
+              );
+            }
+          }}
+          cancelAction={() => {
+            setSimulationModalOpen(false);
+          }}
+          show={simulationModalOpen}
+        />
+
         <ProgressModal
           title="Generating Composite Group"
           message={
@@ -383,6 +659,13 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
         compositesCountDict[compositeGroupId] = composites.length;
       }
 
+      let generationJobsDict: { [compositeGroupId: string]: GenerationJob } =
+        {};
+      const generationJobs = await GenerationJobs.all(projectId, collectionId);
+      generationJobs.forEach((generationJob) => {
+        generationJobsDict[generationJob.compositeGroupId] = generationJob;
+      });
+
       return {
         props: {
           project: project,
@@ -390,6 +673,7 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
           collection: collection,
           compositeGroups: compositeGroups,
           compositesCountDict: compositesCountDict,
+          generationJobsDict: generationJobsDict,
           projectId: projectId,
         },
       };
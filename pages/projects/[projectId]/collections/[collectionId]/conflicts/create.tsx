@@ -7,6 +7,7 @@ import TraitSet, { TraitSets } from "../../../../../../models/traitSet";
 import Trait, { Traits } from "../../../../../../models/trait";
 import TraitValue, { TraitValues } from "../../../../../../models/traitValue";
 import Conflict, {
+  ConflictCondition,
   Conflicts,
   ConflictResolutionType,
 } from "../../../../../../models/conflict";
@@ -25,6 +26,12 @@ interface Props {
   projectId: string;
 }
 
+interface ConditionRow {
+  key: number;
+  traitId: string | null;
+  traitValueId: string | null;
+}
+
 export default function CreatePage(props: Props) {
   const project = props.project;
   const projects = props.projects;
@@ -38,46 +45,90 @@ export default function CreatePage(props: Props) {
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const [traitSetId, setTraitSetId] = useState<string | null>(null);
-  const [trait1Id, setTrait1Id] = useState<string | null>(null);
-  const [trait2Id, setTrait2Id] = useState<string | null>(null);
+  const [conditionRows, setConditionRows] = useState<ConditionRow[]>([
+    { key: 0, traitId: null, traitValueId: null },
+    { key: 1, traitId: null, traitValueId: null },
+  ]);
+  const [resolutionRowKey, setResolutionRowKey] = useState<number>(0);
+  const [resolutionType, setResolutionType] = useState<ConflictResolutionType>(
+    ConflictResolutionType.TraitNone
+  );
 
   const onChangeTraitSetId = async (traitSetId: string) => {
     setTraitSetId(traitSetId);
   };
 
-  const onChangeTrait1Id = async (traitId: string) => {
-    setTrait1Id(traitId);
+  const onChangeConditionTraitId = async (key: number, traitId: string) => {
+    setConditionRows(
+      conditionRows.map((row) =>
+        row.key == key ? { ...row, traitId: traitId } : row
+      )
+    );
+  };
+
+  const addConditionRow = () => {
+    const key = Math.max(...conditionRows.map((row) => row.key)) + 1;
+    setConditionRows([
+      ...conditionRows,
+      { key: key, traitId: null, traitValueId: null },
+    ]);
   };
 
-  const onChangeTrait2Id = async (traitId: string) => {
-    setTrait2Id(traitId);
+  const removeConditionRow = (key: number) => {
+    setConditionRows(conditionRows.filter((row) => row.key != key));
   };
 
+  const resolutionTraitId =
+    conditionRows.find((row) => row.key == resolutionRowKey)?.traitId ?? null;
+
+  const availableTraits =
+    traitSetId && traitsDict[traitSetId] ? traitsDict[traitSetId] : traits;
+
   const router = useRouter();
   const onSubmit = async (event: FormEvent) => {
     event.preventDefault();
     const data = new FormData(event.target as HTMLFormElement);
 
-    setIsSubmitting(true);
-
     const traitSetId = data.get("traitSetId")?.toString().trim() ?? null;
-    const trait1Id = data.get("trait1Id")?.toString().trim();
-    const trait2Id = data.get("trait2Id")?.toString().trim();
-    const trait1ValueId = data.get("trait1ValueId")?.toString().trim();
-    const trait2ValueId = data.get("trait2ValueId")?.toString().trim();
+    const conditionTraitValueIds = data.getAll("conditionTraitValueId");
+    const conditions = data.getAll("conditionTraitId").map((traitId, index) => {
+      const traitValueId = conditionTraitValueIds[index]?.toString().trim();
+      return {
+        traitId: traitId.toString().trim(),
+        traitValueId: traitValueId == "-1" ? null : traitValueId ?? null,
+      } as ConflictCondition;
+    });
+    const resolutionTraitId = data.get("resolutionTraitId")?.toString().trim();
+    const resolutionTraitValueId =
+      data.get("resolutionTraitValueId")?.toString().trim() || null;
 
     const resolutionTypeStr = data.get("resolution")?.toString().trim();
-    const resolutionType = resolutionTypeStr ? parseInt(resolutionTypeStr) : 0;
+    const resolutionType = resolutionTypeStr
+      ? parseInt(resolutionTypeStr)
+      : ConflictResolutionType.TraitNone;
 
+    // the first two conditions double as the trait 1 / trait 2 pair,
+    // which conflicts are still listed and ordered by
     const conflict = {
       traitSetId: traitSetId,
-      trait1Id: trait1Id,
-      trait2Id: trait2Id,
-      trait1ValueId: trait1ValueId == "-1" ? null : trait1ValueId,
-      trait2ValueId: trait2ValueId == "-1" ? null : trait2ValueId,
+      trait1Id: conditions[0].traitId,
+      trait2Id: conditions[1].traitId,
+      trait1ValueId: conditions[0].traitValueId,
+      trait2ValueId: conditions[1].traitValueId,
+      conditions: conditions,
+      resolutionTraitId: resolutionTraitId,
+      resolutionTraitValueId: resolutionTraitValueId,
       resolutionType: resolutionType,
     } as Conflict;
 
+    const problem = Conflicts.problem(conflict);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+
+    setIsSubmitting(true);
+
     await Conflicts.create(conflict, projectId, collection.id);
 
     setIsSubmitting(false);
@@ -151,169 +202,207 @@ export default function CreatePage(props: Props) {
                         </select>
                       </div>
                     )}
-                    <div>
-                      <label
-                        htmlFor="trait1Id"
-                        className="block text-sm font-medium text-gray-700"
-                      >
-                        Trait 1
-                      </label>
-
-                      <select
-                        id="trait1Id"
-                        name="trait1Id"
-                        className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                        defaultValue="-1"
-                        onChange={(e) => {
-                          const { value } = e.currentTarget;
-                          const traitId = value.toString();
-                          if (traitId) {
-                            onChangeTrait1Id(traitId);
-                          }
-                        }}
-                      >
-                        <option value="-1">Unassigned</option>
-                        {(traitSetId ? traitsDict[traitSetId] : traits).map(
-                          (trait) => (
-                            <option key={trait.id} value={trait.id}>
-                              {trait.name}
-                            </option>
-                          )
+                    {conditionRows.map((row, index) => (
+                      <div key={row.key} className="space-y-6">
+                        {index == 0 ? (
+                          ""
+                        ) : (
+                          <p className="text-gray-500 italic text-sm pl-4">
+                            together with...
+                          </p>
                         )}
-                      </select>
-                    </div>
+                        <div>
+                          <label
+                            htmlFor={"conditionTraitId" + row.key}
+                            className="block text-sm font-medium text-gray-700"
+                          >
+                            Trait {index + 1}
+                            {conditionRows.length > 2 ? (
+                              <a
+                                href="#"
+                                className="float-right text-indigo-600 hover:text-indigo-900"
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  removeConditionRow(row.key);
+                                }}
+                              >
+                                Remove
+                              </a>
+                            ) : (
+                              ""
+                            )}
+                          </label>
+
+                          <select
+                            id={"conditionTraitId" + row.key}
+                            name="conditionTraitId"
+                            className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                            defaultValue={row.traitId ?? "-1"}
+                            onChange={(e) => {
+                              const { value } = e.currentTarget;
+                              const traitId = value.toString();
+                              if (traitId) {
+                                onChangeConditionTraitId(row.key, traitId);
+                              }
+                            }}
+                          >
+                            <option value="-1">Unassigned</option>
+                            {availableTraits.map((trait) => (
+                              <option key={trait.id} value={trait.id}>
+                                {trait.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+
+                        <div>
+                          <label
+                            htmlFor={"conditionTraitValueId" + row.key}
+                            className="block text-sm font-medium text-gray-700"
+                          >
+                            Trait {index + 1} Value
+                          </label>
+                          <select
+                            id={"conditionTraitValueId" + row.key}
+                            name="conditionTraitValueId"
+                            className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                            defaultValue={row.traitValueId ?? "-1"}
+                          >
+                            <option key={"-1"} value="-1">
+                              Any
+                            </option>
+                            {(row.traitId
+                              ? traitValuesDict[row.traitId] ?? []
+                              : []
+                            ).map((traitValue) => (
+                              <option key={traitValue.id} value={traitValue.id}>
+                                {traitValue.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                    ))}
 
                     <div>
-                      <label
-                        htmlFor="trait1ValueId"
-                        className="block text-sm font-medium text-gray-700"
-                      >
-                        Trait 1 Value
-                      </label>
-                      <select
-                        id="trait1ValueId"
-                        name="trait1ValueId"
-                        className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                        defaultValue=""
+                      <button
+                        type="button"
+                        className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                        onClick={() => addConditionRow()}
                       >
-                        <option key={"-1"} value="-1">
-                          Any
-                        </option>
-                        {(trait1Id ? traitValuesDict[trait1Id] : []).map(
-                          (traitValue) => (
-                            <option key={traitValue.id} value={traitValue.id}>
-                              {traitValue.name}
-                            </option>
-                          )
-                        )}
-                      </select>
+                        Add Trait
+                      </button>
                     </div>
 
                     <p className="text-gray-500 italic text-sm pl-4">
-                      conflicts with...
+                      if all are randomly selected...
                     </p>
 
                     <div>
                       <label
-                        htmlFor="trait2Id"
+                        htmlFor="resolutionTraitId"
                         className="block text-sm font-medium text-gray-700"
                       >
-                        Trait 2
+                        Resolve
                       </label>
-
                       <select
-                        id="trait2Id"
-                        name="trait2Id"
-                        className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                        defaultValue="-1"
+                        id="resolutionTraitId"
+                        name="resolutionTraitId"
                         onChange={(e) => {
-                          const { value } = e.currentTarget;
-                          const traitId = value.toString();
-                          if (traitId) {
-                            onChangeTrait2Id(traitId);
+                          const row =
+                            conditionRows[e.currentTarget.selectedIndex];
+                          if (row) {
+                            setResolutionRowKey(row.key);
                           }
                         }}
-                      >
-                        <option value="-1">Unassigned</option>
-                        {(traitSetId ? traitsDict[traitSetId] : traits).map(
-                          (trait) => (
-                            <option key={trait.id} value={trait.id}>
-                              {trait.name}
-                            </option>
-                          )
-                        )}
-                      </select>
-                    </div>
-
-                    <div>
-                      <label
-                        htmlFor="trait2ValueId"
-                        className="block text-sm font-medium text-gray-700"
-                      >
-                        Trait 2 Values
-                      </label>
-                      <select
-                        id="trait2ValueId"
-                        name="trait2ValueId"
                         className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                        defaultValue=""
                       >
-                        <option key={"-1"} value="-1">
-                          Any
-                        </option>
-                        {(trait2Id ? traitValuesDict[trait2Id] : []).map(
-                          (traitValue) => (
-                            <option key={traitValue.id} value={traitValue.id}>
-                              {traitValue.name}
-                            </option>
-                          )
-                        )}
+                        {conditionRows.map((row, index) => (
+                          <option key={row.key} value={row.traitId ?? "-1"}>
+                            {"Trait " +
+                              (index + 1) +
+                              (row.traitId
+                                ? " (" +
+                                  traits.find(
+                                    (trait) => trait.id == row.traitId
+                                  )?.name +
+                                  ")"
+                                : "")}
+                          </option>
+                        ))}
                       </select>
                     </div>
 
-                    <p className="text-gray-500 italic text-sm pl-4">
-                      if both are randomly selected...
-                    </p>
-
                     <div>
                       <label
                         htmlFor="resolution"
                         className="block text-sm font-medium text-gray-700"
                       >
-                        Resolve by
+                        by
                       </label>
                       <select
                         id="resolution"
                         name="resolution"
                         className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                        defaultValue="0"
+                        defaultValue={resolutionType.toString()}
+                        onChange={(e) => {
+                          setResolutionType(parseInt(e.currentTarget.value));
+                        }}
                       >
                         <option
-                          key={ConflictResolutionType.Trait1None.toString()}
-                          value={ConflictResolutionType.Trait1None.toString()}
+                          key={ConflictResolutionType.TraitNone.toString()}
+                          value={ConflictResolutionType.TraitNone.toString()}
                         >
-                          Set Trait 1 to None
+                          Setting it to None
                         </option>
                         <option
-                          key={ConflictResolutionType.Trait2None.toString()}
-                          value={ConflictResolutionType.Trait2None.toString()}
+                          key={ConflictResolutionType.TraitRandom.toString()}
+                          value={ConflictResolutionType.TraitRandom.toString()}
                         >
-                          Set Trait 2 to None
+                          Choosing a new random value for it
                         </option>
                         <option
-                          key={ConflictResolutionType.Trait1Random.toString()}
-                          value={ConflictResolutionType.Trait1Random.toString()}
+                          key={ConflictResolutionType.TraitValue.toString()}
+                          value={ConflictResolutionType.TraitValue.toString()}
                         >
-                          Choose a new random value for Trait 1
+                          Setting it to a specific value
                         </option>
                         <option
-                          key={ConflictResolutionType.Trait2Random.toString()}
-                          value={ConflictResolutionType.Trait2Random.toString()}
+                          key={ConflictResolutionType.AllRandom.toString()}
+                          value={ConflictResolutionType.AllRandom.toString()}
                         >
-                          Choose a new random value for Trait 2
+                          Choosing new random values for every trait
                         </option>
                       </select>
                     </div>
+
+                    {resolutionType == ConflictResolutionType.TraitValue ? (
+                      <div>
+                        <label
+                          htmlFor="resolutionTraitValueId"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Value
+                        </label>
+                        <select
+                          id="resolutionTraitValueId"
+                          name="resolutionTraitValueId"
+                          className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                          defaultValue=""
+                        >
+                          {(resolutionTraitId
+                            ? traitValuesDict[resolutionTraitId] ?? []
+                            : []
+                          ).map((traitValue) => (
+                            <option key={traitValue.id} value={traitValue.id}>
+                              {traitValue.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ) : (
+                      ""
+                    )}
                   </div>
 
                   <div className="px-4 py-3 bg-gray-50 text-right sm:px-6">
@@ -9,10 +9,12 @@ import {
 } from "@heroicons/react/outline";
 import Project, { Projects } from "../../../../../../models/project";
 import Collection, { Collections } from "../../../../../../models/collection";
-import Conflict, { Conflicts } from "../../../../../../models/conflict";
+import Conflict, {
+  Conflicts,
+  ConflictResolutionType,
+} from "../../../../../../models/conflict";
 import Trait, { Traits } from "../../../../../../models/trait";
 import TraitValue, { TraitValues } from "../../../../../../models/traitValue";
-import { ConflictResolutionType } from "../../../../../../models/conflict";
 import { GetServerSideProps } from "next";
 import { DestructiveModal } from "../../../../../../components/DestructiveModal";
 import { useState } from "react";
@@ -172,25 +174,7 @@ export default function IndexPage(props: Props) {
                             scope="col"
                             className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                           >
-                            Trait 1 Name
-                          </th>
-                          <th
-                            scope="col"
-                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
-                          >
-                            Trait 1 Value
-                          </th>
-                          <th
-                            scope="col"
-                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
-                          >
-                            Trait 2 Name
-                          </th>
-                          <th
-                            scope="col"
-                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
-                          >
-                            Trait 2 Value
+                            Traits
                           </th>
                           <th
                             scope="col"
@@ -206,22 +190,56 @@ export default function IndexPage(props: Props) {
                       </thead>
                       <tbody className="bg-white divide-y divide-gray-200">
                         {conflicts.map((conflict) => {
+                          const traitName = (traitId: string) =>
+                            traits.find((trait) => {
+                              return trait.id == traitId;
+                            })?.name ?? "";
+
+                          const conditionsValue = Conflicts.conditions(conflict)
+                            .map((condition) => {
+                              const traitValueName = condition.traitValueId
+                                ? traitValues.find((traitValue) => {
+                                    return (
+                                      traitValue.id == condition.traitValueId
+                                    );
+                                  })?.name ?? "Any"
+                                : "Any";
+                              return (
+                                traitName(condition.traitId) +
+                                ": " +
+                                traitValueName
+                              );
+                            })
+                            .join(", ");
+
+                          const resolutionTraitName = traitName(
+                            Conflicts.resolutionTraitId(conflict)
+                          );
                           let conflictResolutionValue = "";
 
                           switch (conflict.resolutionType) {
-                            case ConflictResolutionType.Trait1None:
-                              conflictResolutionValue = "Set Trait 1 to None";
-                              break;
-                            case ConflictResolutionType.Trait2None:
-                              conflictResolutionValue = "Set Trait 2 to None";
+                            case ConflictResolutionType.TraitValue:
+                              conflictResolutionValue =
+                                "Set " +
+                                resolutionTraitName +
+                                " to " +
+                                (traitValues.find((traitValue) => {
+                                  return (
+                                    traitValue.id ==
+                                    conflict.resolutionTraitValueId
+                                  );
+                                })?.name ?? "Unknown");
                               break;
-                            case ConflictResolutionType.Trait1Random:
+                            case ConflictResolutionType.AllRandom:
                               conflictResolutionValue =
-                                "Choose a new random value for Trait 1";
+                                "Choose new random values for every trait";
                               break;
-                            case ConflictResolutionType.Trait2Random:
+                            default:
                               conflictResolutionValue =
-                                "Choose a new random value for Trait 2";
+                                Conflicts.resolvesToNone(conflict)
+                                  ? "Set " + resolutionTraitName + " to None"
+                                  : "Choose a new random value for " +
+                                    resolutionTraitName;
                               break;
                           }
 
@@ -244,44 +262,7 @@ export default function IndexPage(props: Props) {
                               >
                                 <td className="px-6 py-4">
                                   <div className="text-sm text-gray-900">
-                                    {conflict?.trait1Id
-                                      ? traits.find((trait) => {
-                                          return trait.id == conflict?.trait1Id;
-                                        })?.name
-                                      : ""}
-                                  </div>
-                                </td>
-                                <td className="px-6 py-4">
-                                  <div className="text-sm text-gray-500 overflow-ellipsis">
-                                    {conflict?.trait1ValueId
-                                      ? traitValues.find((traitValue) => {
-                                          return (
-                                            traitValue.id ==
-                                            conflict?.trait1ValueId
-                                          );
-                                        })?.name ?? "Any"
-                                      : "Any"}
-                                  </div>
-                                </td>
-                                <td className="px-6 py-4">
-                                  <div className="text-sm text-gray-500 overflow-ellipsis">
-                                    {conflict?.trait2Id
-                                      ? traits.find((trait) => {
-                                          return trait.id == conflict?.trait2Id;
-                                        })?.name
-                                      : ""}
-                                  </div>
-                                </td>
-                                <td className="px-6 py-4">
-                                  <div className="text-sm text-gray-500 overflow-ellipsis">
-                                    {conflict?.trait2ValueId
-                                      ? traitValues.find((traitValue) => {
-                                          return (
-                                            traitValue.id ==
-                                            conflict?.trait2ValueId
-                                          );
-                                        })?.name ?? "Any"
-                                      : "Any"}
+                                    {conditionsValue}
                                   </div>
                                 </td>
                                 <td className="px-6 py-4">
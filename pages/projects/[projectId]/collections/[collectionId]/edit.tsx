@@ -2,6 +2,8 @@ import Layout from "../../../../../components/Layout";
 import Collection, {
   Collections,
   DropStatus,
+  OutputFormat,
+  Rendition,
 } from "../../../../../models/collection";
 import Project, { Projects } from "../../../../../models/project";
 import UserGroup, { UserGroups } from "../../../../../models/userGroup";
@@ -20,6 +22,35 @@ interface Props {
   userGroups: UserGroup[];
 }
 
+interface RenditionRow {
+  key: number;
+  rendition: Rendition;
+}
+
+/**
+ * a blank field is null, anything else has to be a whole number above 0,
+ * and is brought down to the max when it's over it. fields that aren't
+ * whole numbers have their label added to invalidFields
+ */
+function parseOptionalNumber(
+  value: FormDataEntryValue | null,
+  label: string,
+  invalidFields: string[],
+  max: number | null = null
+): number | null {
+  const str = value?.toString().trim();
+  if (!str) {
+    return null;
+  }
+
+  const number = Number(str);
+  if (!Number.isInteger(number) || number < 1) {
+    invalidFields.push(label);
+    return null;
+  }
+  return max ? Math.min(number, max) : number;
+}
+
 export default function EditPage(props: Props) {
   const project = props.project;
   const projects = props.projects;
@@ -28,14 +59,39 @@ export default function EditPage(props: Props) {
   const userGroups = props.userGroups;
 
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [renditionRows, setRenditionRows] = useState<RenditionRow[]>(
+    (collection.renditions ?? []).map((rendition, index) => ({
+      key: index,
+      rendition: rendition,
+    }))
+  );
+
+  const addRenditionRow = () => {
+    const key = Math.max(-1, ...renditionRows.map((row) => row.key)) + 1;
+    setRenditionRows([
+      ...renditionRows,
+      {
+        key: key,
+        rendition: {
+          name: "",
+          format: OutputFormat.Png,
+          quality: null,
+          width: null,
+          height: null,
+        },
+      },
+    ]);
+  };
+
+  const removeRenditionRow = (key: number) => {
+    setRenditionRows(renditionRows.filter((row) => row.key != key));
+  };
 
   const router = useRouter();
   const onSubmit = async (event: FormEvent) => {
     event.preventDefault();
     const data = new FormData(event.target as HTMLFormElement);
 
-    setIsSubmitting(true);
-
     const name = data.get("name")?.toString().trim();
     const supply = parseInt(data.get("supply")?.toString().trim() ?? "0");
     const sellerFeeBasisPoints = parseInt(
@@ -46,6 +102,96 @@ export default function EditPage(props: Props) {
     const creatorsGroupId = data.get("creators")?.toString().trim();
     const nftName = data.get("nftName")?.toString().trim();
 
+    const invalidFields: string[] = [];
+    const canvasWidth = parseOptionalNumber(
+      data.get("canvasWidth"),
+      "canvas width",
+      invalidFields
+    );
+    const canvasHeight = parseOptionalNumber(
+      data.get("canvasHeight"),
+      "canvas height",
+      invalidFields
+    );
+
+    const outputSettings = {
+      format: parseInt(data.get("outputFormat")?.toString() ?? "0"),
+      quality: parseOptionalNumber(
+        data.get("outputQuality"),
+        "output quality",
+        invalidFields,
+        100
+      ),
+      width: parseOptionalNumber(
+        data.get("outputWidth"),
+        "output width",
+        invalidFields
+      ),
+      height: parseOptionalNumber(
+        data.get("outputHeight"),
+        "output height",
+        invalidFields
+      ),
+    };
+
+    // rendition names end up in filenames, so keep them simple
+    const renditionFormats = data.getAll("renditionFormat");
+    const renditionQualities = data.getAll("renditionQuality");
+    const renditionWidths = data.getAll("renditionWidth");
+    const renditionHeights = data.getAll("renditionHeight");
+    const renditions = data
+      .getAll("renditionName")
+      .map((name, index) => {
+        const renditionName = name
+          .toString()
+          .trim()
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-");
+        return {
+          name: renditionName,
+          format: parseInt(renditionFormats[index]?.toString() ?? "0"),
+          quality: parseOptionalNumber(
+            renditionQualities[index],
+            renditionName + " quality",
+            invalidFields,
+            100
+          ),
+          width: parseOptionalNumber(
+            renditionWidths[index],
+            renditionName + " width",
+            invalidFields
+          ),
+          height: parseOptionalNumber(
+            renditionHeights[index],
+            renditionName + " height",
+            invalidFields
+          ),
+        };
+      })
+      .filter((rendition) => rendition.name.length > 0);
+
+    if (invalidFields.length > 0) {
+      alert(
+        "The " +
+          invalidFields.join(", ") +
+          " must be a whole number of at least 1"
+      );
+      return;
+    }
+
+    // each rendition's files are named after it, so a second
+    // rendition with the same name would overwrite the first's
+    const renditionNames = renditions.map((rendition) => rendition.name);
+    const duplicateName = renditionNames.find(
+      (renditionName, index) => renditionNames.indexOf(renditionName) != index
+    );
+    if (duplicateName) {
+      alert("There's more than one rendition named " + duplicateName);
+      return;
+    }
+
+    setIsSubmitting(true);
+
     await Collections.update(
       {
         name: name,
@@ -54,7 +200,11 @@ export default function EditPage(props: Props) {
         symbol: symbol,
         status: DropStatus.Pending,
         userGroupId: creatorsGroupId,
-        nftName: nftName
+        nftName: nftName,
+        canvasWidth: canvasWidth,
+        canvasHeight: canvasHeight,
+        outputSettings: outputSettings,
+        renditions: renditions,
       },
       collection.id,
       projectId
@@ -208,6 +358,263 @@ export default function EditPage(props: Props) {
                         })}
                       </select>
                     </div>
+
+                    <div className="col-span-6 sm:col-span-4">
+                      <h3 className="text-lg font-medium text-gray-900">
+                        Canvas
+                      </h3>
+                      <p className="mt-1 text-xs text-gray-500">
+                        The size artwork is drawn at. Uploaded artwork is
+                        checked against it, and when it&apos;s left empty the
+                        artwork&apos;s own size is used when generating
+                      </p>
+                      <div className="mt-4 grid grid-cols-4 gap-4">
+                        <div>
+                          <label
+                            htmlFor="canvasWidth"
+                            className="block text-sm font-medium text-gray-700"
+                          >
+                            Width
+                          </label>
+                          <input
+                            type="text"
+                            name="canvasWidth"
+                            id="canvasWidth"
+                            defaultValue={collection.canvasWidth ?? ""}
+                            className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                          />
+                        </div>
+                        <div>
+                          <label
+                            htmlFor="canvasHeight"
+                            className="block text-sm font-medium text-gray-700"
+                          >
+                            Height
+                          </label>
+                          <input
+                            type="text"
+                            name="canvasHeight"
+                            id="canvasHeight"
+                            defaultValue={collection.canvasHeight ?? ""}
+                            className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                          />
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="col-span-6 sm:col-span-4">
+                      <h3 className="text-lg font-medium text-gray-900">
+                        Output
+                      </h3>
+                      <p className="mt-1 text-xs text-gray-500">
+                        The format and size of every generated composite.
+                        Quality (1-100) only applies to WebP and JPEG, and
+                        leaving out the width or height keeps the artwork&apos;s
+                        aspect ratio
+                      </p>
+                      <div className="mt-4 grid grid-cols-4 gap-4">
+                        <div>
+                          <label
+                            htmlFor="outputFormat"
+                            className="block text-sm font-medium text-gray-700"
+                          >
+                            Format
+                          </label>
+                          <select
+                            name="outputFormat"
+                            id="outputFormat"
+                            defaultValue={
+                              collection.outputSettings?.format ??
+                              OutputFormat.Png
+                            }
+                            className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                          >
+                            {Object.entries(
+                              Collections.OUTPUT_FORMAT_NAMES
+                            ).map(([format, formatName]) => (
+                              <option key={format} value={format}>
+                                {formatName}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label
+                            htmlFor="outputQuality"
+                            className="block text-sm font-medium text-gray-700"
+                          >
+                            Quality
+                          </label>
+                          <input
+                            type="text"
+                            name="outputQuality"
+                            id="outputQuality"
+                            placeholder="80"
+                            defaultValue={
+                              collection.outputSettings?.quality ?? ""
+                            }
+                            className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                          />
+                        </div>
+                        <div>
+                          <label
+                            htmlFor="outputWidth"
+                            className="block text-sm font-medium text-gray-700"
+                          >
+                            Width
+                          </label>
+                          <input
+                            type="text"
+                            name="outputWidth"
+                            id="outputWidth"
+                            placeholder="Original"
+                            defaultValue={
+                              collection.outputSettings?.width ?? ""
+                            }
+                            className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                          />
+                        </div>
+                        <div>
+                          <label
+                            htmlFor="outputHeight"
+                            className="block text-sm font-medium text-gray-700"
+                          >
+                            Height
+                          </label>
+                          <input
+                            type="text"
+                            name="outputHeight"
+                            id="outputHeight"
+                            placeholder="Original"
+                            defaultValue={
+                              collection.outputSettings?.height ?? ""
+                            }
+                            className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                          />
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="col-span-6 sm:col-span-4">
+                      <h3 className="text-lg font-medium text-gray-900">
+                        Renditions
+                      </h3>
+                      <p className="mt-1 text-xs text-gray-500">
+                        Extra copies of every composite, for ex. a small
+                        &ldquo;thumbnail&rdquo;, stored and exported next to the
+                        main image
+                      </p>
+                      {renditionRows.map((row) => (
+                        <div
+                          key={row.key}
+                          className="mt-4 grid grid-cols-5 gap-4"
+                        >
+                          <div>
+                            <label
+                              htmlFor={"renditionName" + row.key}
+                              className="block text-sm font-medium text-gray-700"
+                            >
+                              Name
+                            </label>
+                            <input
+                              type="text"
+                              name="renditionName"
+                              id={"renditionName" + row.key}
+                              placeholder="thumbnail"
+                              defaultValue={row.rendition.name}
+                              className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                            />
+                          </div>
+                          <div>
+                            <label
+                              htmlFor={"renditionFormat" + row.key}
+                              className="block text-sm font-medium text-gray-700"
+                            >
+                              Format
+                            </label>
+                            <select
+                              name="renditionFormat"
+                              id={"renditionFormat" + row.key}
+                              defaultValue={row.rendition.format}
+                              className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                            >
+                              {Object.entries(
+                                Collections.OUTPUT_FORMAT_NAMES
+                              ).map(([format, formatName]) => (
+                                <option key={format} value={format}>
+                                  {formatName}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label
+                              htmlFor={"renditionQuality" + row.key}
+                              className="block text-sm font-medium text-gray-700"
+                            >
+                              Quality
+                            </label>
+                            <input
+                              type="text"
+                              name="renditionQuality"
+                              id={"renditionQuality" + row.key}
+                              placeholder="80"
+                              defaultValue={row.rendition.quality ?? ""}
+                              className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                            />
+                          </div>
+                          <div>
+                            <label
+                              htmlFor={"renditionWidth" + row.key}
+                              className="block text-sm font-medium text-gray-700"
+                            >
+                              Width
+                            </label>
+                            <input
+                              type="text"
+                              name="renditionWidth"
+                              id={"renditionWidth" + row.key}
+                              placeholder="Original"
+                              defaultValue={row.rendition.width ?? ""}
+                              className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                            />
+                          </div>
+                          <div>
+                            <label
+                              htmlFor={"renditionHeight" + row.key}
+                              className="block text-sm font-medium text-gray-700"
+                            >
+                              Height
+                              <a
+                                href="#"
+                                className="float-right text-indigo-600 hover:text-indigo-900"
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  removeRenditionRow(row.key);
+                                }}
+                              >
+                                Remove
+                              </a>
+                            </label>
+                            <input
+                              type="text"
+                              name="renditionHeight"
+                              id={"renditionHeight" + row.key}
+                              placeholder="Original"
+                              defaultValue={row.rendition.height ?? ""}
+                              className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                            />
+                          </div>
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        className="mt-4 inline-flex items-center px-3 py-1 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                        onClick={() => addRenditionRow()}
+                      >
+                        Add Rendition
+                      </button>
+                    </div>
                   </div>
 
                   <div className="px-4 py-3 bg-gray-50 text-right sm:px-6">
@@ -257,4 +664,3 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
     props: {},
   };
 };
-
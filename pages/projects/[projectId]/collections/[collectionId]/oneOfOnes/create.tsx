@@ -0,0 +1,321 @@
+import Header from "../../../../../../components/Header";
+import Layout from "../../../../../../components/Layout";
+import FormDescription from "../../../../../../components/FormDescription";
+import Project, { Projects } from "../../../../../../models/project";
+import Collection, { Collections } from "../../../../../../models/collection";
+import TraitSet, { TraitSets } from "../../../../../../models/traitSet";
+import Trait, { Traits } from "../../../../../../models/trait";
+import TraitValue, { TraitValues } from "../../../../../../models/traitValue";
+import OneOfOne, {
+  OneOfOneAttribute,
+  OneOfOnes,
+} from "../../../../../../models/oneOfOne";
+import { GetServerSideProps } from "next";
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/router";
+
+interface Props {
+  project: Project;
+  projects: Project[];
+  collection: Collection;
+  traitSets: TraitSet[];
+  traits: Trait[];
+  traitValuesDict: { [traitId: string]: TraitValue[] };
+  projectId: string;
+}
+
+const CUSTOM_VALUE = "custom";
+
+export default function CreatePage(props: Props) {
+  const project = props.project;
+  const projects = props.projects;
+  const collection = props.collection;
+  const traitSets = props.traitSets;
+  const traits = props.traits;
+  const traitValuesDict = props.traitValuesDict;
+  const projectId = props.projectId;
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // a one of one is generated with its own trait set, so a collection
+  // with trait sets always needs one picked
+  const [traitSetId, setTraitSetId] = useState(traitSets[0]?.id ?? "-1");
+  const [selectedValueIds, setSelectedValueIds] = useState<{
+    [traitId: string]: string;
+  }>({});
+
+  // a one of one only has the traits of its trait set
+  const traitSetTraits =
+    traitSetId == "-1"
+      ? traits
+      : traits.filter((trait) => trait.traitSetIds?.includes(traitSetId));
+
+  const router = useRouter();
+  const onSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const data = new FormData(event.target as HTMLFormElement);
+
+    const file = data.get("image") as File | null;
+    if (!file || file.size == 0) {
+      alert("Choose the one of one's image");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const image = await OneOfOnes.uploadImage(file, projectId, collection.id);
+
+    const attributes: OneOfOneAttribute[] = [];
+    traitSetTraits.forEach((trait) => {
+      const valueId = data.get("traitValueId-" + trait.id)?.toString() ?? "-1";
+      const customName = data
+        .get("customName-" + trait.id)
+        ?.toString()
+        .trim();
+
+      if (valueId == CUSTOM_VALUE && customName) {
+        attributes.push({
+          traitId: trait.id,
+          traitValueId: null,
+          customValueName: customName,
+        });
+      } else if (valueId != "-1" && valueId != CUSTOM_VALUE) {
+        attributes.push({
+          traitId: trait.id,
+          traitValueId: valueId,
+          customValueName: null,
+        });
+      }
+    });
+
+    const oneOfOne = {
+      name: data.get("name")?.toString().trim(),
+      ...image,
+      traitSetId: traitSetId == "-1" ? null : traitSetId,
+      attributes: attributes,
+    } as OneOfOne;
+
+    await OneOfOnes.create(oneOfOne, projectId, collection.id);
+
+    setIsSubmitting(false);
+
+    router.push(
+      {
+        pathname:
+          "/projects/" +
+          projectId +
+          "/collections/" +
+          collection.id +
+          "/oneOfOnes",
+        query: {},
+      },
+      undefined,
+      { shallow: false }
+    );
+  };
+
+  return (
+    <Layout
+      title="Create 1/1"
+      section="collections"
+      projects={projects}
+      selectedProjectId={projectId}
+    >
+      <Header title="Create a 1/1" />
+      <main className="px-8 py-12">
+        <div>
+          <div className="md:grid md:grid-cols-3 md:gap-6">
+            <FormDescription
+              title="1/1"
+              description="A finished, hand-made item that's put into every composite group generated from now on, in place of one of the generated items."
+            />
+            <div className="mt-5 md:mt-0 md:col-span-2">
+              <form
+                action="#"
+                method="POST"
+                encType="multipart/form-data"
+                onSubmit={onSubmit}
+              >
+                <div className="shadow sm:rounded-md sm:overflow-hidden">
+                  <div className="px-4 py-5 bg-white space-y-6 sm:p-6">
+                    <div>
+                      <label
+                        htmlFor="name"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Name
+                      </label>
+                      <input
+                        type="text"
+                        name="name"
+                        id="name"
+                        placeholder="The Golden One"
+                        className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                      />
+                    </div>
+
+                    <div>
+                      <label
+                        htmlFor="image"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Image
+                      </label>
+                      <input
+                        type="file"
+                        name="image"
+                        id="image"
+                        accept=".png,.jpg,.jpeg,.gif,.webp"
+                        className="mt-1 block w-full sm:text-sm"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        Exported as it is, so it should be the same size and
+                        format as the collection&apos;s generated items
+                      </p>
+                    </div>
+
+                    {traitSets.length == 0 ? (
+                      ""
+                    ) : (
+                      <div>
+                        <label
+                          htmlFor="traitSetId"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Trait Set
+                        </label>
+
+                        <select
+                          id="traitSetId"
+                          name="traitSetId"
+                          className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                          value={traitSetId}
+                          onChange={(e) => setTraitSetId(e.target.value)}
+                        >
+                          {traitSets.map((traitSet) => (
+                            <option key={traitSet.id} value={traitSet.id}>
+                              {traitSet.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {traitSetTraits.map((trait) => (
+                      <div key={trait.id} className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label
+                            htmlFor={"traitValueId-" + trait.id}
+                            className="block text-sm font-medium text-gray-700"
+                          >
+                            {trait.name}
+                          </label>
+                          <select
+                            id={"traitValueId-" + trait.id}
+                            name={"traitValueId-" + trait.id}
+                            className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                            value={selectedValueIds[trait.id] ?? "-1"}
+                            onChange={(e) =>
+                              setSelectedValueIds({
+                                ...selectedValueIds,
+                                [trait.id]: e.target.value,
+                              })
+                            }
+                          >
+                            <option value="-1">None</option>
+                            {(traitValuesDict[trait.id] ?? []).map(
+                              (traitValue) => (
+                                <option
+                                  key={traitValue.id}
+                                  value={traitValue.id}
+                                >
+                                  {traitValue.name}
+                                </option>
+                              )
+                            )}
+                            <option value={CUSTOM_VALUE}>Custom</option>
+                          </select>
+                        </div>
+                        {selectedValueIds[trait.id] == CUSTOM_VALUE ? (
+                          <div>
+                            <label
+                              htmlFor={"customName-" + trait.id}
+                              className="block text-sm font-medium text-gray-700"
+                            >
+                              Custom Value
+                            </label>
+                            <input
+                              type="text"
+                              name={"customName-" + trait.id}
+                              id={"customName-" + trait.id}
+                              placeholder="Solid Gold"
+                              className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                            />
+                          </div>
+                        ) : (
+                          ""
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="px-4 py-3 bg-gray-50 text-right sm:px-6">
+                    <button
+                      type="submit"
+                      className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                      disabled={isSubmitting}
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      </main>
+    </Layout>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  try {
+    const projectId = context.query.projectId?.toString();
+    const collectionId = context.query.collectionId?.toString();
+
+    if (projectId && collectionId) {
+      const projects = await Projects.all();
+      const collection = await Collections.withId(collectionId, projectId);
+      const project = projects.find((project) => project.id == projectId);
+      const traitSets = await TraitSets.all(projectId, collectionId);
+      const traits = await Traits.all(projectId, collectionId);
+      const traitValuesDict: { [traitId: string]: TraitValue[] } = {};
+      for (let i = 0; i < traits.length; i++) {
+        const trait = traits[i];
+        const traitValues = await TraitValues.all(
+          projectId,
+          collectionId,
+          trait.id
+        );
+        traitValuesDict[trait.id] = traitValues;
+      }
+
+      return {
+        props: {
+          project: project,
+          projects: projects,
+          collection: collection,
+          traitSets: traitSets,
+          traits: traits,
+          traitValuesDict: traitValuesDict,
+          projectId: projectId,
+        },
+      };
+    }
+  } catch (error) {
+    console.log("Error: ", error);
+  }
+
+  return {
+    props: {},
+  };
+};
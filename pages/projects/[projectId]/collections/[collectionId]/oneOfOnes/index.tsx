@@ -0,0 +1,282 @@
+import Layout from "../../../../../../components/Layout";
+import DropsSubnav from "../../../../../../components/DropsSubnav";
+import { EmptyState } from "../../../../../../components/EmptyState";
+import Link from "next/dist/client/link";
+import Image from "next/image";
+import { TrashIcon, DocumentAddIcon } from "@heroicons/react/outline";
+import Project, { Projects } from "../../../../../../models/project";
+import Collection, { Collections } from "../../../../../../models/collection";
+import OneOfOne, { OneOfOnes } from "../../../../../../models/oneOfOne";
+import { GetServerSideProps } from "next";
+import { DestructiveModal } from "../../../../../../components/DestructiveModal";
+import { useState } from "react";
+import { useRouter } from "next/router";
+
+interface Props {
+  project: Project;
+  projects: Project[];
+  collection: Collection;
+  oneOfOnes: OneOfOne[];
+  projectId: string;
+}
+
+export default function IndexPage(props: Props) {
+  const project = props.project;
+  const projects = props.projects;
+  const collection = props.collection;
+  const oneOfOnes = props.oneOfOnes;
+  const projectId = props.projectId;
+
+  const [deleteModalOpen, setDeleteModalOpen] = useState(false);
+  const [oneOfOneIdToDelete, setOneOfOneIdToDelete] = useState<string | null>(
+    null
+  );
+
+  const router = useRouter();
+
+  const confirmDeleteOneOfOne = (
+    event: React.MouseEvent,
+    oneOfOneId: string
+  ) => {
+    event.preventDefault();
+    setOneOfOneIdToDelete(oneOfOneId);
+    setDeleteModalOpen(true);
+  };
+
+  const deleteOneOfOne = async () => {
+    if (oneOfOneIdToDelete) {
+      await OneOfOnes.remove(oneOfOneIdToDelete, projectId, collection.id);
+    }
+    setOneOfOneIdToDelete(null);
+    setDeleteModalOpen(false);
+    router.reload();
+  };
+
+  const cancelDeleteOneOfOne = async () => {
+    setOneOfOneIdToDelete(null);
+    setDeleteModalOpen(false);
+  };
+
+  if (!oneOfOnes) {
+    return (
+      <Layout
+        title="1/1s"
+        section="collections"
+        projects={projects}
+        selectedProjectId={projectId}
+      >
+        <DropsSubnav
+          project={project}
+          collection={collection}
+          section="oneOfOnes"
+        />
+        <main className="px-8 py-12">
+          <p>Not Found</p>
+        </main>
+      </Layout>
+    );
+  } else if (oneOfOnes.length == 0) {
+    return (
+      <Layout
+        title="1/1s"
+        section="collections"
+        projects={projects}
+        selectedProjectId={undefined}
+      >
+        <DropsSubnav
+          project={project}
+          collection={collection}
+          section="oneOfOnes"
+        />
+        <main className="px-8 py-12">
+          <Link
+            href={
+              "/projects/" +
+              project.id +
+              "/collections/" +
+              collection.id +
+              "/oneOfOnes/create"
+            }
+            passHref={true}
+          >
+            <button type="button" className="block w-full">
+              <EmptyState
+                title="No 1/1s"
+                message="Create your first 1/1 to put a hand-made item into every composite group."
+                buttonTitle="New 1/1"
+              />
+            </button>
+          </Link>
+        </main>
+      </Layout>
+    );
+  } else {
+    return (
+      <Layout
+        title="1/1s"
+        section="collections"
+        projects={projects}
+        selectedProjectId={projectId}
+      >
+        <div>
+          <DropsSubnav
+            project={project}
+            collection={collection}
+            section="oneOfOnes"
+          />
+          <main>
+            <div className="mt-4 mr-8 float-right">
+              <span className="">
+                <Link
+                  href={
+                    "/projects/" +
+                    project.id +
+                    "/collections/" +
+                    collection.id +
+                    "/oneOfOnes/create"
+                  }
+                  passHref={true}
+                >
+                  <button
+                    type="button"
+                    className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                  >
+                    <DocumentAddIcon
+                      className="-ml-1 mr-1 h-5 w-5"
+                      aria-hidden="true"
+                    />
+                    Add 1/1
+                  </button>
+                </Link>
+              </span>
+            </div>
+
+            <div className="flex flex-col clear-both px-8 py-4">
+              <div className="-my-2 overflow-x-auto sm:-mx-6 lg:-mx-8">
+                <div className="py-2 align-middle inline-block min-w-full sm:px-6 lg:px-8">
+                  <div className="shadow overflow-hidden border-b border-gray-200 sm:rounded-lg">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Image
+                          </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Name
+                          </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Attributes
+                          </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          ></th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {oneOfOnes.map((oneOfOne) => {
+                          return (
+                            <tr key={oneOfOne.id}>
+                              <td className="px-6 py-4" width="100">
+                                <div className="relative h-12 w-12">
+                                  <Image
+                                    src={oneOfOne.url}
+                                    unoptimized
+                                    alt={oneOfOne.name}
+                                    className="object-contain"
+                                    layout="fill"
+                                  />
+                                </div>
+                              </td>
+                              <td className="px-6 py-4">
+                                <div className="text-sm text-gray-900">
+                                  {oneOfOne.name}
+                                </div>
+                              </td>
+                              <td className="px-6 py-4">
+                                <div className="text-sm text-gray-500">
+                                  {oneOfOne.attributes.length}
+                                </div>
+                              </td>
+                              <td align="right" width="100">
+                                <a
+                                  href="#"
+                                  onClick={(e) =>
+                                    confirmDeleteOneOfOne(e, oneOfOne.id)
+                                  }
+                                  className="text-indigo-600 hover:text-indigo-900 inline-block mr-2"
+                                >
+                                  <TrashIcon
+                                    className="h-5 w-5 text-gray-400"
+                                    aria-hidden="true"
+                                  />
+                                </a>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </main>
+
+          <DestructiveModal
+            title="Delete 1/1"
+            message={
+              "Are you sure you want to delete this 1/1? Composite groups it was already put into keep it."
+            }
+            deleteAction={() => {
+              deleteOneOfOne();
+            }}
+            cancelAction={() => {
+              cancelDeleteOneOfOne();
+            }}
+            show={deleteModalOpen}
+          />
+        </div>
+      </Layout>
+    );
+  }
+}
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  try {
+    const projectId = context.query.projectId?.toString();
+    const collectionId = context.query.collectionId?.toString();
+
+    if (projectId && collectionId) {
+      const projects = await Projects.all();
+      const collection = await Collections.withId(collectionId, projectId);
+      const oneOfOnes = await OneOfOnes.all(projectId, collectionId);
+      const project = projects.find((project) => project.id == projectId);
+
+      return {
+        props: {
+          project: project,
+          projects: projects,
+          collection: collection,
+          oneOfOnes: oneOfOnes,
+          projectId: projectId,
+        },
+      };
+    }
+  } catch (error) {
+    console.log("Error: ", error);
+  }
+
+  return {
+    props: {},
+  };
+};
@@ -0,0 +1,354 @@
+import Header from "../../../../../../components/Header";
+import Layout from "../../../../../../components/Layout";
+import FormDescription from "../../../../../../components/FormDescription";
+import Project, { Projects } from "../../../../../../models/project";
+import Collection, { Collections } from "../../../../../../models/collection";
+import TraitSet, { TraitSets } from "../../../../../../models/traitSet";
+import Trait, { Traits } from "../../../../../../models/trait";
+import TraitValue, { TraitValues } from "../../../../../../models/traitValue";
+import Requirement, {
+  Requirements,
+} from "../../../../../../models/requirement";
+import { GetServerSideProps } from "next";
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/router";
+
+interface Props {
+  project: Project;
+  projects: Project[];
+  collection: Collection;
+  traitSets: TraitSet[];
+  traits: Trait[];
+  traitsDict: { [traitSetId: string]: Trait[] };
+  traitValuesDict: { [traitId: string]: TraitValue[] };
+  projectId: string;
+}
+
+export default function CreatePage(props: Props) {
+  const project = props.project;
+  const projects = props.projects;
+  const collection = props.collection;
+  const traitSets = props.traitSets;
+  const traits = props.traits;
+  const traitsDict = props.traitsDict;
+  const traitValuesDict = props.traitValuesDict;
+  const projectId = props.projectId;
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [traitSetId, setTraitSetId] = useState<string | null>(null);
+  const [traitId, setTraitId] = useState<string | null>(null);
+  const [requiredTraitId, setRequiredTraitId] = useState<string | null>(null);
+
+  const onChangeTraitSetId = async (traitSetId: string) => {
+    setTraitSetId(traitSetId);
+  };
+
+  const onChangeTraitId = async (traitId: string) => {
+    setTraitId(traitId);
+  };
+
+  const onChangeRequiredTraitId = async (traitId: string) => {
+    setRequiredTraitId(traitId);
+  };
+
+  const router = useRouter();
+  const onSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const data = new FormData(event.target as HTMLFormElement);
+
+    setIsSubmitting(true);
+
+    const traitSetId = data.get("traitSetId")?.toString().trim() ?? null;
+    const traitId = data.get("traitId")?.toString().trim();
+    const traitValueId = data.get("traitValueId")?.toString().trim();
+    const requiredTraitId = data.get("requiredTraitId")?.toString().trim();
+    const requiredTraitValueIds = data
+      .getAll("requiredTraitValueIds")
+      .map((value) => value.toString().trim());
+
+    const requirement = {
+      traitSetId: traitSetId == "-1" ? null : traitSetId,
+      traitId: traitId,
+      traitValueId: traitValueId == "-1" ? null : traitValueId,
+      requiredTraitId: requiredTraitId,
+      requiredTraitValueIds: requiredTraitValueIds.map((traitValueId) =>
+        traitValueId == "-1" ? null : traitValueId
+      ),
+    } as Requirement;
+
+    await Requirements.create(requirement, projectId, collection.id);
+
+    setIsSubmitting(false);
+
+    router.push(
+      {
+        pathname:
+          "/projects/" +
+          projectId +
+          "/collections/" +
+          collection.id +
+          "/requirements",
+        query: {},
+      },
+      undefined,
+      { shallow: false }
+    );
+  };
+
+  return (
+    <Layout
+      title="Create Requirement"
+      section="collections"
+      projects={projects}
+      selectedProjectId={projectId}
+    >
+      <Header title="Create a Requirement" />
+      <main className="px-8 py-12">
+        <div>
+          <div className="md:grid md:grid-cols-3 md:gap-6">
+            <FormDescription
+              title="Requirement"
+              description="Limit the values a trait can be given when another trait has a certain value."
+            />
+            <div className="mt-5 md:mt-0 md:col-span-2">
+              <form action="#" method="POST" onSubmit={onSubmit}>
+                <div className="shadow sm:rounded-md sm:overflow-hidden">
+                  <div className="px-4 py-5 bg-white space-y-6 sm:p-6">
+                    {traitSets.length == 0 ? (
+                      ""
+                    ) : (
+                      <div>
+                        <label
+                          htmlFor="traitSetId"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Trait Set
+                        </label>
+
+                        <select
+                          id="traitSetId"
+                          name="traitSetId"
+                          className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                          defaultValue="-1"
+                          onChange={(e) => {
+                            const { value } = e.currentTarget;
+                            const traitSetId = value.toString();
+                            if (traitSetId) {
+                              onChangeTraitSetId(traitSetId);
+                            }
+                          }}
+                        >
+                          <option value="-1">Unassigned</option>
+                          {traitSets.map((traitSet) => (
+                            <option key={traitSet.id} value={traitSet.id}>
+                              {traitSet.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    <div>
+                      <label
+                        htmlFor="traitId"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Trait
+                      </label>
+
+                      <select
+                        id="traitId"
+                        name="traitId"
+                        className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        defaultValue="-1"
+                        onChange={(e) => {
+                          const { value } = e.currentTarget;
+                          const traitId = value.toString();
+                          if (traitId) {
+                            onChangeTraitId(traitId);
+                          }
+                        }}
+                      >
+                        <option value="-1">Unassigned</option>
+                        {(traitSetId && traitsDict[traitSetId]
+                          ? traitsDict[traitSetId]
+                          : traits
+                        ).map((trait) => (
+                          <option key={trait.id} value={trait.id}>
+                            {trait.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label
+                        htmlFor="traitValueId"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Trait Value
+                      </label>
+                      <select
+                        id="traitValueId"
+                        name="traitValueId"
+                        className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        defaultValue=""
+                      >
+                        <option key={"-1"} value="-1">
+                          Any
+                        </option>
+                        {(traitId ? traitValuesDict[traitId] ?? [] : []).map(
+                          (traitValue) => (
+                            <option key={traitValue.id} value={traitValue.id}>
+                              {traitValue.name}
+                            </option>
+                          )
+                        )}
+                      </select>
+                    </div>
+
+                    <p className="text-gray-500 italic text-sm pl-4">
+                      requires...
+                    </p>
+
+                    <div>
+                      <label
+                        htmlFor="requiredTraitId"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Required Trait
+                      </label>
+
+                      <select
+                        id="requiredTraitId"
+                        name="requiredTraitId"
+                        className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        defaultValue="-1"
+                        onChange={(e) => {
+                          const { value } = e.currentTarget;
+                          const traitId = value.toString();
+                          if (traitId) {
+                            onChangeRequiredTraitId(traitId);
+                          }
+                        }}
+                      >
+                        <option value="-1">Unassigned</option>
+                        {(traitSetId && traitsDict[traitSetId]
+                          ? traitsDict[traitSetId]
+                          : traits
+                        ).map((trait) => (
+                          <option key={trait.id} value={trait.id}>
+                            {trait.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label
+                        htmlFor="requiredTraitValueIds"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        to be one of
+                      </label>
+                      <select
+                        id="requiredTraitValueIds"
+                        name="requiredTraitValueIds"
+                        multiple
+                        className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        defaultValue={[]}
+                      >
+                        <option key={"-1"} value="-1">
+                          None
+                        </option>
+                        {(requiredTraitId
+                          ? traitValuesDict[requiredTraitId] ?? []
+                          : []
+                        ).map((traitValue) => (
+                          <option key={traitValue.id} value={traitValue.id}>
+                            {traitValue.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div className="px-4 py-3 bg-gray-50 text-right sm:px-6">
+                    <button
+                      type="submit"
+                      className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                      disabled={isSubmitting}
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      </main>
+    </Layout>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  try {
+    const projectId = context.query.projectId?.toString();
+    const collectionId = context.query.collectionId?.toString();
+
+    if (projectId && collectionId) {
+      const projects = await Projects.all();
+      const collection = await Collections.withId(collectionId, projectId);
+      const project = projects.find((project) => project.id == projectId);
+      const traitSets = await TraitSets.all(projectId, collectionId);
+
+      const traits = await Traits.all(
+        projectId,
+        collectionId,
+        "name",
+        "asc",
+        true
+      );
+
+      const traitsDict: { [traitSetId: string]: Trait[] } = {};
+      for (let i = 0; i < traitSets.length; i++) {
+        const traitSet = traitSets[i];
+        const traitSetTraits = traits.filter((trait) => {
+          return trait.traitSetIds.includes(traitSet.id);
+        });
+        traitsDict[traitSet.id] = traitSetTraits;
+      }
+
+      const traitValuesDict: { [traitId: string]: TraitValue[] } = {};
+      for (let i = 0; i < traits.length; i++) {
+        const trait = traits[i];
+        const traitValues = await TraitValues.all(
+          projectId,
+          collectionId,
+          trait.id
+        );
+        traitValuesDict[trait.id] = traitValues;
+      }
+
+      return {
+        props: {
+          project: project,
+          projects: projects,
+          collection: collection,
+          traitSets: traitSets,
+          traits: traits,
+          traitsDict: traitsDict,
+          traitValuesDict: traitValuesDict,
+          projectId: projectId,
+        },
+      };
+    }
+  } catch (error) {
+    console.log("Error: ", error);
+  }
+
+  return {
+    props: {},
+  };
+};
@@ -0,0 +1,387 @@
+import Layout from "../../../../../../components/Layout";
+import DropsSubnav from "../../../../../../components/DropsSubnav";
+import { EmptyState } from "../../../../../../components/EmptyState";
+import Link from "next/dist/client/link";
+import {
+  TrashIcon,
+  PencilAltIcon,
+  DocumentAddIcon,
+} from "@heroicons/react/outline";
+import Project, { Projects } from "../../../../../../models/project";
+import Collection, { Collections } from "../../../../../../models/collection";
+import Requirement, {
+  Requirements,
+} from "../../../../../../models/requirement";
+import Trait, { Traits } from "../../../../../../models/trait";
+import TraitValue, { TraitValues } from "../../../../../../models/traitValue";
+import { GetServerSideProps } from "next";
+import { DestructiveModal } from "../../../../../../components/DestructiveModal";
+import { useState } from "react";
+import { useRouter } from "next/router";
+
+interface Props {
+  project: Project;
+  projects: Project[];
+  collection: Collection;
+  requirements: Requirement[];
+  traits: Trait[];
+  traitValues: TraitValue[];
+  projectId: string;
+}
+
+export default function IndexPage(props: Props) {
+  const project = props.project;
+  const projects = props.projects;
+  const collection = props.collection;
+  const requirements = props.requirements;
+  const traits = props.traits;
+  const traitValues = props.traitValues;
+  const projectId = props.projectId;
+
+  const [deleteModalOpen, setDeleteModalOpen] = useState(false);
+  const [requirementIdToDelete, setRequirementIdToDelete] = useState<
+    string | null
+  >(null);
+
+  const router = useRouter();
+
+  const confirmDeleteRequirement = (
+    event: React.MouseEvent,
+    requirementId: string
+  ) => {
+    event.preventDefault();
+    setRequirementIdToDelete(requirementId);
+    setDeleteModalOpen(true);
+  };
+
+  const deleteRequirement = async () => {
+    if (requirementIdToDelete) {
+      await Requirements.remove(
+        requirementIdToDelete,
+        projectId,
+        collection.id
+      );
+    }
+    setRequirementIdToDelete(null);
+    setDeleteModalOpen(false);
+    router.reload();
+  };
+
+  const cancelDeleteRequirement = async () => {
+    setRequirementIdToDelete(null);
+    setDeleteModalOpen(false);
+  };
+
+  if (!requirements) {
+    return (
+      <Layout
+        title="Requirements"
+        section="collections"
+        projects={projects}
+        selectedProjectId={projectId}
+      >
+        <DropsSubnav
+          project={project}
+          collection={collection}
+          section="requirements"
+        />
+        <main className="px-8 py-12">
+          <p>Not Found</p>
+        </main>
+      </Layout>
+    );
+  } else if (requirements.length == 0) {
+    return (
+      <Layout
+        title="Requirements"
+        section="collections"
+        projects={projects}
+        selectedProjectId={undefined}
+      >
+        <DropsSubnav
+          project={project}
+          collection={collection}
+          section="requirements"
+        />
+        <main className="px-8 py-12">
+          <Link
+            href={
+              "/projects/" +
+              project.id +
+              "/collections/" +
+              collection.id +
+              "/requirements/create"
+            }
+            passHref={true}
+          >
+            <button type="button" className="block w-full">
+              <EmptyState
+                title="No requirements"
+                message="Create your first requirement to limit the values a trait can be given alongside another."
+                buttonTitle="New Requirement"
+              />
+            </button>
+          </Link>
+        </main>
+      </Layout>
+    );
+  } else {
+    return (
+      <Layout
+        title="Requirements"
+        section="collections"
+        projects={projects}
+        selectedProjectId={projectId}
+      >
+        <div>
+          <DropsSubnav
+            project={project}
+            collection={collection}
+            section="requirements"
+          />
+          <main>
+            <div className="mt-4 mr-8 float-right">
+              <span className="">
+                <Link
+                  href={
+                    "/projects/" +
+                    project.id +
+                    "/collections/" +
+                    collection.id +
+                    "/requirements/create"
+                  }
+                  passHref={true}
+                >
+                  <button
+                    type="button"
+                    className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                  >
+                    <DocumentAddIcon
+                      className="-ml-1 mr-1 h-5 w-5"
+                      aria-hidden="true"
+                    />
+                    Add Requirement
+                  </button>
+                </Link>
+              </span>
+            </div>
+
+            <div className="flex flex-col clear-both px-8 py-4">
+              <div className="-my-2 overflow-x-auto sm:-mx-6 lg:-mx-8">
+                <div className="py-2 align-middle inline-block min-w-full sm:px-6 lg:px-8">
+                  <div className="shadow overflow-hidden border-b border-gray-200 sm:rounded-lg">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Trait Name
+                          </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Trait Value
+                          </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Required Trait Name
+                          </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Required Values
+                          </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          ></th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {requirements.map((requirement) => {
+                          const requiredTraitValueNames =
+                            requirement.requiredTraitValueIds
+                              .map((traitValueId) =>
+                                traitValueId
+                                  ? traitValues.find((traitValue) => {
+                                      return traitValue.id == traitValueId;
+                                    })?.name ?? "Unknown"
+                                  : "None"
+                              )
+                              .join(", ");
+
+                          return (
+                            <Link
+                              key={requirement.id}
+                              href={
+                                "/projects/" +
+                                project.id +
+                                "/collections/" +
+                                collection.id +
+                                "/requirements/" +
+                                requirement.id
+                              }
+                              passHref={true}
+                            >
+                              <tr
+                                key={requirement.id}
+                                className="hover:bg-gray-100 cursor-pointer"
+                              >
+                                <td className="px-6 py-4">
+                                  <div className="text-sm text-gray-900">
+                                    {requirement?.traitId
+                                      ? traits.find((trait) => {
+                                          return (
+                                            trait.id == requirement?.traitId
+                                          );
+                                        })?.name
+                                      : ""}
+                                  </div>
+                                </td>
+                                <td className="px-6 py-4">
+                                  <div className="text-sm text-gray-500 overflow-ellipsis">
+                                    {requirement?.traitValueId
+                                      ? traitValues.find((traitValue) => {
+                                          return (
+                                            traitValue.id ==
+                                            requirement?.traitValueId
+                                          );
+                                        })?.name ?? "Any"
+                                      : "Any"}
+                                  </div>
+                                </td>
+                                <td className="px-6 py-4">
+                                  <div className="text-sm text-gray-500 overflow-ellipsis">
+                                    {requirement?.requiredTraitId
+                                      ? traits.find((trait) => {
+                                          return (
+                                            trait.id ==
+                                            requirement?.requiredTraitId
+                                          );
+                                        })?.name
+                                      : ""}
+                                  </div>
+                                </td>
+                                <td className="px-6 py-4">
+                                  <div className="text-sm text-gray-500 overflow-ellipsis">
+                                    {requiredTraitValueNames}
+                                  </div>
+                                </td>
+                                <td align="right" width="100">
+                                  <Link
+                                    href={
+                                      "/projects/" +
+                                      project.id +
+                                      "/collections/" +
+                                      collection.id +
+                                      "/requirements/" +
+                                      requirement.id
+                                    }
+                                    passHref={true}
+                                  >
+                                    <a
+                                      href="#"
+                                      className="text-indigo-600 hover:text-indigo-900 inline-block mr-2"
+                                    >
+                                      <PencilAltIcon
+                                        className="h-5 w-5 text-gray-400"
+                                        aria-hidden="true"
+                                      />
+                                    </a>
+                                  </Link>
+                                  <a
+                                    href="#"
+                                    onClick={(e) =>
+                                      confirmDeleteRequirement(
+                                        e,
+                                        requirement.id
+                                      )
+                                    }
+                                    className="text-indigo-600 hover:text-indigo-900 inline-block mr-2"
+                                  >
+                                    <TrashIcon
+                                      className="h-5 w-5 text-gray-400"
+                                      aria-hidden="true"
+                                    />
+                                  </a>
+                                </td>
+                              </tr>
+                            </Link>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </main>
+
+          <DestructiveModal
+            title="Delete Requirement"
+            message={
+              "Are you sure you want to delete this requirement? This action cannot be undone."
+            }
+            deleteAction={() => {
+              deleteRequirement();
+            }}
+            cancelAction={() => {
+              cancelDeleteRequirement();
+            }}
+            show={deleteModalOpen}
+          />
+        </div>
+      </Layout>
+    );
+  }
+}
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  try {
+    const projectId = context.query.projectId?.toString();
+    const collectionId = context.query.collectionId?.toString();
+
+    if (projectId && collectionId) {
+      const projects = await Projects.all();
+      const collection = await Collections.withId(collectionId, projectId);
+      const requirements = await Requirements.all(projectId, collectionId);
+      const project = projects.find((project) => project.id == projectId);
+      const traits = await Traits.all(projectId, collectionId);
+
+      let traitValues: TraitValue[] = [];
+      for (let i = 0; i < traits.length; i++) {
+        const trait = traits[i];
+        const traitValuesForTrait = await TraitValues.all(
+          projectId,
+          collectionId,
+          trait.id
+        );
+        traitValues = traitValues.concat(traitValuesForTrait);
+      }
+
+      return {
+        props: {
+          project: project,
+          projects: projects,
+          collection: collection,
+          requirements: requirements,
+          traits: traits,
+          traitValues: traitValues,
+          projectId: projectId,
+        },
+      };
+    }
+  } catch (error) {
+    console.log("Error: ", error);
+  }
+
+  return {
+    props: {},
+  };
+};
@@ -0,0 +1,367 @@
+import Header from "../../../../../../../components/Header";
+import Layout from "../../../../../../../components/Layout";
+import FormDescription from "../../../../../../../components/FormDescription";
+import Project, { Projects } from "../../../../../../../models/project";
+import Collection, {
+  Collections,
+} from "../../../../../../../models/collection";
+import TraitSet, { TraitSets } from "../../../../../../../models/traitSet";
+import TextLayer, { TextLayers } from "../../../../../../../models/textLayer";
+import {
+  ImageLayers,
+  LayerAnchor,
+} from "../../../../../../../models/imageLayer";
+import { GetServerSideProps } from "next";
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/router";
+
+interface Props {
+  project: Project;
+  projects: Project[];
+  collection: Collection;
+  traitSets: TraitSet[];
+  textLayer: TextLayer;
+  projectId: string;
+}
+
+export default function EditPage(props: Props) {
+  const project = props.project;
+  const projects = props.projects;
+  const collection = props.collection;
+  const traitSets = props.traitSets;
+  const textLayer = props.textLayer;
+  const projectId = props.projectId;
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const router = useRouter();
+  const onSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const data = new FormData(event.target as HTMLFormElement);
+
+    setIsSubmitting(true);
+
+    const traitSetId = data.get("traitSetId")?.toString().trim() ?? null;
+    const fontFile = data.get("font") as File | null;
+
+    // keep the current font unless a new one was picked
+    const font =
+      fontFile && fontFile.size > 0
+        ? await TextLayers.uploadFont(fontFile, projectId, collection.id)
+        : {
+            fontBucketFilename: textLayer.fontBucketFilename,
+            fontName: textLayer.fontName,
+          };
+
+    await TextLayers.update(
+      {
+        name: data.get("name")?.toString().trim(),
+        traitSetId: traitSetId == "-1" ? null : traitSetId,
+        text: data.get("text")?.toString() ?? "",
+        ...font,
+        fontSize: parseFloat(data.get("fontSize")?.toString().trim() || "48"),
+        color: data.get("color")?.toString() ?? "#000000",
+        zIndex: parseInt(data.get("zIndex")?.toString().trim() || "0"),
+        anchor: parseInt(data.get("anchor")?.toString() ?? "0"),
+        offsetX: parseFloat(data.get("offsetX")?.toString().trim() || "0"),
+        offsetY: parseFloat(data.get("offsetY")?.toString().trim() || "0"),
+      },
+      textLayer.id,
+      projectId,
+      collection.id
+    );
+
+    setIsSubmitting(false);
+
+    router.push(
+      {
+        pathname:
+          "/projects/" +
+          projectId +
+          "/collections/" +
+          collection.id +
+          "/textLayers",
+        query: {},
+      },
+      undefined,
+      { shallow: false }
+    );
+  };
+
+  return (
+    <Layout
+      title="Edit Text Layer"
+      section="collections"
+      projects={projects}
+      selectedProjectId={projectId}
+    >
+      <Header title="Edit Text Layer" />
+      <main className="px-8 py-12">
+        <div>
+          <div className="md:grid md:grid-cols-3 md:gap-6">
+            <FormDescription
+              title="Text Layer"
+              description="Edit text drawn into every item."
+            />
+            <div className="mt-5 md:mt-0 md:col-span-2">
+              <form
+                action="#"
+                method="POST"
+                encType="multipart/form-data"
+                onSubmit={onSubmit}
+              >
+                <div className="shadow sm:rounded-md sm:overflow-hidden">
+                  <div className="px-4 py-5 bg-white space-y-6 sm:p-6">
+                    <div>
+                      <label
+                        htmlFor="name"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Name
+                      </label>
+                      <input
+                        type="text"
+                        name="name"
+                        id="name"
+                        defaultValue={textLayer.name}
+                        placeholder="Token Number"
+                        className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                      />
+                    </div>
+
+                    {traitSets.length == 0 ? (
+                      ""
+                    ) : (
+                      <div>
+                        <label
+                          htmlFor="traitSetId"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Trait Set
+                        </label>
+
+                        <select
+                          id="traitSetId"
+                          name="traitSetId"
+                          className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                          defaultValue={textLayer.traitSetId ?? "-1"}
+                        >
+                          <option value="-1">All Trait Sets</option>
+                          {traitSets.map((traitSet) => (
+                            <option key={traitSet.id} value={traitSet.id}>
+                              {traitSet.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    <div>
+                      <label
+                        htmlFor="text"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Text
+                      </label>
+                      <input
+                        type="text"
+                        name="text"
+                        id="text"
+                        defaultValue={textLayer.text}
+                        placeholder="#{number:4}"
+                        className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        {"{number}"} is the item&apos;s number starting from 1,
+                        {" {number:4}"} pads it to 4 digits, and{" "}
+                        {"{Trait Name}"} is the name of the item&apos;s value
+                        for that trait
+                      </p>
+                    </div>
+
+                    <div>
+                      <label
+                        htmlFor="font"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Font
+                      </label>
+                      <input
+                        type="file"
+                        name="font"
+                        id="font"
+                        accept=".ttf,.otf"
+                        className="mt-1 block w-full sm:text-sm"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        {textLayer.fontName
+                          ? "Currently " +
+                            textLayer.fontName +
+                            ", pick another file to replace it"
+                          : "A TrueType or OpenType font, or leave empty to use a plain sans-serif one"}
+                      </p>
+                    </div>
+
+                    <div className="grid grid-cols-4 gap-4">
+                      <div>
+                        <label
+                          htmlFor="fontSize"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Font Size
+                        </label>
+                        <input
+                          type="text"
+                          name="fontSize"
+                          id="fontSize"
+                          defaultValue={textLayer.fontSize}
+                          placeholder="48"
+                          className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                        />
+                      </div>
+                      <div>
+                        <label
+                          htmlFor="color"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Colour
+                        </label>
+                        <input
+                          type="color"
+                          name="color"
+                          id="color"
+                          defaultValue={textLayer.color}
+                          className="mt-1 block w-full h-10 rounded-md"
+                        />
+                      </div>
+                      <div>
+                        <label
+                          htmlFor="zIndex"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Z Index
+                        </label>
+                        <input
+                          type="text"
+                          name="zIndex"
+                          id="zIndex"
+                          defaultValue={textLayer.zIndex}
+                          placeholder="0"
+                          className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-4 gap-4">
+                      <div className="col-span-2">
+                        <label
+                          htmlFor="anchor"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Anchor
+                        </label>
+                        <select
+                          id="anchor"
+                          name="anchor"
+                          className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                          defaultValue={textLayer.anchor ?? LayerAnchor.TopLeft}
+                        >
+                          {Object.entries(ImageLayers.ANCHOR_NAMES).map(
+                            ([anchor, anchorName]) => (
+                              <option key={anchor} value={anchor}>
+                                {anchorName}
+                              </option>
+                            )
+                          )}
+                        </select>
+                      </div>
+                      <div>
+                        <label
+                          htmlFor="offsetX"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Offset X
+                        </label>
+                        <input
+                          type="text"
+                          name="offsetX"
+                          id="offsetX"
+                          defaultValue={textLayer.offsetX ?? ""}
+                          placeholder="0"
+                          className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                        />
+                      </div>
+                      <div>
+                        <label
+                          htmlFor="offsetY"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Offset Y
+                        </label>
+                        <input
+                          type="text"
+                          name="offsetY"
+                          id="offsetY"
+                          defaultValue={textLayer.offsetY ?? ""}
+                          placeholder="0"
+                          className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="px-4 py-3 bg-gray-50 text-right sm:px-6">
+                    <button
+                      type="submit"
+                      className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                      disabled={isSubmitting}
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      </main>
+    </Layout>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  try {
+    const projectId = context.query.projectId?.toString();
+    const collectionId = context.query.collectionId?.toString();
+    const textLayerId = context.query.textLayerId?.toString();
+
+    if (projectId && collectionId && textLayerId) {
+      const projects = await Projects.all();
+      const collection = await Collections.withId(collectionId, projectId);
+      const project = projects.find((project) => project.id == projectId);
+      const traitSets = await TraitSets.all(projectId, collectionId);
+      const textLayer = await TextLayers.withId(
+        textLayerId,
+        projectId,
+        collectionId
+      );
+
+      return {
+        props: {
+          project: project,
+          projects: projects,
+          collection: collection,
+          traitSets: traitSets,
+          textLayer: textLayer,
+          projectId: projectId,
+        },
+      };
+    }
+  } catch (error) {
+    console.log("Error: ", error);
+  }
+
+  return {
+    props: {},
+  };
+};
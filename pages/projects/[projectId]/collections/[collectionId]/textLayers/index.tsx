@@ -0,0 +1,327 @@
+import Layout from "../../../../../../components/Layout";
+import DropsSubnav from "../../../../../../components/DropsSubnav";
+import { EmptyState } from "../../../../../../components/EmptyState";
+import Link from "next/dist/client/link";
+import {
+  TrashIcon,
+  PencilAltIcon,
+  DocumentAddIcon,
+} from "@heroicons/react/outline";
+import Project, { Projects } from "../../../../../../models/project";
+import Collection, { Collections } from "../../../../../../models/collection";
+import TextLayer, { TextLayers } from "../../../../../../models/textLayer";
+import { GetServerSideProps } from "next";
+import { DestructiveModal } from "../../../../../../components/DestructiveModal";
+import { useState } from "react";
+import { useRouter } from "next/router";
+
+interface Props {
+  project: Project;
+  projects: Project[];
+  collection: Collection;
+  textLayers: TextLayer[];
+  projectId: string;
+}
+
+export default function IndexPage(props: Props) {
+  const project = props.project;
+  const projects = props.projects;
+  const collection = props.collection;
+  const textLayers = props.textLayers;
+  const projectId = props.projectId;
+
+  const [deleteModalOpen, setDeleteModalOpen] = useState(false);
+  const [textLayerIdToDelete, setTextLayerIdToDelete] = useState<string | null>(
+    null
+  );
+
+  const router = useRouter();
+
+  const confirmDeleteTextLayer = (
+    event: React.MouseEvent,
+    textLayerId: string
+  ) => {
+    event.preventDefault();
+    setTextLayerIdToDelete(textLayerId);
+    setDeleteModalOpen(true);
+  };
+
+  const deleteTextLayer = async () => {
+    if (textLayerIdToDelete) {
+      await TextLayers.remove(textLayerIdToDelete, projectId, collection.id);
+    }
+    setTextLayerIdToDelete(null);
+    setDeleteModalOpen(false);
+    router.reload();
+  };
+
+  const cancelDeleteTextLayer = async () => {
+    setTextLayerIdToDelete(null);
+    setDeleteModalOpen(false);
+  };
+
+  if (!textLayers) {
+    return (
+      <Layout
+        title="Text Layers"
+        section="collections"
+        projects={projects}
+        selectedProjectId={projectId}
+      >
+        <DropsSubnav
+          project={project}
+          collection={collection}
+          section="textLayers"
+        />
+        <main className="px-8 py-12">
+          <p>Not Found</p>
+        </main>
+      </Layout>
+    );
+  } else if (textLayers.length == 0) {
+    return (
+      <Layout
+        title="Text Layers"
+        section="collections"
+        projects={projects}
+        selectedProjectId={undefined}
+      >
+        <DropsSubnav
+          project={project}
+          collection={collection}
+          section="textLayers"
+        />
+        <main className="px-8 py-12">
+          <Link
+            href={
+              "/projects/" +
+              project.id +
+              "/collections/" +
+              collection.id +
+              "/textLayers/create"
+            }
+            passHref={true}
+          >
+            <button type="button" className="block w-full">
+              <EmptyState
+                title="No text layers"
+                message="Create your first text layer to draw text like the item's number into every item."
+                buttonTitle="New Text Layer"
+              />
+            </button>
+          </Link>
+        </main>
+      </Layout>
+    );
+  } else {
+    return (
+      <Layout
+        title="Text Layers"
+        section="collections"
+        projects={projects}
+        selectedProjectId={projectId}
+      >
+        <div>
+          <DropsSubnav
+            project={project}
+            collection={collection}
+            section="textLayers"
+          />
+          <main>
+            <div className="mt-4 mr-8 float-right">
+              <span className="">
+                <Link
+                  href={
+                    "/projects/" +
+                    project.id +
+                    "/collections/" +
+                    collection.id +
+                    "/textLayers/create"
+                  }
+                  passHref={true}
+                >
+                  <button
+                    type="button"
+                    className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                  >
+                    <DocumentAddIcon
+                      className="-ml-1 mr-1 h-5 w-5"
+                      aria-hidden="true"
+                    />
+                    Add Text Layer
+                  </button>
+                </Link>
+              </span>
+            </div>
+
+            <div className="flex flex-col clear-both px-8 py-4">
+              <div className="-my-2 overflow-x-auto sm:-mx-6 lg:-mx-8">
+                <div className="py-2 align-middle inline-block min-w-full sm:px-6 lg:px-8">
+                  <div className="shadow overflow-hidden border-b border-gray-200 sm:rounded-lg">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Name
+                          </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Text
+                          </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Font
+                          </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            Z Index
+                          </th>
+                          <th
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          ></th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {textLayers.map((textLayer) => {
+                          return (
+                            <Link
+                              key={textLayer.id}
+                              href={
+                                "/projects/" +
+                                project.id +
+                                "/collections/" +
+                                collection.id +
+                                "/textLayers/" +
+                                textLayer.id
+                              }
+                              passHref={true}
+                            >
+                              <tr
+                                key={textLayer.id}
+                                className="hover:bg-gray-100 cursor-pointer"
+                              >
+                                <td className="px-6 py-4">
+                                  <div className="text-sm text-gray-900">
+                                    {textLayer.name}
+                                  </div>
+                                </td>
+                                <td className="px-6 py-4">
+                                  <div className="text-sm text-gray-500 overflow-ellipsis">
+                                    {textLayer.text}
+                                  </div>
+                                </td>
+                                <td className="px-6 py-4">
+                                  <div className="text-sm text-gray-500 overflow-ellipsis">
+                                    {textLayer.fontName ?? "Default"}
+                                  </div>
+                                </td>
+                                <td className="px-6 py-4">
+                                  <div className="text-sm text-gray-500">
+                                    {textLayer.zIndex}
+                                  </div>
+                                </td>
+                                <td align="right" width="100">
+                                  <Link
+                                    href={
+                                      "/projects/" +
+                                      project.id +
+                                      "/collections/" +
+                                      collection.id +
+                                      "/textLayers/" +
+                                      textLayer.id
+                                    }
+                                    passHref={true}
+                                  >
+                                    <a
+                                      href="#"
+                                      className="text-indigo-600 hover:text-indigo-900 inline-block mr-2"
+                                    >
+                                      <PencilAltIcon
+                                        className="h-5 w-5 text-gray-400"
+                                        aria-hidden="true"
+                                      />
+                                    </a>
+                                  </Link>
+                                  <a
+                                    href="#"
+                                    onClick={(e) =>
+                                      confirmDeleteTextLayer(e, textLayer.id)
+                                    }
+                                    className="text-indigo-600 hover:text-indigo-900 inline-block mr-2"
+                                  >
+                                    <TrashIcon
+                                      className="h-5 w-5 text-gray-400"
+                                      aria-hidden="true"
+                                    />
+                                  </a>
+                                </td>
+                              </tr>
+                            </Link>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </main>
+
+          <DestructiveModal
+            title="Delete Text Layer"
+            message={
+              "Are you sure you want to delete this text layer? This action cannot be undone."
+            }
+            deleteAction={() => {
+              deleteTextLayer();
+            }}
+            cancelAction={() => {
+              cancelDeleteTextLayer();
+            }}
+            show={deleteModalOpen}
+          />
+        </div>
+      </Layout>
+    );
+  }
+}
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  try {
+    const projectId = context.query.projectId?.toString();
+    const collectionId = context.query.collectionId?.toString();
+
+    if (projectId && collectionId) {
+      const projects = await Projects.all();
+      const collection = await Collections.withId(collectionId, projectId);
+      const textLayers = await TextLayers.all(projectId, collectionId);
+      const project = projects.find((project) => project.id == projectId);
+
+      return {
+        props: {
+          project: project,
+          projects: projects,
+          collection: collection,
+          textLayers: textLayers,
+          projectId: projectId,
+        },
+      };
+    }
+  } catch (error) {
+    console.log("Error: ", error);
+  }
+
+  return {
+    props: {},
+  };
+};
@@ -7,6 +7,9 @@ import Collection, {
 } from "../../../../../../../models/collection";
 import Trait, { Traits } from "../../../../../../../models/trait";
 import TraitSet, { TraitSets } from "../../../../../../../models/traitSet";
+import TraitValue, {
+  TraitValues,
+} from "../../../../../../../models/traitValue";
 import { GetServerSideProps } from "next";
 import { FormEvent, useState } from "react";
 import { useRouter } from "next/router";
@@ -17,6 +20,7 @@ interface Props {
   collection: Collection;
   traits: Trait[];
   traitSet: TraitSet;
+  traitValuesDict: { [traitId: string]: TraitValue[] };
   projectId: string;
 }
 
@@ -26,8 +30,14 @@ export default function EditPage(props: Props) {
   const collection = props.collection;
   const traits = props.traits;
   const traitSet = props.traitSet;
+  const traitValuesDict = props.traitValuesDict;
   const projectId = props.projectId;
 
+  // always unique traits don't use rarity at all
+  const traitSetTraits = traits.filter(
+    (trait) => trait.traitSetIds.includes(traitSet.id) && !trait.isAlwaysUnique
+  );
+
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const router = useRouter();
@@ -52,6 +62,35 @@ export default function EditPage(props: Props) {
       collection.id
     );
 
+    // a blank rarity goes back to the value's own rarity
+    let updates: Promise<void>[] = [];
+    traitSetTraits.forEach((trait) => {
+      (traitValuesDict[trait.id] ?? []).forEach((traitValue) => {
+        const rarityStr = data
+          .get("rarity-" + trait.id + "-" + traitValue.id)
+          ?.toString()
+          .trim();
+        const rarity = rarityStr ? parseFloat(rarityStr) : null;
+        const existingRarity =
+          traitValue.traitSetRarities?.[traitSet.id] ?? null;
+
+        if (rarity !== existingRarity) {
+          updates.push(
+            TraitValues.updateTraitSetRarity(
+              rarity,
+              traitSet.id,
+              traitValue.id,
+              projectId,
+              collection.id,
+              trait.id
+            )
+          );
+        }
+      });
+    });
+
+    await Promise.all(updates);
+
     setIsSubmitting(false);
 
     router.push(
@@ -125,6 +164,71 @@ export default function EditPage(props: Props) {
                         set?
                       </p>
                     </div>
+
+                    {traitSetTraits.length == 0 ? (
+                      ""
+                    ) : (
+                      <div>
+                        <h3 className="block text-sm font-medium text-gray-700">
+                          Rarity Overrides
+                        </h3>
+                        <p className="text-xs text-gray-600 mt-2">
+                          Leave a rarity blank to use the value&apos;s own
+                          rarity when generating this trait set.
+                        </p>
+                        {traitSetTraits.map((trait) => (
+                          <div key={trait.id} className="mt-4">
+                            <h4 className="text-sm text-gray-700">
+                              {trait.name}, Total Rarity:{" "}
+                              {(traitValuesDict[trait.id] ?? [])
+                                .reduce(
+                                  (total, traitValue) =>
+                                    total +
+                                    TraitValues.rarityForTraitSet(
+                                      traitValue,
+                                      traitSet.id
+                                    ),
+                                  0
+                                )
+                                .toFixed(5)}
+                            </h4>
+                            {(traitValuesDict[trait.id] ?? []).map(
+                              (traitValue) => (
+                                <div
+                                  key={traitValue.id}
+                                  className="mt-1 grid grid-cols-2 gap-4 items-center"
+                                >
+                                  <label
+                                    htmlFor={
+                                      "rarity-" + trait.id + "-" + traitValue.id
+                                    }
+                                    className="text-sm text-gray-500"
+                                  >
+                                    {traitValue.name}
+                                  </label>
+                                  <input
+                                    type="text"
+                                    name={
+                                      "rarity-" + trait.id + "-" + traitValue.id
+                                    }
+                                    id={
+                                      "rarity-" + trait.id + "-" + traitValue.id
+                                    }
+                                    defaultValue={
+                                      traitValue.traitSetRarities?.[
+                                        traitSet.id
+                                      ] ?? ""
+                                    }
+                                    placeholder={traitValue.rarity.toString()}
+                                    className="block w-full shadow-sm sm:text-sm rounded-md"
+                                  />
+                                </div>
+                              )
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   <div className="px-4 py-3 bg-gray-50 text-right sm:px-6">
@@ -162,6 +266,18 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
       );
       const project = projects.find((project) => project.id == projectId);
 
+      const traitValuesDict: { [traitId: string]: TraitValue[] } = {};
+      for (let i = 0; i < traits.length; i++) {
+        const trait = traits[i];
+        if (trait.traitSetIds.includes(traitSetId)) {
+          traitValuesDict[trait.id] = await TraitValues.all(
+            projectId,
+            collectionId,
+            trait.id
+          );
+        }
+      }
+
       return {
         props: {
           project: project,
@@ -169,6 +285,7 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
           collection: collection,
           traits: traits,
           traitSet: traitSet,
+          traitValuesDict: traitValuesDict,
           projectId: projectId,
         },
       };
@@ -42,6 +42,9 @@ export default function EditPage(props: Props) {
     const zIndexStr = data.get("zIndex")?.toString().trim();
     const zIndex = zIndexStr ? parseInt(zIndexStr) : null;
 
+    const noneChanceStr = data.get("noneChance")?.toString().trim();
+    const noneChance = noneChanceStr ? parseFloat(noneChanceStr) : null;
+
     const traitSetIds: string[] = data.getAll("traitSets[]").map((item) => {
       return item.toString();
     });
@@ -57,6 +60,7 @@ export default function EditPage(props: Props) {
       {
         name: name,
         zIndex: zIndex ?? 0,
+        noneChance: noneChance,
         traitSetIds: traitSetIds,
         isMetadataOnly: isMetadataOnly,
         isArtworkOnly: isArtworkOnly,
@@ -138,6 +142,28 @@ export default function EditPage(props: Props) {
                       />
                     </div>
 
+                    <div>
+                      <label
+                        htmlFor="noneChance"
+                        className="block text-sm font-medium"
+                      >
+                        Chance of None
+                      </label>
+                      <input
+                        type="text"
+                        name="noneChance"
+                        id="noneChance"
+                        placeholder="0.1"
+                        defaultValue={trait.noneChance ?? ""}
+                        className="mt-1 block w-full shadow-sm sm:text-sm rounded-md border-transparent"
+                      />
+                      <p className="text-xs text-gray-600 mt-2">
+                        Fraction of items (0 - 1) that should have no value for
+                        this trait. Leave blank to give items no value only when
+                        the rarities of its values add up to less than 1
+                      </p>
+                    </div>
+
                     <div>
                       <input
                         type="checkbox"
@@ -15,6 +15,7 @@ import Collection, {
   Collections,
 } from "../../../../../../../models/collection";
 import Trait, { Traits } from "../../../../../../../models/trait";
+import TraitSet, { TraitSets } from "../../../../../../../models/traitSet";
 import TraitValue, {
   TraitValues,
 } from "../../../../../../../models/traitValue";
@@ -27,6 +28,7 @@ interface Props {
   projects: Project[];
   collection: Collection;
   trait: Trait;
+  traitSets: TraitSet[];
   traitValues: TraitValue[];
 }
 
@@ -35,6 +37,7 @@ export default function IndexPage(props: Props) {
   const projects = props.projects;
   const collection = props.collection;
   const trait = props.trait;
+  const traitSets = props.traitSets;
   const traitValues = props.traitValues;
 
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
@@ -94,6 +97,28 @@ export default function IndexPage(props: Props) {
     router.reload();
   };
 
+  const saveTraitSetRarity = async (
+    traitValue: TraitValue,
+    traitSetId: string,
+    rarityStr: string
+  ) => {
+    // a blank rarity goes back to the value's own rarity
+    const rarity = rarityStr.trim() ? parseFloat(rarityStr) : null;
+    if (rarity === (traitValue.traitSetRarities?.[traitSetId] ?? null)) {
+      return;
+    }
+
+    await TraitValues.updateTraitSetRarity(
+      rarity,
+      traitSetId,
+      traitValue.id,
+      project.id,
+      collection.id,
+      trait.id
+    );
+    router.reload();
+  };
+
   if (!trait) {
     return (
       <Layout
@@ -264,13 +289,26 @@ export default function IndexPage(props: Props) {
               {trait.isAlwaysUnique ? (
                 trait.name
               ) : (
-                <h1>
-                  {trait.name}, Total Rarity:{" "}
-                  {traitValues
-                    .map((a) => a.rarity)
-                    .reduce((a, b) => a + b)
-                    .toFixed(5)}
-                </h1>
+                <>
+                  <h1>
+                    {trait.name}, Total Rarity:{" "}
+                    {traitValues
+                      .map((a) => a.rarity)
+                      .reduce((a, b) => a + b)
+                      .toFixed(5)}
+                  </h1>
+                  {traitSets.map((traitSet) => (
+                    <p key={traitSet.id} className="text-sm text-gray-500">
+                      {traitSet.name} Total Rarity:{" "}
+                      {traitValues
+                        .map((a) =>
+                          TraitValues.rarityForTraitSet(a, traitSet.id)
+                        )
+                        .reduce((a, b) => a + b)
+                        .toFixed(5)}
+                    </p>
+                  ))}
+                </>
               )}
             </div>
 
@@ -297,6 +335,17 @@ export default function IndexPage(props: Props) {
                               Rarity
                             </th>
                           )}
+                          {trait.isAlwaysUnique
+                            ? ""
+                            : traitSets.map((traitSet) => (
+                                <th
+                                  key={traitSet.id}
+                                  scope="col"
+                                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                                >
+                                  {traitSet.name} Rarity
+                                </th>
+                              ))}
                           <th
                             scope="col"
                             className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
@@ -339,6 +388,33 @@ export default function IndexPage(props: Props) {
                                     </div>
                                   </td>
                                 )}
+                                {trait.isAlwaysUnique
+                                  ? ""
+                                  : traitSets.map((traitSet) => (
+                                      <td
+                                        key={traitSet.id}
+                                        className="px-6 py-4"
+                                        onClick={(e) => e.stopPropagation()}
+                                      >
+                                        <input
+                                          type="text"
+                                          defaultValue={
+                                            traitValue.traitSetRarities?.[
+                                              traitSet.id
+                                            ] ?? ""
+                                          }
+                                          placeholder={traitValue.rarity.toString()}
+                                          className="block w-24 shadow-sm sm:text-sm rounded-md"
+                                          onBlur={(e) =>
+                                            saveTraitSetRarity(
+                                              traitValue,
+                                              traitSet.id,
+                                              e.currentTarget.value
+                                            )
+                                          }
+                                        />
+                                      </td>
+                                    ))}
                                 <td align="right">
                                   <Link
                                     href={
@@ -420,6 +496,9 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
       const projects = await Projects.all();
       const collection = await Collections.withId(collectionId, projectId);
       const trait = await Traits.withId(projectId, collectionId, traitId);
+      const traitSets = (await TraitSets.all(projectId, collectionId)).filter(
+        (traitSet) => trait.traitSetIds.includes(traitSet.id)
+      );
       const traitValues = await TraitValues.all(
         projectId,
         collectionId,
@@ -433,6 +512,7 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
           projects: projects,
           collection: collection,
           trait: trait,
+          traitSets: traitSets,
           traitValues: traitValues,
         },
       };
@@ -7,6 +7,8 @@ import Collection, {
 } from "../../../../../../../../../models/collection";
 import Trait, { Traits } from "../../../../../../../../../models/trait";
 import TraitValue, {
+  Fill,
+  FillType,
   TraitValues,
 } from "../../../../../../../../../models/traitValue";
 import { GetServerSideProps } from "next";
@@ -29,6 +31,29 @@ export default function EditPage(props: Props) {
   const traitValue = props.traitValue;
 
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fill, setFill] = useState<Fill | null>(traitValue.fill ?? null);
+  const [tintColor, setTintColor] = useState<string | null>(
+    traitValue.tintColor ?? null
+  );
+
+  const updateFill = (updates: Partial<Fill>) => {
+    setFill({
+      type: FillType.Solid,
+      colors: ["#ffffff", "#000000"],
+      angle: null,
+      ...fill,
+      ...updates,
+    });
+  };
+
+  const onFillTypeChange = (value: string) => {
+    const type = parseInt(value);
+    if (type == -1) {
+      setFill(null);
+    } else {
+      updateFill({ type: type });
+    }
+  };
 
   const router = useRouter();
   const onSubmit = async (event: FormEvent) => {
@@ -44,6 +69,14 @@ export default function EditPage(props: Props) {
       {
         name: name,
         rarity: trait.isAlwaysUnique ? -1 : rarity,
+        fill: fill
+          ? {
+              ...fill,
+              colors:
+                fill.type == FillType.Solid ? [fill.colors[0]] : fill.colors,
+            }
+          : null,
+        tintColor: tintColor,
       },
       traitValue.id,
       project.id,
@@ -127,6 +160,172 @@ export default function EditPage(props: Props) {
                         />
                       </div>
                     )}
+
+                    <div>
+                      <label
+                        htmlFor="fillType"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Fill
+                      </label>
+                      <p className="mt-1 text-xs text-gray-500">
+                        Draw a colour or gradient as this value&apos;s
+                        background instead of uploading artwork for it. Fills
+                        are always the bottom layer
+                      </p>
+                      <div className="mt-2 grid grid-cols-4 gap-4">
+                        <select
+                          id="fillType"
+                          value={fill?.type ?? -1}
+                          onChange={(e) => onFillTypeChange(e.target.value)}
+                          className="col-span-2 block w-full shadow-sm sm:text-sm rounded-md"
+                        >
+                          <option value={-1}>None</option>
+                          {Object.entries(TraitValues.FILL_TYPE_NAMES).map(
+                            ([fillType, fillTypeName]) => (
+                              <option key={fillType} value={fillType}>
+                                {fillTypeName}
+                              </option>
+                            )
+                          )}
+                        </select>
+                        {fill ? (
+                          <div
+                            className="col-span-2 h-10 rounded-md border border-gray-300"
+                            style={TraitValues.fillStyle(fill)}
+                          />
+                        ) : (
+                          ""
+                        )}
+                      </div>
+                      {fill ? (
+                        <div className="mt-4 grid grid-cols-4 gap-4">
+                          <div>
+                            <label
+                              htmlFor="fillStartColor"
+                              className="block text-sm font-medium text-gray-700"
+                            >
+                              {fill.type == FillType.Solid
+                                ? "Colour"
+                                : "Start Colour"}
+                            </label>
+                            <input
+                              type="color"
+                              id="fillStartColor"
+                              value={fill.colors[0] ?? "#ffffff"}
+                              onChange={(e) =>
+                                updateFill({
+                                  colors: [
+                                    e.target.value,
+                                    ...fill.colors.slice(1),
+                                  ],
+                                })
+                              }
+                              className="mt-1 block w-full h-10 rounded-md"
+                            />
+                          </div>
+                          {fill.type == FillType.Solid ? (
+                            ""
+                          ) : (
+                            <div>
+                              <label
+                                htmlFor="fillEndColor"
+                                className="block text-sm font-medium text-gray-700"
+                              >
+                                End Colour
+                              </label>
+                              <input
+                                type="color"
+                                id="fillEndColor"
+                                value={
+                                  fill.colors[fill.colors.length - 1] ??
+                                  "#000000"
+                                }
+                                onChange={(e) =>
+                                  updateFill({
+                                    colors: [
+                                      fill.colors[0] ?? "#ffffff",
+                                      e.target.value,
+                                    ],
+                                  })
+                                }
+                                className="mt-1 block w-full h-10 rounded-md"
+                              />
+                            </div>
+                          )}
+                          {fill.type == FillType.LinearGradient ? (
+                            <div>
+                              <label
+                                htmlFor="fillAngle"
+                                className="block text-sm font-medium text-gray-700"
+                              >
+                                Angle
+                              </label>
+                              <input
+                                type="text"
+                                id="fillAngle"
+                                defaultValue={fill.angle ?? ""}
+                                placeholder={TraitValues.DEFAULT_FILL_ANGLE.toString()}
+                                onChange={(e) => {
+                                  const angle = parseFloat(e.target.value);
+                                  updateFill({
+                                    angle: isNaN(angle) ? null : angle,
+                                  });
+                                }}
+                                className="mt-1 block w-full shadow-sm sm:text-sm rounded-md"
+                              />
+                            </div>
+                          ) : (
+                            ""
+                          )}
+                        </div>
+                      ) : (
+                        ""
+                      )}
+                    </div>
+
+                    <div>
+                      <label
+                        htmlFor="tintType"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Tint
+                      </label>
+                      <p className="mt-1 text-xs text-gray-500">
+                        Recolour the artwork tinted by this trait (ex. the head,
+                        hands and ears for a skin tone) when this value is
+                        picked. Shading is kept, so tinted artwork is best drawn
+                        in greys
+                      </p>
+                      <div className="mt-2 grid grid-cols-4 gap-4">
+                        <select
+                          id="tintType"
+                          value={tintColor ? 1 : -1}
+                          onChange={(e) =>
+                            setTintColor(
+                              e.target.value == "-1"
+                                ? null
+                                : tintColor ?? "#c68642"
+                            )
+                          }
+                          className="col-span-2 block w-full shadow-sm sm:text-sm rounded-md"
+                        >
+                          <option value={-1}>None</option>
+                          <option value={1}>Tint Colour</option>
+                        </select>
+                        {tintColor ? (
+                          <input
+                            type="color"
+                            id="tintColor"
+                            value={tintColor}
+                            onChange={(e) => setTintColor(e.target.value)}
+                            className="block w-full h-10 rounded-md"
+                          />
+                        ) : (
+                          ""
+                        )}
+                      </div>
+                    </div>
                   </div>
 
                   <div className="px-4 py-3 bg-gray-50 text-right sm:px-6">